@@ -0,0 +1,47 @@
+/**
+ * Checks a DOCX template's placeholders against a qualification's schema.
+ *
+ *   npm run lint:template -- [--qualification <code>] [--json] [template.docx]
+ *
+ * Without a file, checks the qualification's configured template. Exits with 1 when a placeholder is
+ * missing, extra or malformed.
+ */
+import fs from 'fs/promises';
+import { getQualification, loadQualificationSchema, resolveQualificationPath } from '@/lib/qualifications';
+import { inspectTemplate, lintTemplate } from '@/lib/template-inspection';
+
+async function main(args: string[]) {
+    let qualificationCode: string | null = null;
+    let json = false;
+    let file: string | null = null;
+    for (let i = 0; i < args.length; i++) {
+        if (args[i] === '--qualification') qualificationCode = args[++i] ?? null;
+        else if (args[i] === '--json') json = true;
+        else file = args[i];
+    }
+
+    const qualification = await getQualification(qualificationCode);
+    const templatePath = file ?? resolveQualificationPath(qualification.template);
+    const { schema } = await loadQualificationSchema(qualification);
+    const report = lintTemplate(inspectTemplate(await fs.readFile(templatePath)), schema);
+
+    if (json) {
+        console.log(JSON.stringify({ qualification: qualification.code, template: templatePath, report }, null, 2));
+    } else {
+        console.log(`${templatePath} against ${qualification.code}: ${report.tagCount} tag(s).`);
+        if (report.missing.length > 0) console.log(`\nMissing (${report.missing.length}):\n  ${report.missing.join('\n  ')}`);
+        if (report.extra.length > 0) console.log(`\nExtra (${report.extra.length}):\n  ${report.extra.join('\n  ')}`);
+        if (report.malformed.length > 0) {
+            console.log(`\nMalformed (${report.malformed.length}):\n  ${report.malformed.map(issue => `${issue.part}: ${issue.message}`).join('\n  ')}`);
+        }
+        if (report.ok) console.log('\nNo problems found.');
+    }
+    return report.ok ? 0 : 1;
+}
+
+main(process.argv.slice(2))
+    .then(code => process.exit(code))
+    .catch(error => {
+        console.error(error instanceof Error ? error.message : error);
+        process.exit(2);
+    });
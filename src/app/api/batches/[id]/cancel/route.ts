@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelGenerationJob } from "@/lib/generation-jobs";
+import { getReportStore } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+/**
+ * Cancels every queued or running job in a batch. Answers already generated are kept.
+ */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const batch = await getReportStore().getBatch(id);
+        if (!batch) {
+            return NextResponse.json(
+                { ok: false, error: `Batch '${id}' not found.` },
+                { status: 404 }
+            );
+        }
+        const cancelled = batch.reports.filter(report => report.job && cancelGenerationJob(report.job.id)).length;
+        return NextResponse.json({ ok: true, cancelled });
+    } catch (err: any) {
+        console.error("Batch Cancel Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to cancel batch" },
+            { status: 500 }
+        );
+    }
+}
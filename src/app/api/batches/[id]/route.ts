@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportStore } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+/**
+ * Returns a batch with each student's report status and the progress of its latest generation job.
+ * Polled by the cohort progress table, which would otherwise need one event stream per student.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const batch = await getReportStore().getBatch(id);
+        if (!batch) {
+            return NextResponse.json(
+                { ok: false, error: `Batch '${id}' not found.` },
+                { status: 404 }
+            );
+        }
+        return NextResponse.json({ ok: true, batch });
+    } catch (err: any) {
+        console.error("Batch Load Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to load batch" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLlmProvider, type LlmProvider } from "@/lib/llm";
+import type { AssessmentSchema } from "@/lib/assessment-schema";
+import { getQualification, loadQualificationSchema, UnknownQualificationError, type Qualification } from "@/lib/qualifications";
+import { planBatch, type BatchPlan, type UploadedFile } from "@/lib/batch";
+import { validateQuestionFilter } from "@/lib/generation";
+import { startGenerationJob } from "@/lib/generation-jobs";
+import { getReportStore } from "@/lib/storage";
+import { suggestSpeakerRoles, validateSpeakerRoles } from "@/lib/speaker-roles";
+import { getRedactionOptions } from "@/lib/redaction-settings";
+import type { RedactionOptions } from "@/lib/redaction";
+
+export const runtime = "nodejs";
+
+/**
+ * Creates a batch from a multipart upload and queues one generation job per student.
+ *
+ * Fields: `files` (repeated; transcripts, a ZIP of transcripts and/or a CSV manifest),
+ * `units` (JSON array of unit codes; all units when omitted), `questions` (JSON object of main question keys
+ * by unit code; every question when omitted), `qualification` (a code from the registry; the default
+ * qualification when omitted) and an optional batch `name`.
+ * Progress is polled from `/api/batches/<id>`.
+ */
+export async function POST(req: NextRequest) {
+    let provider: LlmProvider;
+    try {
+        provider = getLlmProvider();
+    } catch (error: any) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    let form: FormData;
+    try {
+        form = await req.formData();
+    } catch {
+        return NextResponse.json({ ok: false, error: "Expected a multipart form upload." }, { status: 400 });
+    }
+
+    const uploads = form.getAll("files").filter((value): value is File => typeof value !== "string");
+    if (uploads.length === 0) {
+        return NextResponse.json({ ok: false, error: "Upload at least one transcript or ZIP file in 'files'." }, { status: 400 });
+    }
+
+    const units = parseJsonField(form, "units", isStringArray);
+    if (units instanceof Error) {
+        return NextResponse.json({ ok: false, error: "'units' must be a JSON array of unit codes." }, { status: 400 });
+    }
+    const questions = parseJsonField(form, "questions", isQuestionMap);
+    if (questions instanceof Error) {
+        return NextResponse.json(
+            { ok: false, error: "'questions' must be a JSON object of question key arrays by unit code." },
+            { status: 400 }
+        );
+    }
+
+    let qualification: Qualification;
+    let assessmentSchema: AssessmentSchema;
+    let schemaText: string | undefined;
+    try {
+        qualification = await getQualification(String(form.get("qualification") || "") || null);
+        ({ schema: assessmentSchema, text: schemaText } = await loadQualificationSchema(qualification));
+    } catch (error: any) {
+        console.error("Error loading the qualification:", error.message);
+        return NextResponse.json({ ok: false, error: error.message }, { status: error instanceof UnknownQualificationError ? 400 : 500 });
+    }
+
+    const filterError = validateQuestionFilter(assessmentSchema, { units, questions });
+    if (filterError) {
+        return NextResponse.json({ ok: false, error: filterError }, { status: 400 });
+    }
+
+    let plan: BatchPlan;
+    try {
+        const files: UploadedFile[] = await Promise.all(
+            uploads.map(async file => ({ name: file.name, data: Buffer.from(await file.arrayBuffer()) }))
+        );
+        plan = planBatch(files);
+    } catch (error: any) {
+        return NextResponse.json({ ok: false, error: error.message }, { status: 400 });
+    }
+    if (plan.entries.length === 0) {
+        return NextResponse.json(
+            { ok: false, error: "No student could be matched to a transcript.", warnings: plan.warnings },
+            { status: 400 }
+        );
+    }
+
+    // Loaded before anything is saved, so a broken dictionary does not leave a half-created batch behind
+    let redactions: Array<RedactionOptions | null>;
+    try {
+        redactions = await Promise.all(plan.entries.map(entry => getRedactionOptions(undefined, [entry.studentName])));
+    } catch (error: any) {
+        console.error("Error loading redaction settings:", error.message);
+        return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    }
+
+    try {
+        const store = getReportStore();
+        const name = String(form.get("name") || "").trim() || `Batch ${new Date().toISOString().slice(0, 10)}`;
+        const batch = await store.createBatch(name);
+        const selectedUnits = units || Object.keys(assessmentSchema);
+
+        for (const [index, entry] of plan.entries.entries()) {
+            // Nobody confirms the speakers in a batch; the suggestion is saved so it can be reviewed later
+            const speakerRoles = suggestSpeakerRoles(entry.transcript, entry.studentName);
+            const rolesError = validateSpeakerRoles(speakerRoles);
+            if (rolesError) {
+                plan.warnings.push(`${entry.sourceFile}: could not tell which speaker is ${entry.studentName}; the whole transcript is assessed.`);
+            }
+
+            const report = await store.createReport({
+                studentName: entry.studentName,
+                pronouns: entry.pronouns,
+                customPronouns: entry.customPronouns,
+                qualification: qualification.code,
+                units: selectedUnits,
+                transcript: entry.transcript,
+                segments: null,
+                speakerRoles: rolesError ? null : speakerRoles,
+            }, { batchId: batch.id, sourceFile: entry.sourceFile });
+
+            // One provider for the whole batch, so every job draws on the same rate limit
+            await startGenerationJob({
+                provider,
+                schema: assessmentSchema,
+                schemaText,
+                persona: qualification,
+                transcript: entry.transcript,
+                speakerRoles: rolesError ? null : speakerRoles,
+                redaction: redactions[index],
+                units: selectedUnits,
+                questions,
+                reportId: report.id,
+            });
+        }
+
+        return NextResponse.json(
+            { ok: true, batch: await store.getBatch(batch.id), warnings: plan.warnings },
+            { status: 201 }
+        );
+    } catch (error: any) {
+        console.error("Error starting batch:", error.message);
+        return NextResponse.json({ ok: false, error: error.message || "Failed to start batch." }, { status: 500 });
+    }
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === "string");
+
+const isQuestionMap = (value: unknown): value is Record<string, string[]> =>
+    !!value && typeof value === "object" && !Array.isArray(value) && Object.values(value).every(isStringArray);
+
+/**
+ * Reads an optional form field holding JSON.
+ * @returns The parsed value, undefined when the field is absent or blank, or an Error when it is not JSON of the expected shape.
+ */
+function parseJsonField<T>(form: FormData, name: string, isValid: (value: unknown) => value is T): T | undefined | Error {
+    const field = form.get(name);
+    if (typeof field !== "string" || !field.trim()) return undefined;
+    try {
+        const value = JSON.parse(field);
+        return isValid(value) ? value : new Error(`'${name}' has the wrong shape.`);
+    } catch (error: any) {
+        return error;
+    }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listUnits } from "@/lib/assessment-schema";
+import { getQualification, loadQualificationSchema, UnknownQualificationError } from "@/lib/qualifications";
+import { checkCompleteness, getMissingAnswerPolicy } from "@/lib/missing-answers";
+import { getReportStore } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+/**
+ * Lists the questions a document would be filled without, by unit and question, so they can be reviewed
+ * before download. Takes the same `answers`, `units` and `qualification` as fill-doc, or a saved `reportId`.
+ * Returns the server's missing-answer policy alongside the report.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const { answers, units, qualification: qualificationCode, reportId } = (await req.json()) as {
+            answers?: Record<string, any>;
+            /** Units selected for this assessment; defaults to the units present in `answers`. */
+            units?: string[];
+            qualification?: string;
+            /** Saved report whose answers to check when `answers` is omitted. */
+            reportId?: string;
+        };
+
+        const savedReport = reportId ? await getReportStore().getReport(reportId) : null;
+        if (reportId && !savedReport) {
+            return NextResponse.json({ ok: false, error: `Report '${reportId}' not found.` }, { status: 404 });
+        }
+        const checked = answers ?? savedReport?.answers;
+        if (!checked || typeof checked !== "object") {
+            return NextResponse.json({ ok: false, error: "answers or reportId is required." }, { status: 400 });
+        }
+        const assessedUnits = Array.isArray(units) ? units : savedReport && !answers ? savedReport.units : Object.keys(checked);
+
+        const qualification = await getQualification(qualificationCode || savedReport?.qualification);
+        const { schema } = await loadQualificationSchema(qualification);
+        return NextResponse.json({
+            ok: true,
+            qualification: qualification.code,
+            policy: getMissingAnswerPolicy(),
+            completeness: checkCompleteness(checked, listUnits(schema), assessedUnits),
+        });
+    } catch (err: any) {
+        console.error("Completeness Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to check the answers" },
+            { status: err instanceof UnknownQualificationError ? 400 : 500 }
+        );
+    }
+}
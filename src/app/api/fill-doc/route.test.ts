@@ -0,0 +1,115 @@
+import { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { GENERATION_FALLBACKS } from '@/lib/missing-answers';
+import { getReportStore } from '@/lib/storage';
+import type { QuestionResult } from '@/lib/generation';
+import { POST } from './route';
+
+process.env.DATABASE_PATH = ':memory:';
+
+// Criterion 2 came back without an example action and the conclusion was left out
+const partlyAnswered = {
+    evaluation: {
+        1: { question: 'Greets the client', performance_observed: 'Greeted Sam by name.', example_action: 'Said "Morning Sam."' },
+        2: { question: 'Asks about preferences', performance_observed: 'Asked about breakfast.', example_action: GENERATION_FALLBACKS.exampleAction },
+    },
+    conclusion: '',
+};
+
+async function fill(missingAnswers: string) {
+    const response = await POST(new NextRequest('http://localhost/api/fill-doc', {
+        method: 'POST',
+        body: JSON.stringify({
+            studentName: 'Jo Brown',
+            answers: { CHCCCS038: { 1: partlyAnswered } },
+            units: ['CHCCCS038'],
+            format: 'md',
+            missingAnswers,
+        }),
+    }));
+    const body = await response.json();
+    return { status: response.status, body, text: body.base64Document ? Buffer.from(body.base64Document, 'base64').toString('utf-8') : '' };
+}
+
+describe('POST /api/fill-doc', () => {
+    it('keeps the answered criteria of a partly answered question and marks only its empty fields', async () => {
+        const { status, text } = await fill('marker');
+        expect(status).toBe(200);
+        expect(text).toContain('Greeted Sam by name.');
+        expect(text).toContain('*"Morning Sam."*');
+        expect(text).toContain('Asked about breakfast.');
+        expect(text).toContain('**Example Action:** NOT ASSESSED');
+        expect(text).not.toContain(GENERATION_FALLBACKS.exampleAction);
+        expect(text.match(/no answer was generated/g)).toHaveLength(2);
+    });
+
+    it('leaves only the empty fields blank under the blank policy', async () => {
+        const { text } = await fill('blank');
+        expect(text).toContain('Asked about breakfast.');
+        expect(text).not.toContain('**Example Action:** NOT ASSESSED');
+        expect(text).not.toContain('no answer was generated');
+    });
+
+    it('refuses a partly answered question under the block policy', async () => {
+        const { status, body } = await fill('block');
+        expect(status).toBe(422);
+        expect(body.missing).toEqual(['CHCCCS038_1', 'CHCCCS038_2', 'CHCCCS038_3']);
+    });
+});
+
+/** Saves a batch with one answered report per qualification code; null stands for the registry default. */
+async function createBatch(qualifications: Array<string | null>) {
+    const store = getReportStore();
+    const batch = await store.createBatch('Morning group');
+    for (const [index, qualification] of qualifications.entries()) {
+        const report = await store.createReport({
+            studentName: `Student ${index + 1}`, pronouns: 'they', qualification, units: ['CHCCCS038'], transcript: '',
+        }, { batchId: batch.id });
+        await store.saveAnswer(report.id, {
+            unitCode: 'CHCCCS038', mainQuestionKey: '1', result: partlyAnswered as unknown as QuestionResult, source: 'generated',
+        });
+    }
+    const template = await store.addTemplateVersion({
+        qualification: 'CHC33021', name: 'Blank form', filename: 'blank_form.docx', path: 'templates/blank_form.docx', changelog: '',
+        lint: { ok: true, tagCount: 0, missing: [], extra: [], malformed: [] },
+    });
+    return { batchId: batch.id, templateId: template.id };
+}
+
+async function fillBatch(body: { batchId: string; templateId?: string }) {
+    const response = await POST(new NextRequest('http://localhost/api/fill-doc', {
+        method: 'POST',
+        body: JSON.stringify({ ...body, format: 'md', missingAnswers: 'marker' }),
+    }));
+    return { status: response.status, body: await response.json() };
+}
+
+describe('POST /api/fill-doc with a batch', () => {
+    it('fills every report of the picked template\'s qualification', async () => {
+        const { batchId, templateId } = await createBatch(['CHC33021', null]);
+        const { status, body } = await fillBatch({ batchId, templateId });
+        expect(status).toBe(200);
+        expect(body.documents).toHaveLength(2);
+        expect(body.skipped).toEqual([]);
+    });
+
+    it('refuses a picked template when the batch has reports for another qualification', async () => {
+        const { batchId, templateId } = await createBatch(['CHC33021', 'CHC43015']);
+        const { status, body } = await fillBatch({ batchId, templateId });
+        expect(status).toBe(400);
+        expect(body.error).toMatch(/is for CHC33021, but this batch also has reports for other qualifications: Student 2 \(CHC43015\)/);
+
+        // Without a picked template each report uses its own qualification's template
+        const { status: fallbackStatus, body: fallback } = await fillBatch({ batchId });
+        expect(fallbackStatus).toBe(200);
+        expect(fallback.documents).toHaveLength(1);
+        expect(fallback.skipped).toEqual([expect.objectContaining({ studentName: 'Student 2', reason: expect.stringContaining("Unknown qualification 'CHC43015'") })]);
+    });
+
+    it('reports a picked template that does not exist', async () => {
+        const { batchId } = await createBatch(['CHC33021']);
+        const { status, body } = await fillBatch({ batchId, templateId: 'missing' });
+        expect(status).toBe(404);
+        expect(body.error).toBe("Template 'missing' not found.");
+    });
+});
@@ -4,14 +4,36 @@ import { existsSync, mkdirSync } from "node:fs";
 import path from "node:path";
 import Docxtemplater from "docxtemplater";
 import PizZip from "pizzip";
+import { getQuestionKeys, listUnits, type AssessmentSchema } from "@/lib/assessment-schema";
+import {
+    formatDocumentFilename, getQualification, loadQualificationSchema, UnknownQualificationError, type Qualification,
+} from "@/lib/qualifications";
+import {
+    readTemplate, TemplateLibraryError, TemplateNotFoundError, type TemplateSource,
+} from "@/lib/template-library";
+import {
+    findUnresolvedPlaceholders, personaliseText, resolvePronouns, type PronounOption, type PronounSet,
+} from "@/lib/pronouns";
+import { normaliseOutcome, OUTCOME_LABELS } from "@/lib/outcomes";
+import { getReportStore } from "@/lib/storage";
+import { findRedactionTokens, reidentify, toRedactions, type Redaction } from "@/lib/redaction";
+import {
+    buildDocumentOutline, DOCUMENT_FORMATS, isDocumentFormat, renderHtml, renderMarkdown, splitQuotes, withFormatExtension,
+    type DocumentFormat, type TemplateCriterion, type TemplateQuestion,
+} from "@/lib/document-formats";
+import { convertDocxToPdf, PdfConversionError } from "@/lib/pdf-conversion";
+import {
+    checkCompleteness, GENERATION_FALLBACKS, getMissingAnswerPolicy, isAnswered, isFilled, isMissingAnswerPolicy, MISSING_ANSWER_MARKER,
+    MISSING_ANSWER_POLICIES, MISSING_ANSWER_TEXT, type MissingAnswerPolicy,
+} from "@/lib/missing-answers";
 
 export const runtime = "nodejs"; // Required to use 'fs' in Next.js App Router
 
 // Define a type for the nested answer structure
 type Answers = Record<string, any>;
 
-// Path to your master schema file, which is the source of truth
-const SCHEMA_PATH = path.join(process.cwd(), "schema.json");
+// Written into every placeholder of a unit that was not part of this assessment
+const UNASSESSED_UNIT_TEXT = "NOT ASSESSED – this unit was not included in this assessment.";
 
 /**
  * Sanitizes a string to be used as a valid filename.
@@ -23,49 +45,84 @@ function sanitizeFilename(name: string): string {
 }
 
 /**
- * Transforms the nested AI response into a flat object suitable for the DOCX template.
+ * Formats an outcome code as a marker such as "Satisfactory (S)".
+ * @param outcome The raw outcome value.
+ * @returns The marker text.
+ */
+function formatOutcome(outcome: unknown): string {
+    const code = normaliseOutcome(outcome);
+    return `${OUTCOME_LABELS[code]} (${code === "INSUFFICIENT_EVIDENCE" ? "IE" : code})`;
+}
+
+/**
+ * Transforms the nested AI response into the placeholder values of the DOCX template.
  * It uses a master schema to ensure all expected placeholders are created,
  * preventing crashes from incomplete AI responses.
  *
+ * Each question placeholder is a section the template loops over: its criteria with separate number,
+ * question, performance, action and outcome fields, then the conclusion and overall outcome, so the
+ * template can set the labels in bold and the quoted words in italics.
+ *
  * @param aiAnswers The potentially incomplete JSON object from the AI.
  * @param studentName The name of the student to inject.
+ * @param pronouns The student's pronouns, substituted for the pronoun tokens.
  * @param masterSchema The complete schema object read from schema.json.
- * @returns A flat object with keys like 'CHCCCS038_1' guaranteed for every question in the master schema.
+ * @param assessedUnits The units included in this assessment; every other unit is marked as not assessed.
+ * @param policy What to write in place of a question of an assessed unit that has no answer, and of each empty
+ * field of a question that does; the rest of a partly answered question is kept.
+ * @returns An object with keys like 'CHCCCS038_1' guaranteed for every question in the master schema.
  */
-function transformAndFormatAnswers(aiAnswers: Answers, studentName: string, masterSchema: Answers): Record<string, any> {
+function transformAndFormatAnswers(aiAnswers: Answers, studentName: string, pronouns: PronounSet, masterSchema: AssessmentSchema, assessedUnits: string[], policy: MissingAnswerPolicy): Record<string, any> {
     const transformedData: Record<string, any> = {};
-    const studentNameRegex = /\(student name\)/gi;
-    const maxQuestionNumber = 20; // Assuming no more than 20 questions per unit
+    const personalise = (text: string) => personaliseText(text, studentName, pronouns);
+    const missingNote = policy === "marker" ? MISSING_ANSWER_TEXT : "";
+    const missingField = policy === "marker" ? MISSING_ANSWER_MARKER : "";
+    const fill = (value: unknown, fallback: string) => (isFilled(value, fallback) ? personalise(value as string) : missingField);
+    const noteOnly = (note: string): TemplateQuestion => ({
+        note, answered: false, criteria: [], conclusion: "", overallOutcome: "", justification: "",
+    });
 
     // Use the master schema as the source of truth for all unit codes
     const allUnitCodes = Object.keys(masterSchema);
 
     for (const unitCode of allUnitCodes) {
-        for (let i = 1; i <= maxQuestionNumber; i++) {
-            const questionKey = String(i);
+        if (!assessedUnits.includes(unitCode)) {
+            for (const questionKey of getQuestionKeys(masterSchema[unitCode])) {
+                transformedData[`${unitCode}_${questionKey}`] = noteOnly(UNASSESSED_UNIT_TEXT);
+            }
+            continue;
+        }
+
+        // The schema's questions are the template's placeholders; lintTemplate checks the two agree
+        for (const questionKey of getQuestionKeys(masterSchema[unitCode])) {
             const placeholderKey = `${unitCode}_${questionKey}`;
             
             const aiQuestionData = aiAnswers?.[unitCode]?.[questionKey];
 
-            if (aiQuestionData && aiQuestionData.evaluation) {
-                let combinedContent = "";
+            if (isAnswered(aiQuestionData)) {
                 const evaluation = aiQuestionData.evaluation;
 
-                for (const benchmarkKey in evaluation) {
+                const criteria: TemplateCriterion[] = Object.keys(evaluation).map(benchmarkKey => {
                     const benchmark = evaluation[benchmarkKey];
-                    const question = benchmark.question || '';
-                    const performance = (benchmark.performance_observed || 'N/A').replace(studentNameRegex, studentName);
-                    const action = (benchmark.example_action || 'N/A').replace(studentNameRegex, studentName);
-
-                    combinedContent += `${benchmarkKey}. ${question}\n\n`; 
-                    combinedContent += `Performance to Observe: ${performance}\n`;
-                    combinedContent += `Example Action: ${action}\n\n`;
-                }
-                
-                const conclusion = (aiQuestionData.conclusion || 'N/A').replace(studentNameRegex, studentName);
-                combinedContent += `Conclusion\n${conclusion}`;
-
-                transformedData[placeholderKey] = combinedContent;
+                    return {
+                        number: benchmarkKey,
+                        question: benchmark.question || '',
+                        performance: fill(benchmark.performance_observed, GENERATION_FALLBACKS.performanceObserved),
+                        action: splitQuotes(fill(benchmark.example_action, GENERATION_FALLBACKS.exampleAction)),
+                        outcome: benchmark.outcome ? formatOutcome(benchmark.outcome) : '',
+                    };
+                });
+
+                transformedData[placeholderKey] = {
+                    note: "",
+                    answered: true,
+                    criteria,
+                    conclusion: fill(aiQuestionData.conclusion, GENERATION_FALLBACKS.conclusion),
+                    overallOutcome: aiQuestionData.outcome ? formatOutcome(aiQuestionData.outcome) : '',
+                    justification: aiQuestionData.outcome ? personalise(aiQuestionData.outcome_justification || '') : '',
+                } satisfies TemplateQuestion;
+            } else {
+                transformedData[placeholderKey] = noteOnly(missingNote);
             }
         }
     }
@@ -75,77 +132,394 @@ function transformAndFormatAnswers(aiAnswers: Answers, studentName: string, mast
     return transformedData;
 }
 
+/**
+ * Lists every piece of text in a placeholder value with where it sits, e.g. `CHCCCS038_1.criteria.0.performance`.
+ */
+function collectText(value: unknown, at: string): Array<[string, string]> {
+    if (typeof value === "string") return [[at, value]];
+    if (Array.isArray(value)) return value.flatMap((item, index) => collectText(item, `${at}.${index}`));
+    if (value && typeof value === "object") {
+        return Object.entries(value).flatMap(([key, item]) => collectText(item, `${at}.${key}`));
+    }
+    return [];
+}
+
+/**
+ * Thrown when generated answers still contain name, pronoun or redaction tokens after substitution.
+ */
+class UnresolvedPlaceholdersError extends Error {
+    constructor(public readonly unresolved: string[]) {
+        super(`Unresolved placeholders in generated answers: ${unresolved.join("; ")}`);
+    }
+}
+
+/**
+ * Thrown under the `block` policy when questions have no answer or template tags have no value.
+ */
+class MissingAnswersError extends Error {
+    constructor(public readonly missing: string[]) {
+        super(`No answer to fill ${missing.join(", ")}. Generate the missing answers, or pick another missing-answer policy to download anyway.`);
+    }
+}
+
+interface DocumentRequest {
+    studentName: string;
+    answers: Answers;
+    pronouns?: PronounOption;
+    customPronouns?: Partial<PronounSet>;
+    units?: string[];
+    /** Tokens the transcript was redacted with; the original details are put back into the answers. */
+    redactions?: Redaction[];
+}
+
+/**
+ * A qualification's template and schema, read once per request.
+ */
+interface QualificationDocument {
+    qualification: Qualification;
+    template: Buffer;
+    /** Which template version was read. */
+    source: TemplateSource;
+    masterSchema: AssessmentSchema;
+}
+
+/**
+ * Reads the DOCX template and schema of a qualification.
+ * @param templateId A template library version; the qualification's default template when omitted.
+ * @returns The template and schema, or null if the template configured in qualifications.json does not exist.
+ * @throws TemplateLibraryError if the picked version does not exist or is for another qualification.
+ */
+async function loadQualificationDocument(qualification: Qualification, templateId?: string): Promise<QualificationDocument | null> {
+    const read = await readTemplate(qualification, templateId);
+    if (!read) return null;
+    const { schema: masterSchema } = await loadQualificationSchema(qualification);
+    return { qualification, template: read.template, source: read.source, masterSchema };
+}
+
+/**
+ * Works out the value of every template placeholder for one student.
+ * @param masterSchema The qualification's schema.
+ * @param request The student's details and answers.
+ * @param policy What to fill questions without an answer with.
+ * @returns Placeholder values keyed like `CHCCCS038_1`.
+ * @throws MissingAnswersError under the `block` policy if a question of an assessed unit has no answer or an empty field.
+ * @throws UnresolvedPlaceholdersError if an answer still contains name, pronoun or redaction tokens.
+ */
+function fillPlaceholders(masterSchema: AssessmentSchema, { studentName, answers, pronouns, customPronouns, units, redactions }: DocumentRequest, policy: MissingAnswerPolicy) {
+    const assessedUnits = Array.isArray(units) ? units : Object.keys(answers);
+    if (policy === "block") {
+        const { missing } = checkCompleteness(answers, listUnits(masterSchema), assessedUnits);
+        if (missing.length > 0) throw new MissingAnswersError(missing);
+    }
+
+    // Answers generated from a redacted transcript name people and details by token
+    const reidentified = reidentify(answers, redactions);
+    const dataForDocx = transformAndFormatAnswers(
+        reidentified, studentName, resolvePronouns(pronouns, customPronouns), masterSchema, assessedUnits, policy
+    );
+
+    // Refuse to produce a document that still contains name, pronoun or redaction tokens
+    const unresolved = Object.entries(dataForDocx)
+        .flatMap(([key, value]) => collectText(value, key))
+        .flatMap(([at, text]) =>
+            [...findUnresolvedPlaceholders(text), ...findRedactionTokens(text)].map(placeholder => `${at}: ${placeholder}`)
+        );
+    if (unresolved.length > 0) {
+        throw new UnresolvedPlaceholdersError(unresolved);
+    }
+    return dataForDocx;
+}
+
+/**
+ * Fills a qualification's DOCX template for one student.
+ * @param document The qualification with its template and schema.
+ * @param dataForDocx The placeholder values.
+ * @param policy What to fill tags without a value with, e.g. tags a template has that the schema does not.
+ * @returns The filled DOCX.
+ * @throws MissingAnswersError under the `block` policy if a tag has no value.
+ */
+function renderDocx({ template }: QualificationDocument, dataForDocx: Record<string, any>, policy: MissingAnswerPolicy): Buffer {
+    const zip = new PizZip(template);
+
+    // Sections without data are left out; a plain tag without data is filled according to the policy
+    const unfilled = new Set<string>();
+    const nullGetter = (part: any) => {
+        if (part.module) return "";
+        unfilled.add(part.value);
+        return policy === "marker" ? MISSING_ANSWER_MARKER : "";
+    };
+
+    const doc = new Docxtemplater(zip, {
+        paragraphLoop: true,
+        linebreaks: true,
+        delimiters: {
+            start: "{{",
+            end: "}}",
+        },
+        nullGetter,
+    });
+
+    doc.setData(dataForDocx);
+    doc.render();
+    if (policy === "block" && unfilled.size > 0) {
+        throw new MissingAnswersError([...unfilled]);
+    }
+
+    return doc.getZip().generate({
+        type: "nodebuffer",
+        compression: "DEFLATE",
+    });
+}
+
+/**
+ * Produces one student's document in the requested format. PDF is the filled DOCX converted by LibreOffice;
+ * HTML and Markdown lay out the same placeholder values by unit and question.
+ * @param document The qualification with its template and schema.
+ * @param request The student's details and answers.
+ * @param format The format to produce.
+ * @param policy What to fill questions without an answer with.
+ * @returns The document's filename and contents.
+ * @throws MissingAnswersError under the `block` policy if a question has no answer.
+ * @throws UnresolvedPlaceholdersError if an answer still contains name, pronoun or redaction tokens.
+ * @throws PdfConversionError if a PDF is requested and cannot be produced.
+ */
+async function renderDocument(document: QualificationDocument, request: DocumentRequest, format: DocumentFormat, policy: MissingAnswerPolicy) {
+    const { qualification, masterSchema } = document;
+    const dataForDocx = fillPlaceholders(masterSchema, request, policy);
+    const filename = withFormatExtension(formatDocumentFilename(qualification, request.studentName), format);
+
+    let rendered: Buffer;
+    if (format === "docx" || format === "pdf") {
+        const docx = renderDocx(document, dataForDocx, policy);
+        rendered = format === "pdf" ? await convertDocxToPdf(docx) : docx;
+    } else {
+        const outline = buildDocumentOutline(
+            `${qualification.code} ${qualification.title}`, request.studentName, dataForDocx, listUnits(masterSchema)
+        );
+        rendered = Buffer.from(format === "html" ? renderHtml(outline) : renderMarkdown(outline), "utf-8");
+    }
+    return { filename, rendered };
+}
+
+/**
+ * Records a produced document against its saved report. Best effort: the document has already been written.
+ */
+async function recordDocument(reportId: string, filename: string, savedPath: string) {
+    try {
+        const store = getReportStore();
+        await store.addDocument(reportId, { filename, path: savedPath });
+        await store.setStatus(reportId, "downloaded");
+    } catch (error: any) {
+        console.error(`Could not record document for report ${reportId}:`, error.message);
+    }
+}
 
+/**
+ * Fills a document for every report in a batch that has answers and packs them into one ZIP.
+ * Reports without answers, or whose answers cannot be filled, are listed in `skipped`.
+ * @throws TemplateLibraryError if `templateId` is for another qualification than one of the reports to fill.
+ */
+async function fillBatch(batchId: string, format: DocumentFormat, policy: MissingAnswerPolicy, templateId: string | undefined, outDir: string) {
+    const store = getReportStore();
+    const batch = await store.getBatch(batchId);
+    if (!batch) {
+        return NextResponse.json({ ok: false, error: `Batch '${batchId}' not found.` }, { status: 404 });
+    }
+
+    // A picked template belongs to one qualification, so every report to fill must be for that qualification
+    if (templateId) {
+        const template = await store.getTemplate(templateId);
+        if (!template) throw new TemplateNotFoundError(`Template '${templateId}' not found.`);
+        const { code: defaultCode } = await getQualification();
+        const others = batch.reports.filter(report => report.answeredQuestions > 0 && (report.qualification || defaultCode) !== template.qualification);
+        if (others.length > 0) {
+            const names = others.map(report => `${report.studentName} (${report.qualification || defaultCode})`).join(", ");
+            throw new TemplateLibraryError(
+                `Template '${template.name}' v${template.version} is for ${template.qualification}, but this batch also has reports for other qualifications: ${names}. Leave the template out to fill each report from its qualification's default template.`
+            );
+        }
+    }
+
+    const archive = new PizZip();
+    // Reports in one batch usually share a qualification, so each template is read once
+    const loaded = new Map<string, QualificationDocument | null>();
+    const documents: Array<{ reportId: string; filename: string }> = [];
+    const skipped: Array<{ reportId: string; studentName: string; reason: string }> = [];
+    for (const summary of batch.reports) {
+        const report = await store.getReport(summary.id);
+        if (!report || summary.answeredQuestions === 0) {
+            skipped.push({ reportId: summary.id, studentName: summary.studentName, reason: "No answers have been generated." });
+            continue;
+        }
+        try {
+            const qualification = await getQualification(report.qualification);
+            if (!loaded.has(qualification.code)) {
+                loaded.set(qualification.code, await loadQualificationDocument(qualification, templateId));
+            }
+            const document = loaded.get(qualification.code);
+            if (!document) {
+                skipped.push({ reportId: summary.id, studentName: summary.studentName, reason: `${qualification.template} not found.` });
+                continue;
+            }
+            const { filename, rendered } = await renderDocument(document, report, format, policy);
+            // Two students with the same name must not overwrite each other inside the archive
+            const entryName = archive.file(filename) ? filename.replace(/(\.\w+)$/, `_${documents.length + 1}$1`) : filename;
+            archive.file(entryName, rendered);
+            await fs.writeFile(path.join(outDir, entryName), rendered);
+            await recordDocument(report.id, entryName, `output/${entryName}`);
+            documents.push({ reportId: report.id, filename: entryName });
+        } catch (error: any) {
+            skipped.push({ reportId: summary.id, studentName: summary.studentName, reason: error.message });
+        }
+    }
+
+    if (documents.length === 0) {
+        return NextResponse.json(
+            { ok: false, error: "No report in this batch could be filled.", skipped },
+            { status: 422 }
+        );
+    }
+
+    const zipped: Buffer = archive.generate({ type: "nodebuffer", compression: "DEFLATE" });
+    const codes = [...loaded.entries()].filter(([, document]) => document).map(([code]) => code);
+    const filename = codes.length === 1
+        ? `${sanitizeFilename(batch.name)}_${codes[0]}.zip`
+        : `${sanitizeFilename(batch.name)}.zip`;
+    await fs.writeFile(path.join(outDir, filename), zipped);
+    return NextResponse.json({
+        ok: true,
+        filename,
+        savedPath: `output/${filename}`,
+        base64Zip: zipped.toString("base64"),
+        documents,
+        skipped,
+    });
+}
+
+/**
+ * Fills the DOCX template for one student, or with `batchId`, for every student in a batch as a ZIP archive.
+ * `format` picks DOCX (the default), PDF, HTML or Markdown; `missingAnswers` picks what unanswered
+ * questions are filled with, the server's MISSING_ANSWER_POLICY when omitted.
+ */
 export async function POST(req: NextRequest) {
     try {
-        const { studentName, answers } = (await req.json()) as {
+        const {
+            studentName, answers, units, pronouns, customPronouns, redactions, qualification: qualificationCode, templateId, format = "docx", missingAnswers = getMissingAnswerPolicy(), reportId, batchId,
+        } = (await req.json()) as {
             studentName?: string;
             answers?: Answers;
+            pronouns?: PronounOption;
+            customPronouns?: Partial<PronounSet>;
+            /** Units selected for this assessment; defaults to the units present in `answers`. */
+            units?: string[];
+            /** Tokens the transcript was redacted with; read from the saved report when omitted. */
+            redactions?: Redaction[];
+            /** Qualification whose template to fill; read from the saved report, or the default, when omitted. */
+            qualification?: string;
+            /** Template library version to fill; the qualification's default template when omitted. */
+            templateId?: string;
+            /** Format of the produced document; DOCX when omitted. */
+            format?: DocumentFormat;
+            /** What to do with questions that have no answer: block, marker or blank. */
+            missingAnswers?: MissingAnswerPolicy;
+            /** Saved report to record the produced document against. */
+            reportId?: string;
+            /** Batch to fill every report of; the other fields are then read from the saved reports. */
+            batchId?: string;
         };
 
-        if (!studentName || !answers || typeof answers !== "object") {
+        if (!batchId && (!studentName || !answers || typeof answers !== "object")) {
             return NextResponse.json(
                 { ok: false, error: "studentName and answers are required." },
                 { status: 400 }
             );
         }
 
-        const root = process.cwd();
-
-        const templatePath = path.join(root, "templates", "blank_form.docx");
-        const schemaJsonText = await fs.readFile(SCHEMA_PATH, 'utf-8');
-        const masterSchema = JSON.parse(schemaJsonText);
-
-        if (!existsSync(templatePath)) {
+        if (!isDocumentFormat(format)) {
             return NextResponse.json(
-                { ok: false, error: "templates/blank_form.docx not found." },
-                { status: 404 }
+                { ok: false, error: `Unknown format '${format}'. Expected one of: ${Object.keys(DOCUMENT_FORMATS).join(", ")}.` },
+                { status: 400 }
             );
         }
 
-        const dataForDocx = transformAndFormatAnswers(answers, studentName, masterSchema);
-        
-        const templateBuf = await fs.readFile(templatePath);
-        
-        const zip = new PizZip(templateBuf);
+        if (!isMissingAnswerPolicy(missingAnswers)) {
+            return NextResponse.json(
+                { ok: false, error: `Unknown missing-answer policy '${missingAnswers}'. Expected one of: ${Object.keys(MISSING_ANSWER_POLICIES).join(", ")}.` },
+                { status: 400 }
+            );
+        }
 
-        const nullGetter = (part: any) => {
-            return `{{${part.value}}}`;
-        };
+        const root = process.cwd();
+        const outDir = path.join(root, "output");
+        if (!existsSync(outDir)) mkdirSync(outDir, { recursive: true });
 
-        const doc = new Docxtemplater(zip, {
-            paragraphLoop: true,
-            linebreaks: true,
-            delimiters: {
-                start: "{{",
-                end: "}}",
-            },
-            nullGetter,
-        });
+        if (batchId) {
+            return await fillBatch(batchId, format, missingAnswers, templateId, outDir);
+        }
 
-        doc.setData(dataForDocx);
-        doc.render();
+        const savedReport = reportId ? await getReportStore().getReport(reportId) : null;
+        const knownRedactions = redactions ? toRedactions(redactions) : savedReport?.redactions ?? [];
 
-        const rendered = doc.getZip().generate({
-            type: "nodebuffer",
-            compression: "DEFLATE",
-        });
+        const qualification = await getQualification(qualificationCode || savedReport?.qualification);
+        const document = await loadQualificationDocument(qualification, templateId);
+        if (!document) {
+            return NextResponse.json(
+                { ok: false, error: `${qualification.template} not found.` },
+                { status: 404 }
+            );
+        }
 
-        const outDir = path.join(root, "output");
-        if (!existsSync(outDir)) mkdirSync(outDir, { recursive: true });
+        let filename: string;
+        let rendered: Buffer;
+        try {
+            ({ filename, rendered } = await renderDocument(document, {
+                studentName: studentName!, answers: answers!, units, pronouns, customPronouns, redactions: knownRedactions,
+            }, format, missingAnswers));
+        } catch (error) {
+            if (error instanceof MissingAnswersError) {
+                return NextResponse.json(
+                    { ok: false, error: error.message, missing: error.missing },
+                    { status: 422 }
+                );
+            }
+            if (error instanceof UnresolvedPlaceholdersError) {
+                return NextResponse.json(
+                    { ok: false, error: error.message, unresolved: error.unresolved },
+                    { status: 422 }
+                );
+            }
+            if (error instanceof PdfConversionError) {
+                return NextResponse.json({ ok: false, error: error.message }, { status: error.unavailable ? 503 : 500 });
+            }
+            throw error;
+        }
 
-        const filename = `${sanitizeFilename(studentName)}_CHC33021.docx`;
         const outPath = path.join(outDir, filename);
         await fs.writeFile(outPath, rendered);
 
-        const base64Docx = Buffer.from(rendered).toString("base64");
+        if (reportId) {
+            await recordDocument(reportId, filename, `output/${filename}`);
+        }
+
+        const base64Document = Buffer.from(rendered).toString("base64");
         return NextResponse.json({
             ok: true,
             filename,
+            format,
+            mimeType: DOCUMENT_FORMATS[format].mimeType,
+            template: document.source,
             savedPath: `output/${filename}`,
-            base64Docx,
+            base64Document,
+            // Kept for callers written before other formats existed
+            ...(format === "docx" ? { base64Docx: base64Document } : {}),
         });
     } catch (err: any) {
+        if (err instanceof UnknownQualificationError) {
+            return NextResponse.json({ ok: false, error: err.message }, { status: 400 });
+        }
+        if (err instanceof TemplateLibraryError) {
+            return NextResponse.json({ ok: false, error: err.message }, { status: err instanceof TemplateNotFoundError ? 404 : 400 });
+        }
         console.error("Doc Gen Error:", err);
         // Provide more detailed error logging for docxtemplater
         if (err.properties && err.properties.errors) {
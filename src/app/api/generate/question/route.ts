@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getLlmProvider } from "@/lib/llm";
+import { getQualification, loadQualificationSchema, UnknownQualificationError } from "@/lib/qualifications";
+import { generateQuestion, type QuestionResult } from "@/lib/generation";
+import { getRetryPolicy } from "@/lib/retry";
+import type { TranscriptSegments } from "@/lib/segmentation";
+import { verifyQuestionEvidence } from "@/lib/quote-verification";
+import { getReportStore } from "@/lib/storage";
+import { applySpeakerRoles, applySpeakerRolesToSegments, toSpeakerRoles } from "@/lib/speaker-roles";
+import { listSpeakerNames, redactTranscript, reidentify, toRedactions, type Redaction } from "@/lib/redaction";
+import { getRedactionOptions, type RedactionRequest } from "@/lib/redaction-settings";
+
+export const runtime = "nodejs";
+
+/**
+ * Regenerates the benchmark answer for a single unit / main question, optionally
+ * steered by assessor feedback, without rerunning the whole report.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const {
+            studentName, qualification: qualificationCode, transcript: rawTranscript, segments: rawSegments, speakerRoles, redaction: redactionRequest, redactions: knownRedactions,
+            unitCode, mainQuestionKey, feedback, previousResult, reportId,
+        } = (await req.json()) as {
+            studentName?: string;
+            /** Qualification code from the registry; the default qualification when omitted. */
+            qualification?: string;
+            transcript?: string;
+            segments?: TranscriptSegments;
+            /** Role of each speaker label; the transcript is relabelled with the canonical roles before prompting. */
+            speakerRoles?: Record<string, string>;
+            /** Whether to redact personal details before prompting and extra terms to redact. */
+            redaction?: RedactionRequest;
+            /** Tokens already issued for this transcript, so the same details keep the same tokens; read from the saved report when omitted. */
+            redactions?: Redaction[];
+            unitCode?: string;
+            mainQuestionKey?: string;
+            feedback?: string;
+            previousResult?: QuestionResult;
+            /** Saved report to store the new answer in. */
+            reportId?: string;
+        };
+
+        if (!rawTranscript || !unitCode || !mainQuestionKey) {
+            return NextResponse.json(
+                { ok: false, error: "transcript, unitCode and mainQuestionKey are required." },
+                { status: 400 }
+            );
+        }
+
+        const qualification = await getQualification(qualificationCode);
+        const { schema } = await loadQualificationSchema(qualification);
+        if (!schema[unitCode]?.[mainQuestionKey] || mainQuestionKey === "assessment_guide") {
+            return NextResponse.json(
+                { ok: false, error: `Unknown question ${unitCode} - ${mainQuestionKey}.` },
+                { status: 404 }
+            );
+        }
+
+        const roles = toSpeakerRoles(speakerRoles);
+        const transcript = applySpeakerRoles(rawTranscript, roles);
+        const segments = applySpeakerRolesToSegments(rawSegments, roles);
+
+        let promptTranscript = transcript;
+        let promptSegments = segments;
+        let redactions: Redaction[] = [];
+        const redaction = await getRedactionOptions(redactionRequest, studentName ? [studentName] : []);
+        if (redaction) {
+            const existing = knownRedactions
+                ? toRedactions(knownRedactions)
+                : (reportId ? (await getReportStore().getReport(reportId))?.redactions : null) ?? [];
+            // Relabelling removed the speakers' names, so they are taken from the transcript as written
+            const names = [...(redaction.names || []), ...listSpeakerNames(rawTranscript)];
+            ({ transcript: promptTranscript, segments: promptSegments, redactions } = redactTranscript(transcript, segments, { ...redaction, names }, existing));
+        }
+
+        const provider = getLlmProvider();
+        const { result, budget, attempts, repaired } = await generateQuestion({
+            provider,
+            schema,
+            persona: qualification,
+            unitCode,
+            mainQuestionKey,
+            transcript: promptSegments?.[unitCode]?.[mainQuestionKey]?.trim() || promptTranscript,
+            feedback,
+            previousResult,
+            retryPolicy: getRetryPolicy(),
+        });
+
+        const verification = verifyQuestionEvidence(reidentify(result, redactions), transcript);
+        if (reportId) {
+            try {
+                if (redaction) await getReportStore().saveRedactions(reportId, redactions);
+                await getReportStore().saveAnswer(reportId, { unitCode, mainQuestionKey, result, verification, source: "generated" });
+            } catch (error: any) {
+                console.error(`Could not save report ${reportId}:`, error.message);
+            }
+        }
+
+        return NextResponse.json({ ok: true, unitCode, mainQuestionKey, result, budget, attempts, repaired, verification, redactions: redaction ? redactions : undefined });
+    } catch (err: any) {
+        console.error("Regenerate Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to regenerate question", attempts: err?.attempts },
+            { status: err instanceof UnknownQualificationError ? 400 : 500 }
+        );
+    }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { cancelGenerationJob } from "@/lib/generation-jobs";
+import { getReportStore } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+/**
+ * Cancels a queued or running generation job. Questions already being generated finish and are kept;
+ * the job then emits a `cancelled` event with the answers completed so far.
+ */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const job = await getReportStore().getJob(id);
+        if (!job) {
+            return NextResponse.json(
+                { ok: false, error: `Job '${id}' not found.` },
+                { status: 404 }
+            );
+        }
+        if (!cancelGenerationJob(id)) {
+            return NextResponse.json(
+                { ok: false, error: `Job '${id}' is not running (status: ${job.status}).`, job },
+                { status: 409 }
+            );
+        }
+        return NextResponse.json({ ok: true });
+    } catch (err: any) {
+        console.error("Job Cancel Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to cancel job" },
+            { status: 500 }
+        );
+    }
+}
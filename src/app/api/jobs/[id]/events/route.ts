@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { subscribeToJob, TERMINAL_JOB_EVENTS } from "@/lib/generation-jobs";
+import { getReportStore, type JobEvent } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+const encoder = new TextEncoder();
+const HEARTBEAT_MS = 15000;
+
+/**
+ * Streams a generation job's events as SSE. Events after the `Last-Event-ID` header (or the
+ * `lastEventId` query parameter) are replayed from the store first, then live events follow
+ * until the job ends. Reconnecting therefore never loses or repeats an event.
+ */
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    const store = getReportStore();
+
+    const job = await store.getJob(id);
+    if (!job) {
+        return NextResponse.json(
+            { ok: false, error: `Job '${id}' not found.` },
+            { status: 404 }
+        );
+    }
+
+    let lastEventId = Number(req.headers.get("last-event-id") ?? req.nextUrl.searchParams.get("lastEventId")) || 0;
+    let cleanup = () => {};
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            let closed = false;
+            let finished = false;
+            let heartbeat: ReturnType<typeof setInterval> | undefined;
+            let unsubscribe: (() => void) | null = null;
+
+            const close = () => {
+                if (closed) return;
+                closed = true;
+                unsubscribe?.();
+                clearInterval(heartbeat);
+                try {
+                    controller.close();
+                } catch {
+                    // The client has already gone
+                }
+            };
+            cleanup = close;
+
+            const send = (event: JobEvent) => {
+                if (closed || event.id <= lastEventId) return;
+                lastEventId = event.id;
+                controller.enqueue(encoder.encode(`id: ${event.id}\nevent: ${event.event}\ndata: ${JSON.stringify(event.data)}\n\n`));
+                if (TERMINAL_JOB_EVENTS.includes(event.event)) {
+                    finished = true;
+                    close();
+                }
+            };
+
+            // Subscribe before replaying so nothing published in between is missed; ids drop duplicates
+            const pending: JobEvent[] = [];
+            let replaying = true;
+            unsubscribe = subscribeToJob(id, event => (replaying ? pending.push(event) : send(event)));
+
+            for (const event of await store.listJobEvents(id, lastEventId)) send(event);
+            replaying = false;
+            pending.forEach(send);
+
+            if (closed) return;
+            if (!unsubscribe) {
+                // The job is not running in this process. If it never recorded an end, tell the client it will not finish.
+                const current = finished ? null : await store.getJob(id);
+                if (current && (current.status === "queued" || current.status === "running")) {
+                    controller.enqueue(encoder.encode(`event: failed\ndata: ${JSON.stringify({ message: "The job is no longer running." })}\n\n`));
+                }
+                close();
+                return;
+            }
+
+            heartbeat = setInterval(() => {
+                if (!closed) controller.enqueue(encoder.encode(`: keep-alive\n\n`));
+            }, HEARTBEAT_MS);
+            req.signal.addEventListener("abort", close);
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+
+    return new NextResponse(stream, {
+        headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            "Connection": "keep-alive",
+        },
+    });
+}
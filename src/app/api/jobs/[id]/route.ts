@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportStore } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+/**
+ * Returns a generation job's status.
+ */
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const job = await getReportStore().getJob(id);
+        if (!job) {
+            return NextResponse.json(
+                { ok: false, error: `Job '${id}' not found.` },
+                { status: 404 }
+            );
+        }
+        return NextResponse.json({ ok: true, job });
+    } catch (err: any) {
+        console.error("Job Load Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to load job" },
+            { status: 500 }
+        );
+    }
+}
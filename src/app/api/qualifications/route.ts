@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { listQualifications } from "@/lib/qualifications";
+
+export const runtime = "nodejs";
+
+/**
+ * Lists the qualifications in qualifications.json (code, title and which is the default) for the qualification picker.
+ */
+export async function GET() {
+    try {
+        return NextResponse.json({ ok: true, qualifications: await listQualifications() });
+    } catch (err: any) {
+        console.error("Qualifications Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to list qualifications" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportStore } from "@/lib/storage";
+import type { QuestionResult } from "@/lib/generation";
+import type { QuestionVerification } from "@/lib/quote-verification";
+
+export const runtime = "nodejs";
+
+/**
+ * Saves an assessor's edit to one question's answer and records it in the edit history.
+ */
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const { unitCode, mainQuestionKey, result, verification } = (await req.json()) as {
+            unitCode?: string;
+            mainQuestionKey?: string;
+            result?: QuestionResult;
+            verification?: QuestionVerification;
+        };
+
+        if (!unitCode || !mainQuestionKey || !result?.evaluation) {
+            return NextResponse.json(
+                { ok: false, error: "unitCode, mainQuestionKey and result are required." },
+                { status: 400 }
+            );
+        }
+
+        const saved = await getReportStore().saveAnswer(id, { unitCode, mainQuestionKey, result, verification, source: "edited" });
+        if (!saved) {
+            return NextResponse.json(
+                { ok: false, error: `Report '${id}' not found.` },
+                { status: 404 }
+            );
+        }
+        return NextResponse.json({ ok: true });
+    } catch (err: any) {
+        console.error("Answer Save Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to save answer" },
+            { status: 500 }
+        );
+    }
+}
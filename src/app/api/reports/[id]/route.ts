@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportStore, toDraftInput } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) => NextResponse.json(
+    { ok: false, error: `Report '${id}' not found.` },
+    { status: 404 }
+);
+
+/**
+ * Loads a saved report with its transcript, answers and produced documents, to resume it in the form.
+ */
+export async function GET(_req: NextRequest, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const report = await getReportStore().getReport(id);
+        return report ? NextResponse.json({ ok: true, report }) : notFound(id);
+    } catch (err: any) {
+        console.error("Report Load Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to load report" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Autosaves the form values of a draft. Only the fields present in the body are changed.
+ */
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const report = await getReportStore().updateDraft(id, toDraftInput(await req.json()));
+        return report ? NextResponse.json({ ok: true, report }) : notFound(id);
+    } catch (err: any) {
+        console.error("Report Save Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to save report" },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(_req: NextRequest, { params }: RouteContext) {
+    const { id } = await params;
+    try {
+        const deleted = await getReportStore().deleteReport(id);
+        return deleted ? NextResponse.json({ ok: true }) : notFound(id);
+    } catch (err: any) {
+        console.error("Report Delete Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to delete report" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportStore, toDraftInput } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+/**
+ * Lists saved reports, most recently updated first.
+ */
+export async function GET() {
+    try {
+        const reports = await getReportStore().listReports();
+        return NextResponse.json({ ok: true, reports });
+    } catch (err: any) {
+        console.error("Report List Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to list reports" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Saves a new draft report from the form values.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const draft = toDraftInput(await req.json());
+
+        if (!draft.studentName) {
+            return NextResponse.json(
+                { ok: false, error: "studentName is required." },
+                { status: 400 }
+            );
+        }
+
+        const report = await getReportStore().createReport({
+            studentName: draft.studentName,
+            pronouns: draft.pronouns || "they",
+            customPronouns: draft.customPronouns,
+            qualification: draft.qualification ?? null,
+            units: draft.units || [],
+            transcript: draft.transcript || "",
+            segments: draft.segments ?? null,
+            speakerRoles: draft.speakerRoles ?? null,
+        });
+        return NextResponse.json({ ok: true, report }, { status: 201 });
+    } catch (err: any) {
+        console.error("Report Save Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to save report" },
+            { status: 500 }
+        );
+    }
+}
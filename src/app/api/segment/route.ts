@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getQuestionKeys } from "@/lib/assessment-schema";
+import { getQualification, loadQualificationSchema, UnknownQualificationError } from "@/lib/qualifications";
+import { segmentTranscript } from "@/lib/segmentation";
+
+export const runtime = "nodejs";
+
+/**
+ * Proposes a per-question split of a full transcript for the assessor to review before generation.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        const { transcript, units, qualification } = (await req.json()) as {
+            transcript?: string;
+            units?: string[];
+            /** Qualification code from the registry; the default qualification when omitted. */
+            qualification?: string;
+        };
+
+        if (!transcript || typeof transcript !== "string") {
+            return NextResponse.json(
+                { ok: false, error: "transcript is required." },
+                { status: 400 }
+            );
+        }
+
+        const { schema: schemaGuide } = await loadQualificationSchema(await getQualification(qualification));
+        const segments = segmentTranscript(transcript, schemaGuide, units);
+
+        // Every question the assessor can assign a section to, in schema order
+        const questions = Object.keys(schemaGuide)
+            .filter(unitCode => !units || units.includes(unitCode))
+            .flatMap(unitCode =>
+                getQuestionKeys(schemaGuide[unitCode]).map(mainQuestionKey => ({ unitCode, mainQuestionKey }))
+            );
+
+        return NextResponse.json({ ok: true, segments, questions });
+    } catch (err: any) {
+        console.error("Segmentation Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to segment transcript" },
+            { status: err instanceof UnknownQualificationError ? 400 : 500 }
+        );
+    }
+}
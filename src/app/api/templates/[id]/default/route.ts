@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getReportStore } from "@/lib/storage";
+
+export const runtime = "nodejs";
+
+/**
+ * Makes a template version the default for its qualification; documents are filled from it unless the
+ * assessor picks another version.
+ */
+export async function POST(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const store = getReportStore();
+        if (!(await store.setDefaultTemplate(id))) {
+            return NextResponse.json(
+                { ok: false, error: `Template '${id}' not found.` },
+                { status: 404 }
+            );
+        }
+        return NextResponse.json({ ok: true, template: await store.getTemplate(id) });
+    } catch (err: any) {
+        console.error("Template Default Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to set the default template" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Stops a template version being the default; its qualification's documents are filled from the template
+ * configured in qualifications.json again until another version is made the default.
+ */
+export async function DELETE(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    const { id } = await params;
+    try {
+        const store = getReportStore();
+        if (!(await store.unsetDefaultTemplate(id))) {
+            return NextResponse.json(
+                { ok: false, error: `Template '${id}' not found.` },
+                { status: 404 }
+            );
+        }
+        return NextResponse.json({ ok: true, template: await store.getTemplate(id) });
+    } catch (err: any) {
+        console.error("Template Default Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to unset the default template" },
+            { status: 500 }
+        );
+    }
+}
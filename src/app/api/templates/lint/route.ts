@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+    getQualification, loadQualificationSchema, UnknownQualificationError, type Qualification,
+} from "@/lib/qualifications";
+import { inspectTemplate, lintTemplate, TemplateInspectionError } from "@/lib/template-inspection";
+import { readTemplate, TemplateLibraryError, TemplateNotFoundError } from "@/lib/template-library";
+
+export const runtime = "nodejs";
+
+/**
+ * Checks a template's placeholders against its qualification's schema.
+ */
+async function lint(qualification: Qualification, template: Buffer, name: string) {
+    const { schema } = await loadQualificationSchema(qualification);
+    const report = lintTemplate(inspectTemplate(template), schema);
+    return NextResponse.json({ ok: true, qualification: qualification.code, template: name, report });
+}
+
+function errorResponse(err: any) {
+    if (err instanceof UnknownQualificationError) {
+        return NextResponse.json({ ok: false, error: err.message }, { status: 400 });
+    }
+    if (err instanceof TemplateInspectionError) {
+        return NextResponse.json({ ok: false, error: err.message }, { status: 422 });
+    }
+    if (err instanceof TemplateLibraryError) {
+        return NextResponse.json({ ok: false, error: err.message }, { status: err instanceof TemplateNotFoundError ? 404 : 400 });
+    }
+    console.error("Template Lint Error:", err);
+    return NextResponse.json(
+        { ok: false, error: err?.message || "Failed to check the template" },
+        { status: 500 }
+    );
+}
+
+/**
+ * Lists the missing, extra and malformed placeholders of the template a qualification's documents are filled
+ * from: its default library version, or the template configured in qualifications.json while none is marked.
+ * `?qualification=<code>` picks the qualification; the default qualification when omitted.
+ * `?templateId=<id>` checks another library version instead.
+ */
+export async function GET(req: NextRequest) {
+    try {
+        const qualification = await getQualification(req.nextUrl.searchParams.get("qualification"));
+        const read = await readTemplate(qualification, req.nextUrl.searchParams.get("templateId"));
+        if (!read) {
+            return NextResponse.json({ ok: false, error: `${qualification.template} not found.` }, { status: 404 });
+        }
+        const { template, source } = read;
+        return await lint(qualification, template, source.version === null ? source.name : `${source.name} v${source.version}`);
+    } catch (err: any) {
+        return errorResponse(err);
+    }
+}
+
+/**
+ * Lists the missing, extra and malformed placeholders of an uploaded DOCX template before it is used.
+ *
+ * Multipart fields: `file`, and `qualification` whose schema to check against (the default when omitted).
+ */
+export async function POST(req: NextRequest) {
+    try {
+        let form: FormData;
+        try {
+            form = await req.formData();
+        } catch {
+            return NextResponse.json({ ok: false, error: "Expected a multipart form upload." }, { status: 400 });
+        }
+
+        const file = form.get("file");
+        if (!file || typeof file === "string") {
+            return NextResponse.json({ ok: false, error: "Upload the template in the 'file' field." }, { status: 400 });
+        }
+
+        const qualification = await getQualification(String(form.get("qualification") || "") || null);
+        return await lint(qualification, Buffer.from(await file.arrayBuffer()), file.name);
+    } catch (err: any) {
+        return errorResponse(err);
+    }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getQualification, UnknownQualificationError } from "@/lib/qualifications";
+import { getReportStore } from "@/lib/storage";
+import { TemplateInspectionError } from "@/lib/template-inspection";
+import { addTemplate, TemplateValidationError } from "@/lib/template-library";
+
+export const runtime = "nodejs";
+
+/**
+ * Lists a qualification's template versions, newest first within each name, with the template configured
+ * in qualifications.json, which is used while no version is marked as default.
+ * `?qualification=<code>` picks the qualification; the default qualification when omitted.
+ */
+export async function GET(req: NextRequest) {
+    try {
+        const qualification = await getQualification(req.nextUrl.searchParams.get("qualification"));
+        const templates = await getReportStore().listTemplates(qualification.code);
+        return NextResponse.json({
+            ok: true,
+            qualification: qualification.code,
+            configured: { name: qualification.template, isDefault: !templates.some(template => template.isDefault) },
+            templates,
+        });
+    } catch (err: any) {
+        if (err instanceof UnknownQualificationError) {
+            return NextResponse.json({ ok: false, error: err.message }, { status: 400 });
+        }
+        console.error("Template List Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to list templates" },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * Uploads a DOCX template as a new version, after checking its placeholders against the qualification's schema.
+ *
+ * Multipart fields: `file`, `qualification` (the default when omitted), `name` (an existing name adds a version;
+ * defaults to the file name), `changelog`, and `force=true` to keep a version whose placeholders do not match.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        let form: FormData;
+        try {
+            form = await req.formData();
+        } catch {
+            return NextResponse.json({ ok: false, error: "Expected a multipart form upload." }, { status: 400 });
+        }
+
+        const file = form.get("file");
+        if (!file || typeof file === "string") {
+            return NextResponse.json({ ok: false, error: "Upload the template in the 'file' field." }, { status: 400 });
+        }
+        if (!/\.docx$/i.test(file.name)) {
+            return NextResponse.json({ ok: false, error: "Templates must be DOCX files." }, { status: 400 });
+        }
+
+        const qualification = await getQualification(String(form.get("qualification") || "") || null);
+        const template = await addTemplate({
+            qualification,
+            name: String(form.get("name") || "").trim() || file.name.replace(/\.docx$/i, ""),
+            changelog: String(form.get("changelog") || "").trim(),
+            filename: file.name,
+            data: Buffer.from(await file.arrayBuffer()),
+            force: form.get("force") === "true",
+        });
+        return NextResponse.json({ ok: true, template }, { status: 201 });
+    } catch (err: any) {
+        if (err instanceof UnknownQualificationError) {
+            return NextResponse.json({ ok: false, error: err.message }, { status: 400 });
+        }
+        if (err instanceof TemplateValidationError) {
+            return NextResponse.json({ ok: false, error: err.message, report: err.report }, { status: 422 });
+        }
+        if (err instanceof TemplateInspectionError) {
+            return NextResponse.json({ ok: false, error: err.message }, { status: 422 });
+        }
+        console.error("Template Upload Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to upload the template" },
+            { status: 500 }
+        );
+    }
+}
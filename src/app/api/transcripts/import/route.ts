@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { importTranscript, TranscriptImportError } from "@/lib/transcript-import";
+import { listSpeakers } from "@/lib/transcript-model";
+
+export const runtime = "nodejs";
+
+/**
+ * Converts an uploaded transcript file (TXT, VTT, SRT or DOCX, e.g. a Zoom or Teams export) into
+ * speaker-labelled, timestamped transcript text for the form.
+ *
+ * Multipart field: `file`.
+ */
+export async function POST(req: NextRequest) {
+    try {
+        let form: FormData;
+        try {
+            form = await req.formData();
+        } catch {
+            return NextResponse.json({ ok: false, error: "Expected a multipart form upload." }, { status: 400 });
+        }
+
+        const file = form.get("file");
+        if (!file || typeof file === "string") {
+            return NextResponse.json({ ok: false, error: "Upload the transcript in the 'file' field." }, { status: 400 });
+        }
+
+        const transcript = importTranscript(file.name, Buffer.from(await file.arrayBuffer()));
+        return NextResponse.json({
+            ok: true,
+            format: transcript.format,
+            text: transcript.text,
+            entries: transcript.entries,
+            speakers: listSpeakers(transcript.entries),
+        });
+    } catch (err: any) {
+        if (err instanceof TranscriptImportError) {
+            return NextResponse.json({ ok: false, error: err.message }, { status: 422 });
+        }
+        console.error("Transcript Import Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to import transcript" },
+            { status: 500 }
+        );
+    }
+}
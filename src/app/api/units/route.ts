@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listUnits } from "@/lib/assessment-schema";
+import { getQualification, loadQualificationSchema, UnknownQualificationError } from "@/lib/qualifications";
+
+export const runtime = "nodejs";
+
+/**
+ * Lists the units of a qualification's schema (code, title and question keys) for the unit picker.
+ * `?qualification=<code>` picks the qualification; the default qualification when omitted.
+ */
+export async function GET(req: NextRequest) {
+    try {
+        const qualification = await getQualification(req.nextUrl.searchParams.get("qualification"));
+        const { schema } = await loadQualificationSchema(qualification);
+        return NextResponse.json({ ok: true, qualification: qualification.code, units: listUnits(schema) });
+    } catch (err: any) {
+        console.error("Units Error:", err);
+        return NextResponse.json(
+            { ok: false, error: err?.message || "Failed to list units" },
+            { status: err instanceof UnknownQualificationError ? 400 : 500 }
+        );
+    }
+}
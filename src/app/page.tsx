@@ -1,4 +1,7 @@
 import { TranscriptForm } from '@/components/transcript-form';
+import { BatchUpload } from '@/components/batch-upload';
+import { TemplateLibrary } from '@/components/template-library';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { FlaskConical } from 'lucide-react';
 
 export default function Home() {
@@ -16,7 +19,22 @@ export default function Home() {
             Transform raw transcripts into structured, insightful docs with the power of AI.
           </p>
         </header>
-        <TranscriptForm />
+        <Tabs defaultValue="single">
+          <TabsList className="mb-4 grid w-full grid-cols-3">
+            <TabsTrigger value="single">Single Student</TabsTrigger>
+            <TabsTrigger value="batch">Cohort Batch</TabsTrigger>
+            <TabsTrigger value="templates">Templates</TabsTrigger>
+          </TabsList>
+          <TabsContent value="single">
+            <TranscriptForm />
+          </TabsContent>
+          <TabsContent value="batch">
+            <BatchUpload />
+          </TabsContent>
+          <TabsContent value="templates">
+            <TemplateLibrary />
+          </TabsContent>
+        </Tabs>
       </div>
     </main>
   );
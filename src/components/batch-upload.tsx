@@ -0,0 +1,358 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Ban, Download, FilePlus, Loader2, Upload } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { UnitSelector } from "@/components/unit-selector";
+import { QualificationSelect } from "@/components/qualification-select";
+import { useToast } from "@/hooks/use-toast";
+import type { UnitSummary } from "@/lib/assessment-schema";
+import type { QualificationSummary } from "@/lib/qualifications";
+import type { BatchReport, JobStatus, StoredBatch } from "@/lib/storage/types";
+
+// The batch being followed, so that reopening the page shows its progress again
+const CURRENT_BATCH_KEY = "batch-upload:batch-id";
+const POLL_INTERVAL_MS = 2000;
+
+const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Generating",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  failed: "Failed",
+};
+
+const isActive = (report: BatchReport) => report.job?.status === "queued" || report.job?.status === "running";
+
+/**
+ * Uploads a cohort's transcripts (loose files or a ZIP, with an optional CSV manifest of names and pronouns),
+ * generates a report per student and downloads all filled documents as one ZIP.
+ */
+export function BatchUpload() {
+  const { toast } = useToast();
+  const [qualifications, setQualifications] = useState<QualificationSummary[]>([]);
+  const [qualification, setQualification] = useState("");
+  const [availableUnits, setAvailableUnits] = useState<UnitSummary[]>([]);
+  const [units, setUnits] = useState<string[]>([]);
+  const [name, setName] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [batch, setBatch] = useState<StoredBatch | null>(null);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  /**
+   * Loads the units of a qualification and selects them all.
+   * @param code The qualification code; the server's default when omitted.
+   */
+  const loadUnits = useCallback((code?: string) => {
+    fetch(`/api/units${code ? `?qualification=${encodeURIComponent(code)}` : ""}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data?.ok) throw new Error(data?.error || "Failed to load units.");
+        setQualification(data.qualification);
+        setAvailableUnits(data.units);
+        setUnits(data.units.map((u: UnitSummary) => u.unitCode));
+      })
+      .catch((error) => {
+        toast({
+          variant: "destructive",
+          title: "Could Not Load Units",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      });
+  }, [toast]);
+
+  const loadBatch = useCallback(async (id: string) => {
+    const res = await fetch(`/api/batches/${id}`);
+    const data = await res.json();
+    if (!res.ok || !data?.ok) throw new Error(data?.error || "Failed to load batch.");
+    setBatch(data.batch);
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/qualifications")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data?.ok) throw new Error(data?.error || "Failed to load qualifications.");
+        setQualifications(data.qualifications);
+      })
+      .catch((error) => {
+        toast({
+          variant: "destructive",
+          title: "Could Not Load Qualifications",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      });
+    loadUnits();
+
+    const savedId = localStorage.getItem(CURRENT_BATCH_KEY);
+    if (savedId) {
+      loadBatch(savedId).catch(() => localStorage.removeItem(CURRENT_BATCH_KEY));
+    }
+  }, [toast, loadUnits, loadBatch]);
+
+  const batchId = batch?.id;
+  const running = batch?.reports.some(isActive) ?? false;
+
+  // Poll while any student's job is still queued or running
+  useEffect(() => {
+    if (!batchId || !running) return;
+    const timer = setInterval(() => {
+      loadBatch(batchId).catch((error) => console.error("Failed to refresh batch:", error));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [batchId, running, loadBatch]);
+
+  async function onStart() {
+    if (files.length === 0 || units.length === 0) return;
+    setIsStarting(true);
+    try {
+      const body = new FormData();
+      for (const file of files) body.append("files", file);
+      body.append("units", JSON.stringify(units));
+      body.append("name", name);
+      body.append("qualification", qualification);
+
+      const res = await fetch("/api/batches", { method: "POST", body });
+      const data = await res.json();
+      setWarnings(data?.warnings || []);
+      if (!res.ok || !data?.ok) throw new Error(data?.error || `Request failed with status ${res.status}`);
+
+      setBatch(data.batch);
+      localStorage.setItem(CURRENT_BATCH_KEY, data.batch.id);
+      toast({
+        title: "Batch Started",
+        description: `Generating reports for ${data.batch.reports.length} student(s).`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could Not Start Batch",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  }
+
+  async function onCancel() {
+    if (!batch) return;
+    const res = await fetch(`/api/batches/${batch.id}/cancel`, { method: "POST" });
+    const data = await res.json().catch(() => null);
+    if (!res.ok || !data?.ok) {
+      toast({ variant: "destructive", title: "Could Not Cancel", description: data?.error || "Failed to cancel the batch." });
+      return;
+    }
+    toast({ title: "Batch Cancelled", description: "Answers completed before cancelling have been kept." });
+    await loadBatch(batch.id).catch(() => undefined);
+  }
+
+  async function onDownload() {
+    if (!batch) return;
+    setIsDownloading(true);
+    try {
+      const res = await fetch("/api/fill-doc", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ batchId: batch.id }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data?.ok || !data?.base64Zip) {
+        const skipped = (data?.skipped || []).map((item: any) => `${item.studentName}: ${item.reason}`).join(" ");
+        throw new Error([data?.error || "Failed to create the documents.", skipped].filter(Boolean).join(" "));
+      }
+
+      const binary = atob(data.base64Zip);
+      const bytes = new Uint8Array(binary.length);
+      for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+      const url = URL.createObjectURL(new Blob([bytes], { type: "application/zip" }));
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = data.filename || "reports.zip";
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Documents Downloaded",
+        description: data.skipped.length > 0
+          ? `${data.documents.length} document(s) created; skipped ${data.skipped.map((item: any) => item.studentName).join(", ")}.`
+          : `${data.documents.length} document(s) created.`,
+      });
+      await loadBatch(batch.id).catch(() => undefined);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  }
+
+  function onNewBatch() {
+    localStorage.removeItem(CURRENT_BATCH_KEY);
+    setBatch(null);
+    setWarnings([]);
+    setFiles([]);
+    setName("");
+    setFileInputKey((key) => key + 1);
+  }
+
+  const answered = batch?.reports.filter((report) => report.answeredQuestions > 0).length ?? 0;
+
+  return (
+    <Card className="w-full shadow-lg border-2 border-transparent hover:border-primary/20 transition-all duration-300">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl">Cohort Batch</CardTitle>
+        <CardDescription>
+          Upload every student&apos;s transcript at once (TXT, VTT, SRT or DOCX files, or a ZIP of them). Add a CSV manifest with
+          &apos;name&apos;, &apos;pronouns&apos; and &apos;file&apos; columns to set names and pronouns; without one,
+          names are taken from the file names.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!batch && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="batch-name">Batch name</Label>
+              <Input
+                id="batch-name"
+                placeholder="e.g. Term 3 cohort"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                disabled={isStarting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="batch-files">Transcripts and manifest</Label>
+              <Input
+                key={fileInputKey}
+                id="batch-files"
+                type="file"
+                multiple
+                accept=".zip,.txt,.vtt,.srt,.docx,.csv"
+                onChange={(event) => setFiles(Array.from(event.target.files || []))}
+                disabled={isStarting}
+              />
+              {files.length > 0 && (
+                <p className="text-sm text-muted-foreground">{files.length} file(s) selected.</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Qualification</Label>
+              <QualificationSelect
+                qualifications={qualifications}
+                value={qualification}
+                onChange={loadUnits}
+                disabled={isStarting}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Units to assess</Label>
+              <UnitSelector units={availableUnits} value={units} onChange={setUnits} disabled={isStarting} />
+            </div>
+            <Button
+              type="button"
+              className="w-full"
+              onClick={onStart}
+              disabled={isStarting || files.length === 0 || units.length === 0}
+            >
+              {isStarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Start Batch
+            </Button>
+          </>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-900">
+            <p className="font-semibold">Some files need attention</p>
+            <ul className="mt-1 list-disc pl-5">
+              {warnings.map((warning) => <li key={warning}>{warning}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {batch && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <h3 className="font-headline text-lg">{batch.name}</h3>
+              <span className="text-sm text-muted-foreground">
+                {answered} of {batch.reports.length} student(s) have answers
+              </span>
+              <span className="ml-auto flex gap-2">
+                {running && (
+                  <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+                    <Ban className="mr-2 h-4 w-4" />
+                    Cancel Remaining
+                  </Button>
+                )}
+                <Button type="button" variant="outline" size="sm" onClick={onNewBatch} disabled={running}>
+                  <FilePlus className="mr-2 h-4 w-4" />
+                  New Batch
+                </Button>
+              </span>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-[30%]">Progress</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batch.reports.map((report) => {
+                  const job = report.job;
+                  const done = job ? job.completedQuestions + job.failedQuestions : 0;
+                  return (
+                    <TableRow key={report.id}>
+                      <TableCell className="font-semibold">{report.studentName}</TableCell>
+                      <TableCell className="text-muted-foreground">{report.sourceFile}</TableCell>
+                      <TableCell>
+                        {job ? (
+                          <Badge variant={job.status === "failed" ? "destructive" : isActive(report) ? "secondary" : "outline"}>
+                            {JOB_STATUS_LABELS[job.status]}
+                          </Badge>
+                        ) : (
+                          <Badge variant="outline">Not started</Badge>
+                        )}
+                        {report.status === "downloaded" && <Badge variant="outline" className="ml-1">Downloaded</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        <Progress value={job && job.totalQuestions > 0 ? (done / job.totalQuestions) * 100 : 0} className="h-2" />
+                        <span className="text-xs text-muted-foreground">
+                          {job?.completedQuestions ?? 0} / {job?.totalQuestions ?? 0} questions
+                          {job && job.failedQuestions > 0 && `, ${job.failedQuestions} failed`}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <p className="text-sm text-muted-foreground">
+              Each student is also listed under Saved Reports on the Single Student tab, to review and edit before downloading.
+            </p>
+            <Button type="button" className="w-full" onClick={onDownload} disabled={isDownloading || answered === 0}>
+              {isDownloading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              {running ? "Download Reports So Far (ZIP)" : "Download All Reports (ZIP)"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
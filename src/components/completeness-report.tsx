@@ -0,0 +1,100 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter,
+  AlertDialogHeader, AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  MISSING_ANSWER_POLICIES, type CompletenessReport as Completeness, type MissingAnswerPolicy,
+} from "@/lib/missing-answers";
+
+type CompletenessReportProps = {
+  /** The check of the report about to be downloaded; the dialog is open while set. */
+  check: { completeness: Completeness; policy: MissingAnswerPolicy } | null;
+  onCancel: () => void;
+  onDownload: (policy: MissingAnswerPolicy) => void;
+};
+
+/**
+ * Lists the questions a document is about to be filled without, by unit, and asks what to fill them with
+ * before the download goes ahead. The server's missing-answer policy is picked to start with.
+ */
+export function CompletenessReport({ check, onCancel, onDownload }: CompletenessReportProps) {
+  const [policy, setPolicy] = useState<MissingAnswerPolicy>("marker");
+
+  useEffect(() => {
+    if (check) setPolicy(check.policy);
+  }, [check]);
+
+  const completeness = check?.completeness;
+  const incomplete = completeness?.units.filter((unit) => unit.missing.length > 0 || unit.partial.length > 0) ?? [];
+  const notAssessed = completeness?.units.filter((unit) => !unit.assessed) ?? [];
+
+  return (
+    <AlertDialog open={!!check} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="max-h-[90vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2 font-headline">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Missing Answers
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            {completeness && `${completeness.answered} of ${completeness.total} questions have a complete answer. `}
+            The questions and fields below would be handed in empty. Generate them, or choose what the document shows in their place.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3 text-sm">
+          {incomplete.map((unit) => (
+            <div key={unit.unitCode}>
+              <p className="font-semibold">
+                {unit.unitCode}
+                {unit.title && <span className="font-normal text-muted-foreground"> – {unit.title}</span>}
+              </p>
+              <div className="mt-1 flex flex-wrap gap-2">
+                {unit.missing.map((questionKey) => (
+                  <Badge key={questionKey} variant="destructive">Question {questionKey}</Badge>
+                ))}
+                {unit.partial.map(({ questionKey, fields }) => (
+                  <Badge key={questionKey} variant="outline" title={fields.join(", ")}>
+                    Question {questionKey}: {fields.join(", ")}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+          {notAssessed.length > 0 && (
+            <p className="text-muted-foreground">
+              Not part of this assessment, marked as not assessed: {notAssessed.map((unit) => unit.unitCode).join(", ")}
+            </p>
+          )}
+        </div>
+
+        <RadioGroup value={policy} onValueChange={(value) => setPolicy(value as MissingAnswerPolicy)} className="space-y-2">
+          {(Object.keys(MISSING_ANSWER_POLICIES) as MissingAnswerPolicy[]).map((option) => (
+            <div key={option} className="flex items-start space-x-3">
+              <RadioGroupItem value={option} id={`missing-${option}`} className="mt-1" />
+              <Label htmlFor={`missing-${option}`} className="font-normal">
+                <span className="font-semibold">{MISSING_ANSWER_POLICIES[option].label}</span>
+                <span className="block text-muted-foreground">{MISSING_ANSWER_POLICIES[option].description}</span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onDownload(policy)} disabled={policy === "block"}>
+            Download Anyway
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,156 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+
+import { Badge } from "@/components/ui/badge";
+import { QUOTE_STATUS_LABELS } from "@/components/unverified-evidence";
+import type { GeneratedReport } from "@/lib/generation";
+import type { ReportVerification } from "@/lib/quote-verification";
+
+type EvidenceViewProps = {
+  transcript: string;
+  report: GeneratedReport;
+  verification: ReportVerification;
+};
+
+type CitedCriterion = {
+  id: string;
+  unitCode: string;
+  mainQuestionKey: string;
+  criterionKey: string;
+  question: string;
+  exampleAction: string;
+  /** Transcript lines matched by the criterion's quotes. */
+  lines: number[];
+  /** Recording times of the matched quotes, when the transcript is timestamped. */
+  timestamps: string[];
+};
+
+/**
+ * Collects every criterion of the report together with the transcript lines its quotes were matched to.
+ */
+function collectCriteria(report: GeneratedReport, verification: ReportVerification): CitedCriterion[] {
+  return Object.entries(report).flatMap(([unitCode, questions]) =>
+    Object.entries(questions).flatMap(([mainQuestionKey, result]) =>
+      Object.entries(result.evaluation).map(([criterionKey, criterion]) => {
+        const lines = new Set<number>();
+        const timestamps = new Set<string>();
+        for (const match of verification[unitCode]?.[mainQuestionKey]?.[criterionKey]?.quotes || []) {
+          if (match.timestamp) timestamps.add(match.timestamp);
+          if (match.startLine === undefined || match.endLine === undefined) continue;
+          for (let line = match.startLine; line <= match.endLine; line++) lines.add(line);
+        }
+        return {
+          id: `${unitCode}-${mainQuestionKey}-${criterionKey}`,
+          unitCode,
+          mainQuestionKey,
+          criterionKey,
+          question: criterion.question,
+          exampleAction: criterion.example_action,
+          lines: Array.from(lines).sort((a, b) => a - b),
+          timestamps: Array.from(timestamps).sort(),
+        };
+      })
+    )
+  );
+}
+
+/**
+ * Shows the generated evaluation next to the line-numbered transcript. Selecting a criterion
+ * highlights the transcript lines its example action quotes; selecting a transcript line
+ * highlights every criterion that cites it.
+ */
+export function EvidenceView({ transcript, report, verification }: EvidenceViewProps) {
+  const [selectedCriterion, setSelectedCriterion] = useState<string | null>(null);
+  const [selectedLine, setSelectedLine] = useState<number | null>(null);
+  const lineRefs = useRef<Record<number, HTMLDivElement | null>>({});
+  const criterionRefs = useRef<Record<string, HTMLButtonElement | null>>({});
+
+  const lines = useMemo(() => transcript.split(/\r?\n/), [transcript]);
+  const criteria = useMemo(() => collectCriteria(report, verification), [report, verification]);
+
+  // Line number -> ids of the criteria citing it
+  const citations = useMemo(() => {
+    const byLine = new Map<number, string[]>();
+    for (const criterion of criteria) {
+      for (const line of criterion.lines) byLine.set(line, [...(byLine.get(line) || []), criterion.id]);
+    }
+    return byLine;
+  }, [criteria]);
+
+  const highlightedLines = new Set(criteria.find((c) => c.id === selectedCriterion)?.lines || []);
+  const highlightedCriteria = new Set(selectedLine !== null ? citations.get(selectedLine) || [] : []);
+
+  function selectCriterion(criterion: CitedCriterion) {
+    setSelectedLine(null);
+    setSelectedCriterion(criterion.id);
+    if (criterion.lines.length > 0) {
+      lineRefs.current[criterion.lines[0]]?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }
+
+  function selectLine(line: number) {
+    setSelectedCriterion(null);
+    setSelectedLine(line);
+    const first = citations.get(line)?.[0];
+    if (first) {
+      criterionRefs.current[first]?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      <div className="max-h-[600px] space-y-2 overflow-auto rounded-md border p-2">
+        {criteria.map((criterion) => {
+          const evidence = verification[criterion.unitCode]?.[criterion.mainQuestionKey]?.[criterion.criterionKey];
+          const active = criterion.id === selectedCriterion || highlightedCriteria.has(criterion.id);
+          return (
+            <button
+              key={criterion.id}
+              type="button"
+              ref={(el) => { criterionRefs.current[criterion.id] = el; }}
+              onClick={() => selectCriterion(criterion)}
+              className={`w-full space-y-1 rounded-md p-3 text-left text-sm transition-colors hover:bg-muted ${active ? "bg-primary/10 ring-1 ring-primary" : ""}`}
+            >
+              <div className="flex flex-wrap items-center gap-2 font-semibold">
+                {criterion.unitCode} – Q{criterion.mainQuestionKey}.{criterion.criterionKey}
+                {evidence && evidence.status !== "verified" && (
+                  <Badge variant={evidence.status === "fabricated" ? "destructive" : "secondary"}>
+                    {QUOTE_STATUS_LABELS[evidence.status]}
+                  </Badge>
+                )}
+                {criterion.lines.length > 0 && (
+                  <span className="font-normal text-muted-foreground">
+                    Line {criterion.lines[0] + 1}
+                    {criterion.lines.length > 1 && `–${criterion.lines[criterion.lines.length - 1] + 1}`}
+                    {criterion.timestamps.length > 0 && ` · at ${criterion.timestamps.join(", ")}`}
+                  </span>
+                )}
+              </div>
+              <p className="text-muted-foreground">{criterion.question}</p>
+              <p className="italic">{criterion.exampleAction}</p>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="max-h-[600px] overflow-auto rounded-md border py-2 font-mono text-sm">
+        {lines.map((text, index) => {
+          const cited = citations.has(index);
+          return (
+            <div
+              key={index}
+              ref={(el) => { lineRefs.current[index] = el; }}
+              onClick={() => selectLine(index)}
+              title={cited ? `Cited by ${citations.get(index)!.length} criterion/criteria` : undefined}
+              className={`flex cursor-pointer gap-3 px-2 hover:bg-muted ${highlightedLines.has(index) || index === selectedLine ? "bg-amber-100 dark:bg-amber-900" : ""} ${cited ? "border-l-2 border-primary" : "border-l-2 border-transparent"}`}
+            >
+              <span className="w-10 shrink-0 select-none text-right text-muted-foreground">{index + 1}</span>
+              <span className="whitespace-pre-wrap break-words">{text || " "}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
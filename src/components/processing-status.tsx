@@ -0,0 +1,83 @@
+"use client";
+
+import { Loader2, CheckCircle, XCircle, CircleDashed } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { RegenerateQuestion } from "@/components/regenerate-question";
+import { OUTCOME_LABELS, type Outcome } from "@/lib/outcomes";
+import { countUnverified, type ReportVerification } from "@/lib/quote-verification";
+
+/** Where one question is in generation, with what the last attempt reported. */
+export type QuestionStatus = {
+  status: 'idle' | 'processing' | 'completed' | 'error';
+  message?: string;
+  promptTokens?: number;
+  attempts?: number;
+  outcome?: Outcome;
+  justification?: string;
+};
+
+/** Question statuses by unit code, then main question key. */
+export type ProcessingStatusMap = Record<string, Record<string, QuestionStatus>>;
+
+const OUTCOME_BADGE_VARIANTS: Record<Outcome, "default" | "destructive" | "secondary"> = {
+  S: "default",
+  NYS: "destructive",
+  INSUFFICIENT_EVIDENCE: "secondary",
+};
+
+type ProcessingStatusProps = {
+  status: ProcessingStatusMap;
+  verification: ReportVerification;
+  onRegenerate: (unitCode: string, mainQuestionKey: string, feedback: string) => Promise<void>;
+  disabled?: boolean;
+};
+
+/** Lists each question of a generation run with its progress, outcome and unverified quotes. */
+export function ProcessingStatus({ status, verification, onRegenerate, disabled }: ProcessingStatusProps) {
+  return (
+    <div className="mt-8 p-6 bg-gray-100 dark:bg-gray-800 rounded-lg shadow-inner">
+      <h3 className="font-headline text-xl mb-4">LLM Processing Status</h3>
+      {Object.entries(status).map(([unitCode, questions]) => (
+        <div key={unitCode} className="mb-4">
+          <h4 className="font-semibold text-lg mb-2">{unitCode}</h4>
+          <ul className="space-y-2">
+            {Object.entries(questions).map(([questionKey, statusData]) => (
+              <li key={questionKey} className="flex items-center space-x-2">
+                {statusData.status === 'processing' && <Loader2 className="h-4 w-4 animate-spin text-blue-500" />}
+                {statusData.status === 'completed' && <CheckCircle className="h-4 w-4 text-green-500" />}
+                {statusData.status === 'error' && <XCircle className="h-4 w-4 text-red-500" />}
+                {statusData.status === 'idle' && <CircleDashed className="h-4 w-4 text-gray-500" />}
+                <span className="font-body">
+                  Question {questionKey}: {statusData.status.charAt(0).toUpperCase() + statusData.status.slice(1)}
+                  {statusData.message && ` - ${statusData.message}`}
+                  {statusData.status !== 'processing' && (statusData.attempts ?? 0) > 1 && ` (after ${statusData.attempts} attempts)`}
+                  {statusData.promptTokens !== undefined && (
+                    <span className="text-muted-foreground"> (~{statusData.promptTokens.toLocaleString()} prompt tokens)</span>
+                  )}
+                </span>
+                {statusData.outcome && (
+                  <Badge variant={OUTCOME_BADGE_VARIANTS[statusData.outcome]} title={statusData.justification}>
+                    {OUTCOME_LABELS[statusData.outcome]}
+                  </Badge>
+                )}
+                {statusData.status === 'completed' && verification[unitCode]?.[questionKey]
+                  && countUnverified(verification[unitCode][questionKey]) > 0 && (
+                  <Badge variant="outline" className="border-amber-400 text-amber-600">
+                    {countUnverified(verification[unitCode][questionKey])} unverified quote(s)
+                  </Badge>
+                )}
+                {statusData.status !== 'processing' && (
+                  <RegenerateQuestion
+                    disabled={disabled}
+                    onRegenerate={(feedback) => onRegenerate(unitCode, questionKey, feedback)}
+                  />
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
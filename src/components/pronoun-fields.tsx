@@ -0,0 +1,78 @@
+"use client";
+
+import { useWatch, type Control } from "react-hook-form";
+
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { PRONOUN_LABELS, type PronounOption, type PronounSet } from "@/lib/pronouns";
+import type { TranscriptFormValues } from "@/components/transcript-form";
+
+export const CUSTOM_PRONOUN_FIELDS: { key: keyof PronounSet; label: string; placeholder: string }[] = [
+  { key: "subject", label: "Subject", placeholder: "e.g. xe" },
+  { key: "object", label: "Object", placeholder: "e.g. xem" },
+  { key: "possessive", label: "Possessive", placeholder: "e.g. xyr" },
+  { key: "possessivePronoun", label: "Possessive pronoun", placeholder: "e.g. xyrs" },
+  { key: "reflexive", label: "Reflexive", placeholder: "e.g. xemself" },
+];
+
+type PronounFieldsProps = {
+  control: Control<TranscriptFormValues>;
+};
+
+/** The student's pronouns: a preset, or a custom set entered one form at a time. */
+export function PronounFields({ control }: PronounFieldsProps) {
+  const pronouns = useWatch({ control, name: "pronouns" });
+
+  return (
+    <>
+      <FormField
+        control={control}
+        name="pronouns"
+        render={({ field }) => (
+          <FormItem className="space-y-3">
+            <FormLabel className="font-headline">Pronouns</FormLabel>
+            <FormControl>
+              <RadioGroup
+                onValueChange={field.onChange}
+                defaultValue={field.value}
+                className="flex flex-wrap items-center gap-x-6 gap-y-2 pt-2"
+              >
+                {(Object.keys(PRONOUN_LABELS) as PronounOption[]).map((option) => (
+                  <FormItem key={option} className="flex items-center space-x-3 space-y-0">
+                    <FormControl>
+                      <RadioGroupItem value={option} />
+                    </FormControl>
+                    <FormLabel className="font-normal font-body">{PRONOUN_LABELS[option]}</FormLabel>
+                  </FormItem>
+                ))}
+              </RadioGroup>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {pronouns === "custom" && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 md:col-span-2">
+          {CUSTOM_PRONOUN_FIELDS.map(({ key, label, placeholder }) => (
+            <FormField
+              key={key}
+              control={control}
+              name={`customPronouns.${key}`}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-body text-sm">{label}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={placeholder} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { QualificationSummary } from "@/lib/qualifications";
+
+type QualificationSelectProps = {
+  qualifications: QualificationSummary[];
+  value: string;
+  onChange: (code: string) => void;
+  disabled?: boolean;
+};
+
+/**
+ * Picks the qualification from qualifications.json whose schema, template and assessor persona are used.
+ */
+export function QualificationSelect({ qualifications, value, onChange, disabled }: QualificationSelectProps) {
+  return (
+    <Select value={value || undefined} onValueChange={onChange} disabled={disabled || qualifications.length === 0}>
+      <SelectTrigger aria-label="Qualification">
+        <SelectValue placeholder="Loading qualifications…" />
+      </SelectTrigger>
+      <SelectContent>
+        {qualifications.map((qualification) => (
+          <SelectItem key={qualification.code} value={qualification.code}>
+            {qualification.code} – {qualification.title}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
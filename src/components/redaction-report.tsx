@@ -0,0 +1,66 @@
+"use client";
+
+import { ShieldCheck } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { REDACTION_CATEGORIES, type Redaction, type RedactionCategory } from "@/lib/redaction";
+
+type RedactionReportProps = {
+  redactions: Redaction[];
+};
+
+/**
+ * Shows which personal details were replaced with tokens before the transcript was sent for generation.
+ * The answers below use the same tokens; the downloaded document has the original details put back.
+ */
+export function RedactionReport({ redactions }: RedactionReportProps) {
+  if (redactions.length === 0) return null;
+
+  const counts = redactions.reduce<Partial<Record<RedactionCategory, number>>>(
+    (totals, { category }) => ({ ...totals, [category]: (totals[category] || 0) + 1 }),
+    {}
+  );
+
+  return (
+    <div className="mt-8 rounded-lg border p-6">
+      <h3 className="mb-2 flex items-center gap-2 font-headline text-xl">
+        <ShieldCheck className="h-5 w-5 text-green-600" />
+        Redacted Details
+      </h3>
+      <p className="mb-3 text-sm text-muted-foreground">
+        These details were replaced with tokens before the transcript was sent for generation. The answers show the
+        tokens; the downloaded document has the original details put back.
+      </p>
+      <div className="mb-4 flex flex-wrap gap-2">
+        {(Object.keys(REDACTION_CATEGORIES) as RedactionCategory[])
+          .filter((category) => counts[category])
+          .map((category) => (
+            <Badge key={category} variant="secondary">
+              {REDACTION_CATEGORIES[category].label}: {counts[category]}
+            </Badge>
+          ))}
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Token</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Original</TableHead>
+            <TableHead className="text-right">Found</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {redactions.map((redaction) => (
+            <TableRow key={redaction.token}>
+              <TableCell className="font-mono text-sm">{redaction.token}</TableCell>
+              <TableCell>{REDACTION_CATEGORIES[redaction.category].label}</TableCell>
+              <TableCell>{redaction.original}</TableCell>
+              <TableCell className="text-right">{redaction.occurrences}×</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+type RegenerateQuestionProps = {
+  disabled?: boolean;
+  onRegenerate: (feedback: string) => Promise<void>;
+};
+
+/**
+ * Per-question "Regenerate" action with optional assessor feedback for the model.
+ */
+export function RegenerateQuestion({ disabled, onRegenerate }: RegenerateQuestionProps) {
+  const [open, setOpen] = useState(false);
+  const [feedback, setFeedback] = useState("");
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  async function handleRegenerate() {
+    setIsRegenerating(true);
+    setOpen(false);
+    try {
+      await onRegenerate(feedback);
+      setFeedback("");
+    } finally {
+      setIsRegenerating(false);
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="ghost" size="sm" disabled={disabled || isRegenerating}>
+          {isRegenerating ? (
+            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+          ) : (
+            <RefreshCw className="mr-1 h-3 w-3" />
+          )}
+          Regenerate
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <p className="text-sm font-medium">Feedback for this question (optional)</p>
+        <Textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          placeholder="e.g. focus more on cultural needs"
+          className="min-h-[80px] text-sm"
+        />
+        <div className="flex justify-end">
+          <Button type="button" size="sm" onClick={handleRegenerate}>
+            Regenerate
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import {
+  Accordion, AccordionContent, AccordionItem, AccordionTrigger,
+} from "@/components/ui/accordion";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { QUOTE_STATUS_LABELS } from "@/components/unverified-evidence";
+import { OUTCOME_LABELS } from "@/lib/outcomes";
+import { countUnverified, type ReportVerification } from "@/lib/quote-verification";
+import type { CriterionEvaluation, GeneratedReport, QuestionResult } from "@/lib/generation";
+
+type ReportEditorProps = {
+  report: GeneratedReport;
+  verification: ReportVerification;
+  onChange: (unitCode: string, mainQuestionKey: string, result: QuestionResult) => void;
+  disabled?: boolean;
+};
+
+/**
+ * Review screen for the generated report: one accordion item per unit, with the observations,
+ * example actions and conclusion of every question editable before the document is produced.
+ */
+export function ReportEditor({ report, verification, onChange, disabled }: ReportEditorProps) {
+  function updateCriterion(unitCode: string, mainQuestionKey: string, criterionKey: string, patch: Partial<CriterionEvaluation>) {
+    const result = report[unitCode][mainQuestionKey];
+    onChange(unitCode, mainQuestionKey, {
+      ...result,
+      evaluation: {
+        ...result.evaluation,
+        [criterionKey]: { ...result.evaluation[criterionKey], ...patch },
+      },
+    });
+  }
+
+  return (
+    <Accordion type="multiple" className="w-full">
+      {Object.entries(report).map(([unitCode, questions]) => {
+        const unverified = Object.keys(questions).reduce(
+          (total, key) => total + (verification[unitCode]?.[key] ? countUnverified(verification[unitCode][key]) : 0), 0);
+
+        return (
+          <AccordionItem key={unitCode} value={unitCode}>
+            <AccordionTrigger className="font-headline text-lg">
+              <span className="flex items-center gap-2">
+                {unitCode}
+                <span className="text-sm font-normal text-muted-foreground">
+                  {Object.keys(questions).length} question(s)
+                </span>
+                {unverified > 0 && (
+                  <Badge variant="outline" className="border-amber-400 text-amber-600">
+                    {unverified} unverified
+                  </Badge>
+                )}
+              </span>
+            </AccordionTrigger>
+            <AccordionContent className="space-y-8">
+              {Object.entries(questions).map(([mainQuestionKey, result]) => (
+                <div key={mainQuestionKey} className="space-y-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <h4 className="font-semibold">Question {mainQuestionKey}: {result.main_question}</h4>
+                    {result.outcome && (
+                      <Badge variant={result.outcome === "NYS" ? "destructive" : "secondary"} title={result.outcome_justification}>
+                        {OUTCOME_LABELS[result.outcome]}
+                      </Badge>
+                    )}
+                  </div>
+
+                  {Object.entries(result.evaluation).map(([criterionKey, criterion]) => {
+                    const evidence = verification[unitCode]?.[mainQuestionKey]?.[criterionKey];
+                    const flagged = evidence && evidence.status !== "verified";
+                    const fieldId = `${unitCode}-${mainQuestionKey}-${criterionKey}`;
+
+                    return (
+                      <div key={criterionKey} className="space-y-2 rounded-md border p-4">
+                        <p className="text-sm font-medium">{criterionKey}. {criterion.question}</p>
+                        <Label htmlFor={`${fieldId}-performance`}>Performance Observed</Label>
+                        <Textarea
+                          id={`${fieldId}-performance`}
+                          value={criterion.performance_observed}
+                          disabled={disabled}
+                          onChange={(e) => updateCriterion(unitCode, mainQuestionKey, criterionKey, { performance_observed: e.target.value })}
+                          className="min-h-[80px] resize-y font-body text-sm"
+                        />
+                        <div className="flex items-center gap-2">
+                          <Label htmlFor={`${fieldId}-action`}>Example Action</Label>
+                          {flagged && (
+                            <Badge variant={evidence.status === "fabricated" ? "destructive" : "secondary"}>
+                              {QUOTE_STATUS_LABELS[evidence.status]}
+                            </Badge>
+                          )}
+                        </div>
+                        <Textarea
+                          id={`${fieldId}-action`}
+                          value={criterion.example_action}
+                          disabled={disabled}
+                          onChange={(e) => updateCriterion(unitCode, mainQuestionKey, criterionKey, { example_action: e.target.value })}
+                          className={`min-h-[60px] resize-y font-body text-sm ${flagged ? "border-amber-400 bg-amber-50 dark:bg-amber-950" : ""}`}
+                        />
+                      </div>
+                    );
+                  })}
+
+                  <div className="space-y-2">
+                    <Label htmlFor={`${unitCode}-${mainQuestionKey}-conclusion`}>Conclusion</Label>
+                    <Textarea
+                      id={`${unitCode}-${mainQuestionKey}-conclusion`}
+                      value={result.conclusion}
+                      disabled={disabled}
+                      onChange={(e) => onChange(unitCode, mainQuestionKey, { ...result, conclusion: e.target.value })}
+                      className="min-h-[100px] resize-y font-body text-sm"
+                    />
+                  </div>
+                </div>
+              ))}
+            </AccordionContent>
+          </AccordionItem>
+        );
+      })}
+    </Accordion>
+  );
+}
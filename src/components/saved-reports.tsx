@@ -0,0 +1,104 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { FilePlus, FolderOpen, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import type { ReportStatus, ReportSummary } from "@/lib/storage/types";
+
+type SavedReportsProps = {
+  currentId: string | null;
+  /** Changes whenever the list should be fetched again, e.g. after a save. */
+  refreshKey: number;
+  onResume: (id: string) => void;
+  onNew: () => void;
+  disabled?: boolean;
+};
+
+const STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: "Draft",
+  generating: "Generating",
+  generated: "Ready for review",
+  downloaded: "Downloaded",
+};
+
+/**
+ * Lists the reports saved in the local database so the assessor can pick up where they left off.
+ */
+export function SavedReports({ currentId, refreshKey, onResume, onNew, disabled }: SavedReportsProps) {
+  const [reports, setReports] = useState<ReportSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/reports")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data?.ok) throw new Error(data?.error || "Failed to load saved reports.");
+        setReports(data.reports);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load saved reports."));
+  }, [refreshKey]);
+
+  async function onDelete(id: string) {
+    const res = await fetch(`/api/reports/${id}`, { method: "DELETE" });
+    if (res.ok) {
+      setReports((prev) => prev.filter((report) => report.id !== id));
+      if (id === currentId) onNew();
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-headline text-lg">Saved Reports</h3>
+        <Button type="button" variant="outline" size="sm" onClick={onNew} disabled={disabled}>
+          <FilePlus className="mr-2 h-4 w-4" />
+          New Report
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      {!error && reports.length === 0 && (
+        <p className="text-sm text-muted-foreground">No saved reports yet. Drafts are saved automatically once a student name is entered.</p>
+      )}
+      <ul className="max-h-[240px] space-y-2 overflow-auto">
+        {reports.map((report) => (
+          <li
+            key={report.id}
+            className={`flex flex-wrap items-center gap-2 rounded-md border p-2 text-sm ${report.id === currentId ? "border-primary" : ""}`}
+          >
+            <span className="font-semibold">{report.studentName}</span>
+            <Badge variant={report.status === "generating" ? "secondary" : "outline"}>{STATUS_LABELS[report.status]}</Badge>
+            <span className="text-muted-foreground">
+              {report.answeredQuestions} answer(s) · updated {formatDistanceToNow(new Date(report.updatedAt), { addSuffix: true })}
+            </span>
+            <span className="ml-auto flex gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => onResume(report.id)}
+                disabled={disabled || report.id === currentId}
+              >
+                <FolderOpen className="mr-2 h-4 w-4" />
+                Resume
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onDelete(report.id)}
+                disabled={disabled}
+                aria-label={`Delete report for ${report.studentName}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select, SelectContent, SelectItem, SelectTrigger, SelectValue,
+} from "@/components/ui/select";
+import type { TranscriptSegment } from "@/lib/segment-map";
+
+export type QuestionRef = { unitCode: string; mainQuestionKey: string };
+
+type SegmentEditorProps = {
+  segments: TranscriptSegment[];
+  questions: QuestionRef[];
+  onChange: (segments: TranscriptSegment[]) => void;
+};
+
+const toValue = (q: QuestionRef) => `${q.unitCode}|${q.mainQuestionKey}`;
+
+/**
+ * Lets the assessor review the proposed transcript split: reassign a section to another
+ * question, trim its text, or drop it entirely before generation.
+ */
+export function SegmentEditor({ segments, questions, onChange }: SegmentEditorProps) {
+  function updateSegment(index: number, patch: Partial<TranscriptSegment>) {
+    onChange(segments.map((segment, i) => (i === index ? { ...segment, ...patch } : segment)));
+  }
+
+  function removeSegment(index: number) {
+    onChange(segments.filter((_, i) => i !== index));
+  }
+
+  if (segments.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No sections could be matched to the assessment questions. The full transcript will be used for every question.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {segments.map((segment, index) => (
+        <div key={`${segment.startLine}-${index}`} className="space-y-2 rounded-md border p-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <Select
+              value={toValue(segment)}
+              onValueChange={(value) => {
+                const [unitCode, mainQuestionKey] = value.split("|");
+                updateSegment(index, { unitCode, mainQuestionKey });
+              }}
+            >
+              <SelectTrigger className="w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {questions.map((q) => (
+                  <SelectItem key={toValue(q)} value={toValue(q)}>
+                    {q.unitCode} – Question {q.mainQuestionKey}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Badge variant={segment.method === "heading" ? "default" : "secondary"}>
+              {segment.method === "heading" ? "Heading" : `Match ${Math.round(segment.confidence * 100)}%`}
+            </Badge>
+            <span className="text-sm text-muted-foreground">
+              Lines {segment.startLine + 1}–{segment.endLine + 1}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="ml-auto"
+              onClick={() => removeSegment(index)}
+              aria-label="Remove section"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Textarea
+            value={segment.text}
+            onChange={(e) => updateSegment(index, { text: e.target.value })}
+            className="min-h-[120px] resize-y font-body text-sm"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+import { CheckCircle, Users } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  SPEAKER_ROLE_LABELS, validateSpeakerRoles, type SpeakerDetection, type SpeakerRole, type SpeakerRoles,
+} from "@/lib/speaker-roles";
+
+type SpeakerRoleMappingProps = {
+  detections: SpeakerDetection[];
+  /** The role in effect for each speaker: the assessor's choice, or else the suggestion. */
+  value: SpeakerRoles;
+  /** Roles the assessor has chosen or confirmed. */
+  chosen: SpeakerRoles | null;
+  onChange: (speaker: string, role: SpeakerRole) => void;
+  onConfirm: () => void;
+  disabled?: boolean;
+};
+
+/**
+ * Lists the transcript's speakers with their suggested roles, so the assessor can confirm which one is the student
+ * before the transcript is relabelled for generation.
+ */
+export function SpeakerRoleMapping({ detections, value, chosen, onChange, onConfirm, disabled }: SpeakerRoleMappingProps) {
+  const error = validateSpeakerRoles(value);
+  const confirmed = detections.every(({ speaker }) => chosen?.[speaker]);
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Users className="h-4 w-4 text-muted-foreground" />
+        <h3 className="font-headline text-lg">Speakers</h3>
+        {confirmed ? (
+          <Badge variant="outline"><CheckCircle className="mr-1 h-3 w-3" />Confirmed</Badge>
+        ) : (
+          <Badge variant="secondary">Suggested — please check</Badge>
+        )}
+        {!confirmed && (
+          <Button type="button" variant="outline" size="sm" className="ml-auto" onClick={onConfirm} disabled={disabled || !!error}>
+            Confirm Speakers
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Speakers are relabelled as {Object.values(SPEAKER_ROLE_LABELS).map((label) => `"${label}"`).join(", ")} before
+        generating, and only what the student says is credited as evidence.
+      </p>
+      <ul className="space-y-2">
+        {detections.map((detection) => (
+          <li key={detection.speaker} className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="min-w-[8rem] font-semibold">{detection.speaker}</span>
+            <Select
+              value={value[detection.speaker]}
+              onValueChange={(role) => onChange(detection.speaker, role as SpeakerRole)}
+              disabled={disabled}
+            >
+              <SelectTrigger className="h-8 w-[200px]" aria-label={`Role of ${detection.speaker}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SPEAKER_ROLE_LABELS) as SpeakerRole[]).map((role) => (
+                  <SelectItem key={role} value={role}>{SPEAKER_ROLE_LABELS[role]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">
+              {chosen?.[detection.speaker] ? "Set by you" : detection.reason} · {detection.utterances} turn(s), {detection.words} words
+            </span>
+            <span className="basis-full truncate text-muted-foreground italic">&ldquo;{detection.sample}&rdquo;</span>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
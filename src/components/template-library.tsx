@@ -0,0 +1,317 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, Star, Upload } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { QualificationSelect } from "@/components/qualification-select";
+import { useToast } from "@/hooks/use-toast";
+import type { QualificationSummary } from "@/lib/qualifications";
+import type { TemplateRecord } from "@/lib/storage/types";
+import type { TemplateLintReport } from "@/lib/template-inspection";
+
+type TemplateList = {
+  configured: { name: string; isDefault: boolean };
+  templates: TemplateRecord[];
+};
+
+/**
+ * Lists the missing, extra and malformed placeholders found by the placeholder check.
+ */
+function LintReport({ report }: { report: TemplateLintReport }) {
+  const sections: Array<[string, string[]]> = [
+    ["Missing", report.missing],
+    ["Extra", report.extra],
+    ["Malformed", report.malformed.map((issue) => issue.message)],
+  ];
+  return (
+    <div className="space-y-2 text-sm">
+      {sections.filter(([, items]) => items.length > 0).map(([title, items]) => (
+        <div key={title}>
+          <p className="font-semibold">{title} ({items.length})</p>
+          <ul className="list-disc pl-5 text-muted-foreground">
+            {items.map((item) => <li key={item}>{item}</li>)}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Uploads DOCX templates as numbered versions with a changelog, shows the placeholder check of each
+ * version, and marks the version a qualification's documents are filled from by default.
+ */
+export function TemplateLibrary() {
+  const { toast } = useToast();
+  const [qualifications, setQualifications] = useState<QualificationSummary[]>([]);
+  const [qualification, setQualification] = useState("");
+  const [list, setList] = useState<TemplateList | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+  const [name, setName] = useState("");
+  const [changelog, setChangelog] = useState("");
+  // The check of a refused upload, so the assessor can see what to fix or upload it anyway
+  const [rejected, setRejected] = useState<{ error: string; report: TemplateLintReport } | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const loadTemplates = useCallback(async (code: string) => {
+    const res = await fetch(`/api/templates?qualification=${encodeURIComponent(code)}`);
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data?.ok) throw new Error(data?.error || "Failed to load templates.");
+    setList({ configured: data.configured, templates: data.templates });
+  }, []);
+
+  useEffect(() => {
+    fetch("/api/qualifications")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data?.ok) throw new Error(data?.error || "Failed to load qualifications.");
+        setQualifications(data.qualifications);
+        const initial = data.qualifications.find((q: QualificationSummary) => q.isDefault) ?? data.qualifications[0];
+        if (initial) setQualification(initial.code);
+      })
+      .catch((error) => {
+        toast({
+          variant: "destructive",
+          title: "Could Not Load Qualifications",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      });
+  }, [toast]);
+
+  useEffect(() => {
+    if (!qualification) return;
+    loadTemplates(qualification).catch((error) => {
+      toast({
+        variant: "destructive",
+        title: "Could Not Load Templates",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+      });
+    });
+  }, [qualification, toast, loadTemplates]);
+
+  async function onUpload(force = false) {
+    if (!file) return;
+    setIsUploading(true);
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      body.append("qualification", qualification);
+      body.append("name", name);
+      body.append("changelog", changelog);
+      if (force) body.append("force", "true");
+
+      const res = await fetch("/api/templates", { method: "POST", body });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 422 && data?.report) {
+        setRejected({ error: data.error, report: data.report });
+        return;
+      }
+      if (!res.ok || !data?.ok) throw new Error(data?.error || "Failed to upload the template.");
+
+      setRejected(null);
+      setFile(null);
+      setFileInputKey((key) => key + 1);
+      setChangelog("");
+      toast({ title: "Template Uploaded", description: `${data.template.name} v${data.template.version} was added.` });
+      await loadTemplates(qualification);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Upload Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  }
+
+  async function onMakeDefault(template: TemplateRecord) {
+    const res = await fetch(`/api/templates/${template.id}/default`, { method: "POST" });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data?.ok) {
+      toast({ variant: "destructive", title: "Could Not Set Default", description: data?.error || "An unexpected error occurred." });
+      return;
+    }
+    toast({ title: "Default Template Set", description: `${template.name} v${template.version} is now used by default.` });
+    await loadTemplates(qualification).catch(() => undefined);
+  }
+
+  // Unmarking the library default makes the qualification fall back to its configured template
+  async function onRestoreConfigured() {
+    const current = list?.templates.find((template) => template.isDefault);
+    if (!current) return;
+    const res = await fetch(`/api/templates/${current.id}/default`, { method: "DELETE" });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data?.ok) {
+      toast({ variant: "destructive", title: "Could Not Restore Default", description: data?.error || "An unexpected error occurred." });
+      return;
+    }
+    toast({ title: "Default Template Set", description: `${list?.configured.name} is now used by default.` });
+    await loadTemplates(qualification).catch(() => undefined);
+  }
+
+  // Only malformed tags other than split ones stop a template from being used at all
+  const canForce = rejected?.report.malformed.every((issue) => issue.kind === "split") ?? false;
+  const names = Array.from(new Set(list?.templates.map((template) => template.name) ?? []));
+
+  return (
+    <Card className="w-full shadow-lg border-2 border-transparent hover:border-primary/20 transition-all duration-300">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl">Templates</CardTitle>
+        <CardDescription>
+          Upload DOCX templates and keep each change as a new version. Every upload is checked against the
+          qualification&apos;s schema; the default version is used for downloads unless another is picked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Qualification</Label>
+          <QualificationSelect
+            qualifications={qualifications}
+            value={qualification}
+            onChange={(code) => {
+              setQualification(code);
+              setRejected(null);
+            }}
+            disabled={isUploading}
+          />
+        </div>
+
+        {list && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Template</TableHead>
+                <TableHead>Changelog</TableHead>
+                <TableHead>Check</TableHead>
+                <TableHead className="text-right">Default</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {list.templates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell>
+                    <span className="font-semibold">{template.name}</span> v{template.version}
+                    <span className="block text-xs text-muted-foreground">
+                      {template.filename} · {new Date(template.createdAt).toLocaleString()}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-sm">{template.changelog || "—"}</TableCell>
+                  <TableCell>
+                    {template.lint.ok ? (
+                      <Badge variant="outline">Passed</Badge>
+                    ) : (
+                      <Badge
+                        variant="destructive"
+                        title={[...template.lint.missing, ...template.lint.extra, ...template.lint.malformed.map((issue) => issue.message)].join("\n")}
+                      >
+                        {template.lint.missing.length + template.lint.extra.length + template.lint.malformed.length} issue(s)
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {template.isDefault ? (
+                      <Badge>Default</Badge>
+                    ) : (
+                      <Button type="button" variant="outline" size="sm" onClick={() => onMakeDefault(template)}>
+                        <Star className="mr-2 h-4 w-4" />
+                        Make default
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell>
+                  <span className="font-semibold">{list.configured.name}</span>
+                  <span className="block text-xs text-muted-foreground">Configured in qualifications.json</span>
+                </TableCell>
+                <TableCell className="text-sm">—</TableCell>
+                <TableCell>—</TableCell>
+                <TableCell className="text-right">
+                  {list.configured.isDefault ? (
+                    <Badge>Default</Badge>
+                  ) : (
+                    <Button type="button" variant="outline" size="sm" onClick={onRestoreConfigured}>
+                      <Star className="mr-2 h-4 w-4" />
+                      Make default
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-4 rounded-lg border p-4">
+          <h3 className="font-headline text-lg">Upload a Template</h3>
+          <div className="space-y-2">
+            <Label htmlFor="template-file">DOCX template</Label>
+            <Input
+              key={fileInputKey}
+              id="template-file"
+              type="file"
+              accept=".docx"
+              onChange={(event) => {
+                const chosen = event.target.files?.[0] ?? null;
+                setFile(chosen);
+                setRejected(null);
+                if (chosen && !name) setName(chosen.name.replace(/\.docx$/i, ""));
+              }}
+              disabled={isUploading}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input
+              id="template-name"
+              list="template-names"
+              placeholder="An existing name adds a new version"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              disabled={isUploading}
+            />
+            <datalist id="template-names">
+              {names.map((existing) => <option key={existing} value={existing} />)}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-changelog">What changed</Label>
+            <Textarea
+              id="template-changelog"
+              placeholder="e.g. Added the CHCDIS013 unit"
+              value={changelog}
+              onChange={(event) => setChangelog(event.target.value)}
+              disabled={isUploading}
+            />
+          </div>
+
+          {rejected && (
+            <div className="space-y-3 rounded-md border border-destructive/50 p-3">
+              <p className="text-sm font-semibold text-destructive">{rejected.error}</p>
+              <LintReport report={rejected.report} />
+              {canForce && (
+                <Button type="button" variant="outline" size="sm" onClick={() => onUpload(true)} disabled={isUploading}>
+                  Upload Anyway
+                </Button>
+              )}
+            </div>
+          )}
+
+          <Button type="button" className="w-full" onClick={() => onUpload()} disabled={isUploading || !file || !qualification}>
+            {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+            Upload and Check
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
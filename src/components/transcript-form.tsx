@@ -3,8 +3,8 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
-import { useState, useEffect } from "react";
-import { Loader2, Download, CheckCircle, XCircle, CircleDashed } from "lucide-react";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Loader2, Download, Scissors, Ban, FileUp } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -12,241 +12,688 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
+import { useSpeakerRoles } from "@/hooks/use-speaker-roles";
+import { useQuestionRegeneration } from "@/hooks/use-question-regeneration";
+import { useReportDownload } from "@/hooks/use-report-download";
+import { SegmentEditor, type QuestionRef } from "@/components/segment-editor";
+import { UnitSelector } from "@/components/unit-selector";
+import { QualificationSelect } from "@/components/qualification-select";
+import { CUSTOM_PRONOUN_FIELDS, PronounFields } from "@/components/pronoun-fields";
+import { ProcessingStatus, type ProcessingStatusMap, type QuestionStatus } from "@/components/processing-status";
+import type { UnitSummary } from "@/lib/assessment-schema";
+import { toSegmentMap, type TranscriptSegment } from "@/lib/segment-map";
+import {
+  verifyQuestionEvidence, type QuestionVerification, type ReportVerification,
+} from "@/lib/quote-verification";
+import { UnverifiedEvidence } from "@/components/unverified-evidence";
+import { ReportEditor } from "@/components/report-editor";
+import { EvidenceView } from "@/components/evidence-view";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { SavedReports } from "@/components/saved-reports";
+import { SpeakerRoleMapping } from "@/components/speaker-role-mapping";
+import { applySpeakerRoles, validateSpeakerRoles, type SpeakerRoles } from "@/lib/speaker-roles";
+import { RedactionReport } from "@/components/redaction-report";
+import { reidentify, type Redaction } from "@/lib/redaction";
+import { DOCUMENT_FORMATS, type DocumentFormat } from "@/lib/document-formats";
+import { CompletenessReport } from "@/components/completeness-report";
+import type { StoredReport } from "@/lib/storage/types";
+import type { QualificationSummary } from "@/lib/qualifications";
+import type { GeneratedReport, QuestionResult } from "@/lib/generation";
+
+// The report being worked on, so that reopening the page resumes it
+const CURRENT_REPORT_KEY = "transcript-form:report-id";
+const AUTOSAVE_DELAY_MS = 1000;
+const TRANSCRIPT_FILE_TYPES = ".txt,.vtt,.srt,.docx";
 
 const formSchema = z.object({
   studentName: z.string().min(2, "Student name must be at least 2 characters."),
   transcript: z.string().min(50, "Transcript must be at least 50 characters."),
-  gender: z.enum(["male", "female"], {
-    required_error: "You need to select a gender.",
+  pronouns: z.enum(["he", "she", "they", "custom"], {
+    required_error: "You need to select the student's pronouns.",
+  }),
+  customPronouns: z.object({
+    subject: z.string(),
+    object: z.string(),
+    possessive: z.string(),
+    possessivePronoun: z.string(),
+    reflexive: z.string(),
   }),
+  qualification: z.string().min(1, "Select a qualification."),
+  units: z.array(z.string()).min(1, "Select at least one unit to assess."),
+}).superRefine((values, ctx) => {
+  if (values.pronouns !== "custom") return;
+  for (const key of CUSTOM_PRONOUN_FIELDS.map((f) => f.key)) {
+    if (!values.customPronouns[key].trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["customPronouns", key], message: "Required for custom pronouns." });
+    }
+  }
 });
 
+export type TranscriptFormValues = z.infer<typeof formSchema>;
+
 export function TranscriptForm() {
   const [isGenerating, setIsGenerating] = useState(false);
-  const [isDownloading, setIsDownloading] = useState(false);
+  const [isSegmenting, setIsSegmenting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [segments, setSegments] = useState<TranscriptSegment[] | null>(null);
+  // Personal details are replaced with tokens before the transcript is sent; the tokens issued are listed for the assessor
+  const [redactDetails, setRedactDetails] = useState(true);
+  const [redactionTerms, setRedactionTerms] = useState("");
+  const [redactions, setRedactions] = useState<Redaction[]>([]);
+  const [segmentQuestions, setSegmentQuestions] = useState<QuestionRef[]>([]);
+  const [qualifications, setQualifications] = useState<QualificationSummary[]>([]);
+  const [availableUnits, setAvailableUnits] = useState<UnitSummary[]>([]);
+  // Units included in the last generation run; everything else is marked as not assessed in the DOCX
+  const [assessedUnits, setAssessedUnits] = useState<string[]>([]);
   const [generatedReport, setGeneratedReport] = useState<any>(null);
-  const [processingStatus, setProcessingStatus] = useState<Record<string, Record<string, { status: 'idle' | 'processing' | 'completed' | 'error'; message?: string }>>>({});
+  const [verification, setVerification] = useState<ReportVerification>({});
+  const [reportId, setReportId] = useState<string | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [savedListVersion, setSavedListVersion] = useState(0);
+  const [processingStatus, setProcessingStatus] = useState<ProcessingStatusMap>({});
   const { toast } = useToast();
-
-  const form = useForm<z.infer<typeof formSchema>>({
+  // Refs let the debounced autosave see the latest id and segments without re-subscribing
+  const reportIdRef = useRef<string | null>(null);
+  const segmentsRef = useRef<TranscriptSegment[] | null>(null);
+  const speakerRolesRef = useRef<SpeakerRoles | null>(null);
+  const draftTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const answerTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  // Set while a saved report is loaded, so restoring its transcript does not discard its saved split
+  const restoredTranscript = useRef<string | null>(null);
+  const jobSourceRef = useRef<EventSource | null>(null);
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  const form = useForm<TranscriptFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       studentName: "",
       transcript: "",
-      gender: "male",
+      pronouns: "they",
+      customPronouns: { subject: "", object: "", possessive: "", possessivePronoun: "", reflexive: "" },
+      qualification: "",
+      units: [],
     },
   });
 
-  // Helper function to trigger the download from a base64 string
-  function downloadBase64Docx(base64: string, filename: string) {
-    const binary = atob(base64);
-    const len = binary.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i += 1) bytes[i] = binary.charCodeAt(i);
-    const blob = new Blob([bytes], {
-      type: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-    });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename || "output.docx";
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    URL.revokeObjectURL(url);
-  }
+  /**
+   * Loads the units of a qualification into the unit picker and makes it the form's qualification.
+   * @param qualification The qualification code; the server's default when omitted.
+   */
+  const loadUnits = useCallback(async (qualification?: string | null): Promise<UnitSummary[]> => {
+    const query = qualification ? `?qualification=${encodeURIComponent(qualification)}` : "";
+    const res = await fetch(`/api/units${query}`);
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data?.ok) throw new Error(data?.error || "Failed to load units.");
+    setAvailableUnits(data.units);
+    form.setValue("qualification", data.qualification);
+    return data.units;
+  }, [form]);
+
+  // Resuming touches most of the form's state; the mount effect calls the latest version through this ref
+  const resumeReportRef = useRef(resumeReport);
+  useEffect(() => {
+    resumeReportRef.current = resumeReport;
+  });
 
-  // Step 1: Generate the JSON report from the transcript
-  async function onGenerate(values: z.infer<typeof formSchema>) {
-    // TODO: Verify stream handling after server/browser refresh
-    setIsGenerating(true);
-    setGeneratedReport(null);
-    setProcessingStatus({}); // Clear previous processing status
+  // Load the qualifications and the default qualification's units, selecting them all, then resume the report
+  // that was open when the page was last closed
+  useEffect(() => {
+    fetch("/api/qualifications")
+      .then((res) => res.json())
+      .then((data) => {
+        if (!data?.ok) throw new Error(data?.error || "Failed to load qualifications.");
+        setQualifications(data.qualifications);
+      })
+      .catch((error) => {
+        toast({
+          variant: "destructive",
+          title: "Could Not Load Qualifications",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      });
 
-    let accumulatedResults: any = {};
+    loadUnits()
+      .then((units) => {
+        // A resumed report keeps its own selection
+        if (form.getValues().units.length === 0) {
+          form.setValue("units", units.map((u) => u.unitCode));
+        }
+        const savedId = localStorage.getItem(CURRENT_REPORT_KEY);
+        if (savedId) resumeReportRef.current(savedId);
+      })
+      .catch((error) => {
+        toast({
+          variant: "destructive",
+          title: "Could Not Load Units",
+          description: error instanceof Error ? error.message : "An unexpected error occurred.",
+        });
+      });
+  }, [form, toast, loadUnits]);
 
+  // Another qualification has other units and questions, so its units are all selected and any split is dropped
+  async function onQualificationChange(qualification: string) {
     try {
-      const genRes = await fetch("/api/generate", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(values),
+      const units = await loadUnits(qualification);
+      form.setValue("units", units.map((u) => u.unitCode));
+      setSegments(null);
+      setSegmentQuestions([]);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could Not Load Units",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
       });
+    }
+  }
 
-      if (!genRes.ok || !genRes.body) {
-        const err = await genRes.json().catch(() => ({}));
-        throw new Error(err?.error || "Failed to initiate report generation or no stream available.");
-      }
+  // A proposed split no longer matches once the transcript is edited
+  const transcriptValue = form.watch("transcript");
+  const studentNameValue = form.watch("studentName");
+  useEffect(() => {
+    const restored = restoredTranscript.current;
+    restoredTranscript.current = null;
+    if (restored === transcriptValue) return;
+    setSegments(null);
+  }, [transcriptValue]);
+
+  const speakers = useSpeakerRoles(transcriptValue, studentNameValue);
+  const speakerRoles = speakers.roles;
+
+  // Stop following a generation job when the form goes away; the job itself keeps running
+  useEffect(() => () => jobSourceRef.current?.close(), []);
+
+  useEffect(() => {
+    reportIdRef.current = reportId;
+    if (reportId) localStorage.setItem(CURRENT_REPORT_KEY, reportId);
+    else localStorage.removeItem(CURRENT_REPORT_KEY);
+  }, [reportId]);
+
+  /**
+   * Saves the form values, creating the report on first save.
+   * @returns The report id, or null if there is nothing to save yet.
+   */
+  const saveDraft = useCallback(async (): Promise<string | null> => {
+    if (draftTimer.current) clearTimeout(draftTimer.current);
+    const values = form.getValues();
+    const id = reportIdRef.current;
+    if (!id && !values.studentName.trim()) return null;
+
+    const res = await fetch(id ? `/api/reports/${id}` : "/api/reports", {
+      method: id ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...values, segments: segmentsRef.current, speakerRoles: speakerRolesRef.current }),
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok || !data?.ok) throw new Error(data?.error || "Failed to save the draft.");
 
-      const reader = genRes.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
+    if (!id) {
+      reportIdRef.current = data.report.id;
+      setReportId(data.report.id);
+      setSavedListVersion((version) => version + 1);
+    }
+    return data.report.id;
+  }, [form]);
+
+  const scheduleDraftSave = useCallback(() => {
+    if (draftTimer.current) clearTimeout(draftTimer.current);
+    draftTimer.current = setTimeout(() => {
+      saveDraft().catch((error) => console.error("Autosave failed:", error));
+    }, AUTOSAVE_DELAY_MS);
+  }, [saveDraft]);
+
+  // Autosave the draft shortly after the assessor stops typing
+  useEffect(() => {
+    const subscription = form.watch(() => scheduleDraftSave());
+    return () => subscription.unsubscribe();
+  }, [form, scheduleDraftSave]);
+
+  useEffect(() => {
+    segmentsRef.current = segments;
+    scheduleDraftSave();
+  }, [segments, scheduleDraftSave]);
+
+  useEffect(() => {
+    speakerRolesRef.current = speakers.choices;
+    scheduleDraftSave();
+  }, [speakers.choices, scheduleDraftSave]);
+
+  // Edits are saved per question, so typing in one answer does not resend the whole report
+  function scheduleAnswerSave(unitCode: string, mainQuestionKey: string, result: QuestionResult, questionVerification: QuestionVerification) {
+    const key = `${unitCode}|${mainQuestionKey}`;
+    clearTimeout(answerTimers.current[key]);
+    answerTimers.current[key] = setTimeout(() => {
+      const id = reportIdRef.current;
+      if (!id) return;
+      fetch(`/api/reports/${id}/answers`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ unitCode, mainQuestionKey, result, verification: questionVerification }),
+      }).catch((error) => console.error("Autosave failed:", error));
+    }, AUTOSAVE_DELAY_MS);
+  }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          break;
-        }
+  function applyReport(report: StoredReport, units: UnitSummary[]) {
+    restoredTranscript.current = report.transcript;
+    form.reset({
+      ...form.formState.defaultValues,
+      studentName: report.studentName,
+      transcript: report.transcript,
+      pronouns: report.pronouns,
+      customPronouns: { ...form.formState.defaultValues?.customPronouns, ...report.customPronouns },
+      qualification: form.getValues().qualification,
+      units: report.units,
+    } as TranscriptFormValues);
+    setSegments(report.segments);
+    speakers.setChoices(report.speakerRoles);
+    setRedactions(report.redactions);
+    setSegmentQuestions(units
+      .filter((u) => report.units.includes(u.unitCode))
+      .flatMap((u) => u.questionKeys.map((mainQuestionKey) => ({ unitCode: u.unitCode, mainQuestionKey }))));
+    // Units answered in an earlier run of this report stay part of the assessment
+    setAssessedUnits(Array.from(new Set([...report.units, ...Object.keys(report.answers)])));
+    setGeneratedReport(Object.keys(report.answers).length > 0 ? report.answers : null);
+    setVerification(report.verification);
+
+    // Questions without a saved answer (e.g. the page was closed mid-generation) can be generated one by one
+    const status: typeof processingStatus = {};
+    for (const unit of units.filter((u) => report.units.includes(u.unitCode))) {
+      for (const questionKey of unit.questionKeys) {
+        const result = report.answers[unit.unitCode]?.[questionKey];
+        (status[unit.unitCode] ??= {})[questionKey] = result
+          ? { status: 'completed', outcome: result.outcome, justification: result.outcome_justification }
+          : { status: 'idle', message: 'Not generated yet' };
+      }
+    }
+    setProcessingStatus(status);
+    setReportId(report.id);
+    if (report.activeJobId) followJob(report.activeJobId);
+  }
 
-        buffer += decoder.decode(value, { stream: true });
+  async function resumeReport(id: string) {
+    try {
+      const res = await fetch(`/api/reports/${id}`);
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data?.ok) throw new Error(data?.error || "Failed to load the saved report.");
+      // The report's own qualification decides which units and questions it has
+      const units = await loadUnits(data.report.qualification);
+      applyReport(data.report, units);
+    } catch (error) {
+      setReportId(null);
+      toast({
+        variant: "destructive",
+        title: "Could Not Resume Report",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+      });
+    }
+  }
 
-        console.log("Buffer content:", buffer); // Log buffer content
+  function startNewReport() {
+    if (draftTimer.current) clearTimeout(draftTimer.current);
+    jobSourceRef.current?.close();
+    jobSourceRef.current = null;
+    setJobId(null);
+    setIsGenerating(false);
+    reportIdRef.current = null;
+    setReportId(null);
+    // A new report stays on the qualification that was being assessed
+    form.reset({
+      ...form.formState.defaultValues,
+      qualification: form.getValues().qualification,
+      units: availableUnits.map((u) => u.unitCode),
+    } as TranscriptFormValues);
+    setSegments(null);
+    speakers.setChoices(null);
+    setRedactions([]);
+    setGeneratedReport(null);
+    setVerification({});
+    setProcessingStatus({});
+    setAssessedUnits([]);
+  }
 
-        const events = buffer.split('\n\n');
-        buffer = events.pop() || '';
+  // Reads a Zoom / Teams export or other transcript file into the transcript field
+  async function onImportTranscript(file: File) {
+    setIsImporting(true);
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      const res = await fetch("/api/transcripts/import", { method: "POST", body });
+      const data = await res.json();
+      if (!res.ok || !data?.ok) throw new Error(data?.error || `Request failed with status ${res.status}`);
 
-        for (const eventString of events) {
-          if (eventString.trim() === '') continue;
+      form.setValue("transcript", data.text, { shouldValidate: true, shouldDirty: true });
+      toast({
+        title: "Transcript Imported",
+        description: `${data.entries.length} passage(s) read from ${file.name}${data.speakers.length > 0 ? `; speakers: ${data.speakers.join(", ")}` : ""}.`,
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  }
 
-          const lines = eventString.split('\n');
-          let eventType = 'message';
-          let eventData = '';
+  // Optional step: propose a per-question split of the transcript for the assessor to adjust
+  async function onSegment() {
+    const valid = await form.trigger("transcript");
+    if (!valid) return;
 
-          for (const line of lines) {
-            if (line.startsWith('event: ')) {
-              eventType = line.substring('event: '.length);
-            } else if (line.startsWith('data: ')) {
-              eventData += line.substring('data: '.length);
-            }
-          }
+    setIsSegmenting(true);
+    try {
+      const segRes = await fetch("/api/segment", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          transcript: form.getValues().transcript,
+          units: form.getValues().units,
+          qualification: form.getValues().qualification,
+        }),
+      });
 
-          try {
-            const data = JSON.parse(eventData);
-            console.log("SSE Message:", eventType, data);
-
-            if (eventType === "processing") {
-              setProcessingStatus(prev => ({
-                ...prev,
-                [data.unitCode]: {
-                  ...(prev[data.unitCode] || {}),
-                  [data.mainQuestionKey]: { status: 'processing' }
-                }
-              }));
-            } else if (eventType === "completed") {
-              setProcessingStatus(prev => ({
-                ...prev,
-                [data.unitCode]: {
-                  ...(prev[data.unitCode] || {}),
-                  [data.mainQuestionKey]: { status: 'completed' }
-                }
-              }));
-              if (!accumulatedResults[data.unitCode]) {
-                accumulatedResults[data.unitCode] = {};
-              }
-              accumulatedResults[data.unitCode][data.mainQuestionKey] = data.result;
-            } else if (eventType === "error") {
-              setProcessingStatus(prev => ({
-                ...prev,
-                [data.unitCode]: {
-                  ...(prev[data.unitCode] || {}),
-                  [data.mainQuestionKey]: { status: 'error', message: data.message }
-                }
-              }));
-              toast({
-                variant: "destructive",
-                title: `Error for ${data.unitCode} - ${data.mainQuestionKey}`,
-                description: data.message || "An error occurred during generation.",
-              });
-            } else if (eventType === "done") {
-              setGeneratedReport(accumulatedResults);
-              setIsGenerating(false);
-              toast({
-                title: "Report Generated Successfully!",
-                description: "You can now review the JSON and download the DOCX file.",
-              });
-              break;
-            }
-          } catch (parseError) {
-            console.error("Failed to parse SSE data:", parseError, eventData);
-          }
-        }
-      }
-      // After the while loop, ensure final state is set if 'done' event wasn't received or processed
-      if (isGenerating) {
-          setIsGenerating(false);
-          toast({
-              variant: "destructive",
-              title: "Generation Interrupted",
-              description: "The streaming connection ended unexpectedly.",
-          });
+      const segData = await segRes.json().catch(() => ({}));
+      if (!segRes.ok || !segData?.ok) {
+        throw new Error(segData?.error || "Failed to split the transcript.");
       }
 
+      setSegments(segData.segments);
+      setSegmentQuestions(segData.questions);
     } catch (error) {
       const msg = error instanceof Error ? error.message : "An unexpected error occurred.";
       toast({
         variant: "destructive",
-        title: "Generation Failed",
+        title: "Split Failed",
         description: msg,
       });
-      setIsGenerating(false);
+    } finally {
+      setIsSegmenting(false);
     }
   }
 
-  // Step 2: Fill the DOCX with the generated JSON and download it
-  async function onDownload() {
-    if (!generatedReport) {
-      toast({
-        variant: "destructive",
-        title: "No Report Data",
-        description: "Please generate a report first before downloading.",
-      });
+  function storeVerification(unitCode: string, mainQuestionKey: string, questionVerification: QuestionVerification) {
+    setVerification(prev => ({
+      ...prev,
+      [unitCode]: { ...(prev[unitCode] || {}), [mainQuestionKey]: questionVerification },
+    }));
+  }
+
+  // Assessor edits replace the generated answer; edited example actions are re-checked against the transcript
+  function onEditQuestion(unitCode: string, mainQuestionKey: string, result: QuestionResult) {
+    setGeneratedReport((prev: any) => ({
+      ...(prev || {}),
+      [unitCode]: { ...(prev?.[unitCode] || {}), [mainQuestionKey]: result },
+    }));
+    const questionVerification = verifyQuestionEvidence(
+      reidentify(result, redactions),
+      applySpeakerRoles(form.getValues().transcript, speakerRoles)
+    );
+    storeVerification(unitCode, mainQuestionKey, questionVerification);
+    scheduleAnswerSave(unitCode, mainQuestionKey, result, questionVerification);
+  }
+
+  /** The assessor's redaction choices, sent with every generation request. */
+  function redactionRequest() {
+    return {
+      enabled: redactDetails,
+      terms: redactionTerms.split(/[,\n]/).map((term) => term.trim()).filter(Boolean),
+    };
+  }
+
+  // Step 1: Start a background generation job for the transcript
+  async function onGenerate(values: TranscriptFormValues) {
+    const speakerError = validateSpeakerRoles(speakerRoles);
+    if (speakerError) {
+      toast({ variant: "destructive", title: "Check the Speakers", description: speakerError });
       return;
     }
+    setIsGenerating(true);
+    // The report is kept, so answers of units outside this run stay in the editor and the document
+    setProcessingStatus({}); // Clear previous processing status
+    setAssessedUnits((prev) => Array.from(new Set([...prev, ...values.units])));
 
-    setIsDownloading(true);
     try {
-      const fillRes = await fetch("/api/fill-doc", {
+      // Save first so every answer is stored as it completes, even if this tab is closed
+      const id = await saveDraft().catch((error) => {
+        console.error("Autosave failed:", error);
+        return null;
+      });
+
+      const genRes = await fetch("/api/generate", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          studentName: form.getValues().studentName,
-          answers: generatedReport, // Use the JSON stored in state
+          ...values,
+          segments: segments ? toSegmentMap(segments) : undefined,
+          speakerRoles,
+          redaction: redactionRequest(),
+          reportId: id ?? undefined,
         }),
       });
 
-      if (!fillRes.ok) {
-        const err = await fillRes.json().catch(() => ({}));
-        throw new Error(err?.error || "Failed to create the DOCX file.");
+      const genData = await genRes.json().catch(() => ({}));
+      if (!genRes.ok || !genData?.ok) {
+        throw new Error(genData?.error || "Failed to start report generation.");
       }
 
-      const fillData = await fillRes.json();
-      if (!fillData?.ok || !fillData?.base64Docx) {
-        throw new Error("API response was missing the document data.");
-      }
+      followJob(genData.jobId);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "An unexpected error occurred.";
+      toast({
+        variant: "destructive",
+        title: "Generation Failed",
+        description: msg,
+      });
+      setIsGenerating(false);
+    }
+  }
 
-      downloadBase64Docx(fillData.base64Docx, fillData.filename);
+  function setQuestionStatus(unitCode: string, mainQuestionKey: string, status: QuestionStatus) {
+    setProcessingStatus(prev => ({
+      ...prev,
+      [unitCode]: { ...(prev[unitCode] || {}), [mainQuestionKey]: status },
+    }));
+  }
+
+  /**
+   * Follows a generation job's events. The browser reconnects on its own after a dropped connection,
+   * sending Last-Event-ID so the server replays only what was missed; a resumed job is replayed from the start.
+   */
+  function followJob(id: string) {
+    jobSourceRef.current?.close();
+    setJobId(id);
+    setIsGenerating(true);
+
+    const source = new EventSource(`/api/jobs/${id}/events`);
+    jobSourceRef.current = source;
+    const on = (eventType: string, handler: (data: any) => void) =>
+      source.addEventListener(eventType, (event) => {
+        try {
+          handler(JSON.parse((event as MessageEvent).data));
+        } catch (parseError) {
+          console.error("Failed to parse SSE data:", parseError, (event as MessageEvent).data);
+        }
+      });
 
+    const finish = (results: GeneratedReport | null) => {
+      source.close();
+      jobSourceRef.current = null;
+      setJobId(null);
+      setIsGenerating(false);
+      setIsCancelling(false);
+      setSavedListVersion((version) => version + 1);
+      if (results && Object.keys(results).length > 0) {
+        // Merge rather than replace, so answers of questions outside this run are kept
+        setGeneratedReport((prev: any) => {
+          const merged = { ...(prev || {}) };
+          for (const [unitCode, questions] of Object.entries(results)) {
+            merged[unitCode] = { ...(merged[unitCode] || {}), ...questions };
+          }
+          return merged;
+        });
+      }
+    };
+
+    on("queued", (data) => {
       toast({
-        title: "Download Successful",
-        description: `${fillData.filename} has been downloaded.`,
+        title: "Generation Queued",
+        description: `Other reports are being generated first; this one is number ${data.position} in the queue.`,
       });
-    } catch (error) {
-      const msg = error instanceof Error ? error.message : "An unexpected error occurred.";
+    });
+    on("redacted", (data) => setRedactions(data.redactions));
+    on("processing", (data) => setQuestionStatus(data.unitCode, data.mainQuestionKey, { status: 'processing' }));
+    on("retrying", (data) => {
+      setQuestionStatus(data.unitCode, data.mainQuestionKey, {
+        status: 'processing',
+        attempts: data.attempt,
+        message: `Retrying (attempt ${data.attempt + 1} of ${data.maxAttempts}): ${data.message}`,
+      });
+    });
+    on("completed", (data) => {
+      setQuestionStatus(data.unitCode, data.mainQuestionKey, {
+        status: 'completed',
+        promptTokens: data.budget?.totalTokens,
+        attempts: data.attempts,
+        outcome: data.result?.outcome,
+        justification: data.result?.outcome_justification,
+      });
+      if (data.verification) {
+        storeVerification(data.unitCode, data.mainQuestionKey, data.verification);
+      }
+    });
+    on("question-error", (data) => {
+      setQuestionStatus(data.unitCode, data.mainQuestionKey, { status: 'error', message: data.message, attempts: data.attempts });
       toast({
         variant: "destructive",
-        title: "Download Failed",
-        description: msg,
+        title: `Error for ${data.unitCode} - ${data.mainQuestionKey}`,
+        description: data.message || "An error occurred during generation.",
+      });
+    });
+    on("done", (data) => {
+      finish(data);
+      toast({
+        title: "Report Generated Successfully!",
+        description: "You can now review and edit the answers, then download the DOCX file.",
+      });
+    });
+    on("cancelled", (data) => {
+      finish(data);
+      toast({
+        title: "Generation Cancelled",
+        description: "Answers completed before cancelling have been kept.",
+      });
+    });
+    on("failed", (data) => {
+      finish(null);
+      toast({
+        variant: "destructive",
+        title: "Generation Failed",
+        description: data.message || "The generation job stopped unexpectedly.",
+      });
+    });
+
+    source.onerror = () => {
+      // While CONNECTING the browser is retrying by itself; CLOSED means the job cannot be followed
+      if (source.readyState === EventSource.CLOSED) {
+        finish(null);
+        toast({
+          variant: "destructive",
+          title: "Generation Interrupted",
+          description: "Lost the connection to the generation job.",
+        });
+      }
+    };
+  }
+
+  async function onCancelGeneration() {
+    if (!jobId) return;
+    setIsCancelling(true);
+    const res = await fetch(`/api/jobs/${jobId}/cancel`, { method: "POST" }).catch(() => null);
+    if (!res?.ok) {
+      setIsCancelling(false);
+      toast({
+        variant: "destructive",
+        title: "Could Not Cancel",
+        description: "The generation job could not be cancelled.",
       });
-    } finally {
-      setIsDownloading(false);
     }
   }
 
+  const regenerateQuestion = useQuestionRegeneration({
+    request: () => ({
+      studentName: form.getValues().studentName,
+      transcript: form.getValues().transcript,
+      segments: segments ? toSegmentMap(segments) : undefined,
+      speakerRoles,
+      redaction: redactionRequest(),
+      redactions,
+      qualification: form.getValues().qualification,
+      report: generatedReport,
+      reportId,
+    }),
+    onStatus: setQuestionStatus,
+    // Merge the regenerated answer into the report
+    onRegenerated: (unitCode, mainQuestionKey, regenerated) => {
+      setGeneratedReport((prev: any) => ({
+        ...(prev || {}),
+        [unitCode]: {
+          ...(prev?.[unitCode] || {}),
+          [mainQuestionKey]: regenerated.result,
+        },
+      }));
+      if (regenerated.verification) {
+        storeVerification(unitCode, mainQuestionKey, regenerated.verification);
+      }
+      if (regenerated.redactions) setRedactions(regenerated.redactions);
+    },
+  });
+
+  // Step 2: Fill the document with the reviewed report and download it
+  const download = useReportDownload({
+    qualification: form.watch("qualification"),
+    request: () => ({
+      studentName: form.getValues().studentName,
+      answers: generatedReport,
+      units: assessedUnits,
+      pronouns: form.getValues().pronouns,
+      customPronouns: form.getValues().customPronouns,
+      redactions,
+      qualification: form.getValues().qualification,
+      reportId,
+    }),
+    onDownloaded: () => setSavedListVersion((version) => version + 1),
+  });
+  const isDownloading = download.isDownloading;
+
   return (
     <Card className="w-full shadow-lg border-2 border-transparent hover:border-primary/20 transition-all duration-300">
       <CardHeader>
         <CardTitle className="font-headline text-2xl">Enter Student Details</CardTitle>
         <CardDescription>
-          First, generate the report data from the transcript. Then, download the completed DOCX file.
+          First, generate the report data from the transcript. Then, download the completed document as DOCX, PDF, HTML or Markdown.
         </CardDescription>
       </CardHeader>
       <CardContent>
+        <div className="mb-8">
+          <SavedReports
+            currentId={reportId}
+            refreshKey={savedListVersion}
+            onResume={(id) => resumeReport(id)}
+            onNew={startNewReport}
+            disabled={isGenerating || isDownloading}
+          />
+        </div>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onGenerate)} className="space-y-8">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-              {/* Student Name and Gender FormFields remain the same */}
+              {/* Student Name and Pronouns FormFields */}
                <FormField
                 control={form.control}
                 name="studentName"
@@ -260,47 +707,80 @@ export function TranscriptForm() {
                   </FormItem>
                 )}
               />
-              <FormField
-                control={form.control}
-                name="gender"
-                render={({ field }) => (
-                  <FormItem className="space-y-3">
-                    <FormLabel className="font-headline">Gender</FormLabel>
-                    <FormControl>
-                      <RadioGroup
-                        onValueChange={field.onChange}
-                        defaultValue={field.value}
-                        className="flex items-center space-x-6 pt-2"
-                      >
-                        <FormItem className="flex items-center space-x-3 space-y-0">
-                          <FormControl>
-                            <RadioGroupItem value="male" />
-                          </FormControl>
-                          <FormLabel className="font-normal font-body">Male</FormLabel>
-                        </FormItem>
-                        <FormItem className="flex items-center space-x-3 space-y-0">
-                          <FormControl>
-                            <RadioGroupItem value="female" />
-                          </FormControl>
-                          <FormLabel className="font-normal font-body">Female</FormLabel>
-                        </FormItem>
-                      </RadioGroup>
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              <PronounFields control={form.control} />
             </div>
-            
+
+            <FormField
+              control={form.control}
+              name="qualification"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-headline">Qualification</FormLabel>
+                  <FormControl>
+                    <QualificationSelect
+                      qualifications={qualifications}
+                      value={field.value}
+                      onChange={onQualificationChange}
+                      // A report's answers belong to its qualification's questions
+                      disabled={isGenerating || !!generatedReport}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="units"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="font-headline">Units to Assess</FormLabel>
+                  <FormControl>
+                    <UnitSelector
+                      units={availableUnits}
+                      value={field.value}
+                      onChange={field.onChange}
+                      disabled={isGenerating}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="transcript"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel className="font-headline">Transcript</FormLabel>
+                  <div className="flex items-center justify-between gap-2">
+                    <FormLabel className="font-headline">Transcript</FormLabel>
+                    <input
+                      ref={importInputRef}
+                      type="file"
+                      accept={TRANSCRIPT_FILE_TYPES}
+                      className="hidden"
+                      onChange={(event) => {
+                        const file = event.target.files?.[0];
+                        event.target.value = "";
+                        if (file) onImportTranscript(file);
+                      }}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => importInputRef.current?.click()}
+                      disabled={isImporting || isGenerating}
+                    >
+                      {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+                      Import File
+                    </Button>
+                  </div>
                   <FormControl>
                     <Textarea
-                      placeholder="Paste the full student transcript here..."
+                      placeholder="Paste the full student transcript here, or import a TXT, VTT, SRT or DOCX export from Zoom or Teams..."
                       className="min-h-[420px] resize-y font-body"
                       {...field}
                     />
@@ -310,7 +790,72 @@ export function TranscriptForm() {
               )}
             />
 
+            {speakers.detections.length > 0 && (
+              <SpeakerRoleMapping
+                detections={speakers.detections}
+                value={speakerRoles}
+                chosen={speakers.choices}
+                onChange={speakers.choose}
+                onConfirm={speakers.confirm}
+                disabled={isGenerating}
+              />
+            )}
+
+            <div className="space-y-2 rounded-md border p-4">
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="redact-details"
+                  checked={redactDetails}
+                  disabled={isGenerating}
+                  onCheckedChange={(checked) => setRedactDetails(checked === true)}
+                />
+                <Label htmlFor="redact-details" className="font-normal font-body">
+                  Redact names, contact details, addresses and Medicare / NDIS numbers before sending the transcript
+                </Label>
+              </div>
+              {redactDetails && (
+                <Input
+                  placeholder="Other names or terms to redact, separated by commas (e.g. the client's name)"
+                  value={redactionTerms}
+                  onChange={(event) => setRedactionTerms(event.target.value)}
+                  disabled={isGenerating}
+                  aria-label="Other names or terms to redact"
+                />
+              )}
+            </div>
+
+            {segments && (
+              <div className="p-6 bg-gray-100 dark:bg-gray-800 rounded-lg shadow-inner">
+                <h3 className="font-headline text-xl mb-1">Transcript Sections</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Each question will only be assessed against its section. Questions without a section use the full transcript.
+                </p>
+                <SegmentEditor segments={segments} questions={segmentQuestions} onChange={setSegments} />
+              </div>
+            )}
+
             <div className="flex flex-col sm:flex-row justify-end pt-4 gap-4">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onSegment}
+                disabled={isSegmenting || isGenerating || isDownloading}
+                className="w-full sm:w-auto"
+                size="lg"
+              >
+                {isSegmenting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Splitting…
+                  </>
+                ) : (
+                  <>
+                    <Scissors className="mr-2 h-4 w-4" />
+                    Split by Question
+                  </>
+                )}
+              </Button>
+
               <Button
                 type="submit"
                 disabled={isGenerating || isDownloading}
@@ -327,9 +872,63 @@ export function TranscriptForm() {
                 )}
               </Button>
 
+              {jobId && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={onCancelGeneration}
+                  disabled={isCancelling}
+                  className="w-full sm:w-auto"
+                  size="lg"
+                >
+                  {isCancelling ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Cancelling…
+                    </>
+                  ) : (
+                    <>
+                      <Ban className="mr-2 h-4 w-4" />
+                      Cancel
+                    </>
+                  )}
+                </Button>
+              )}
+
+              <Select
+                value={download.format}
+                onValueChange={(format) => download.setFormat(format as DocumentFormat)}
+                disabled={isDownloading}
+              >
+                <SelectTrigger className="h-11 w-full sm:w-[140px]" aria-label="Download format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DOCUMENT_FORMATS) as DocumentFormat[]).map((format) => (
+                    <SelectItem key={format} value={format}>{DOCUMENT_FORMATS[format].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {download.templates.length > 0 && (
+                <Select value={download.templateId} onValueChange={download.setTemplateId} disabled={isDownloading}>
+                  <SelectTrigger className="h-11 w-full sm:w-[220px]" aria-label="Template version">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Default template</SelectItem>
+                    {download.templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name} v{template.version}{template.isDefault ? " (default)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+
               <Button
                 type="button" // Important: prevents form submission
-                onClick={onDownload}
+                onClick={download.download}
                 disabled={!generatedReport || isGenerating || isDownloading}
                 className="w-full sm:w-auto bg-accent text-accent-foreground hover:bg-accent/90"
                 size="lg"
@@ -342,7 +941,7 @@ export function TranscriptForm() {
                 ) : (
                   <>
                     <Download className="mr-2 h-4 w-4" />
-                    Download DOCX
+                    Download {DOCUMENT_FORMATS[download.format].label}
                   </>
                 )}
               </Button>
@@ -350,38 +949,46 @@ export function TranscriptForm() {
           </form>
         </Form>
 
+        <CompletenessReport
+          check={download.completenessCheck}
+          onCancel={download.dismissCheck}
+          onDownload={download.downloadDocument}
+        />
+
+        {generatedReport && <UnverifiedEvidence report={generatedReport} verification={verification} />}
+
+        {generatedReport && <RedactionReport redactions={redactions} />}
+
         {generatedReport && (
           <div className="mt-8 p-6 bg-gray-100 dark:bg-gray-800 rounded-lg shadow-inner">
-            <h3 className="font-headline text-xl mb-4">Generated Report (JSON)</h3>
-            <pre className="bg-gray-50 dark:bg-gray-900 p-4 rounded-md overflow-auto text-sm">
-              <code>{JSON.stringify(generatedReport, null, 2)}</code>
-            </pre>
+            <h3 className="font-headline text-xl mb-4">Review Generated Report</h3>
+            <Tabs defaultValue="edit">
+              <TabsList className="mb-4">
+                <TabsTrigger value="edit">Edit Answers</TabsTrigger>
+                <TabsTrigger value="evidence">Evidence</TabsTrigger>
+              </TabsList>
+              <TabsContent value="edit">
+                <ReportEditor
+                  report={generatedReport}
+                  verification={verification}
+                  onChange={onEditQuestion}
+                  disabled={isGenerating || isDownloading}
+                />
+              </TabsContent>
+              <TabsContent value="evidence">
+                <EvidenceView transcript={transcriptValue} report={generatedReport} verification={verification} />
+              </TabsContent>
+            </Tabs>
           </div>
         )}
 
         {Object.keys(processingStatus).length > 0 && (
-          <div className="mt-8 p-6 bg-gray-100 dark:bg-gray-800 rounded-lg shadow-inner">
-            <h3 className="font-headline text-xl mb-4">LLM Processing Status</h3>
-            {Object.entries(processingStatus).map(([unitCode, questions]) => (
-              <div key={unitCode} className="mb-4">
-                <h4 className="font-semibold text-lg mb-2">{unitCode}</h4>
-                <ul className="space-y-2">
-                  {Object.entries(questions).map(([questionKey, statusData]) => (
-                    <li key={questionKey} className="flex items-center space-x-2">
-                      {statusData.status === 'processing' && <Loader2 className="h-4 w-4 animate-spin text-blue-500" />}
-                      {statusData.status === 'completed' && <CheckCircle className="h-4 w-4 text-green-500" />}
-                      {statusData.status === 'error' && <XCircle className="h-4 w-4 text-red-500" />}
-                      {statusData.status === 'idle' && <CircleDashed className="h-4 w-4 text-gray-500" />}
-                      <span className="font-body">
-                        Question {questionKey}: {statusData.status.charAt(0).toUpperCase() + statusData.status.slice(1)}
-                        {statusData.message && ` - ${statusData.message}`}
-                      </span>
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            ))}
-          </div>
+          <ProcessingStatus
+            status={processingStatus}
+            verification={verification}
+            onRegenerate={regenerateQuestion}
+            disabled={isGenerating || isDownloading}
+          />
         )}
       </CardContent>
     </Card>
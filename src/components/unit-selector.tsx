@@ -0,0 +1,65 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { UnitSummary } from "@/lib/assessment-schema";
+
+type UnitSelectorProps = {
+  units: UnitSummary[];
+  value: string[];
+  onChange: (units: string[]) => void;
+  disabled?: boolean;
+};
+
+/**
+ * Checkbox list of the units in schema.json, so only the units being assessed are generated.
+ */
+export function UnitSelector({ units, value, onChange, disabled }: UnitSelectorProps) {
+  function toggle(unitCode: string, checked: boolean) {
+    // Keep the selection in schema order regardless of click order
+    const next = new Set(value);
+    if (checked) next.add(unitCode);
+    else next.delete(unitCode);
+    onChange(units.map((u) => u.unitCode).filter((code) => next.has(code)));
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={disabled}
+          onClick={() => onChange(units.map((u) => u.unitCode))}
+        >
+          Select all
+        </Button>
+        <Button type="button" variant="outline" size="sm" disabled={disabled} onClick={() => onChange([])}>
+          Clear
+        </Button>
+        <span className="ml-auto self-center text-sm text-muted-foreground">
+          {value.length} of {units.length} selected
+        </span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {units.map((unit) => (
+          <div key={unit.unitCode} className="flex items-start space-x-3">
+            <Checkbox
+              id={`unit-${unit.unitCode}`}
+              checked={value.includes(unit.unitCode)}
+              disabled={disabled}
+              onCheckedChange={(checked) => toggle(unit.unitCode, checked === true)}
+            />
+            <Label htmlFor={`unit-${unit.unitCode}`} className="font-normal font-body leading-snug">
+              <span className="font-semibold">{unit.unitCode}</span>
+              {unit.title && <span className="text-muted-foreground"> – {unit.title}</span>}
+              <span className="text-muted-foreground"> ({unit.questionKeys.length} questions)</span>
+            </Label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
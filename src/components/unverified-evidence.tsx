@@ -0,0 +1,78 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import type { GeneratedReport } from "@/lib/generation";
+import type { QuoteStatus, ReportVerification } from "@/lib/quote-verification";
+
+type UnverifiedEvidenceProps = {
+  report: GeneratedReport;
+  verification: ReportVerification;
+};
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  verified: "Verified",
+  paraphrased: "Paraphrased",
+  other_speaker: "Not said by the student",
+  fabricated: "Not in transcript",
+  no_quote: "No quote",
+};
+
+/**
+ * Lists every example action whose quote could not be found in the transcript, so the assessor
+ * can correct or regenerate it before the document is downloaded.
+ */
+export function UnverifiedEvidence({ report, verification }: UnverifiedEvidenceProps) {
+  const entries = Object.entries(verification).flatMap(([unitCode, questions]) =>
+    Object.entries(questions).flatMap(([mainQuestionKey, criteria]) =>
+      Object.entries(criteria)
+        .filter(([, entry]) => entry.status !== "verified")
+        .map(([criterionKey, entry]) => ({
+          unitCode,
+          mainQuestionKey,
+          criterionKey,
+          entry,
+          exampleAction: report[unitCode]?.[mainQuestionKey]?.evaluation[criterionKey]?.example_action,
+        }))
+    )
+  );
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mt-8 rounded-lg border border-amber-400 bg-amber-50 p-6 dark:bg-amber-950">
+      <h3 className="mb-2 flex items-center gap-2 font-headline text-xl">
+        <AlertTriangle className="h-5 w-5 text-amber-500" />
+        Unverified Evidence
+      </h3>
+      <p className="mb-4 text-sm text-muted-foreground">
+        These example actions do not quote the transcript word for word. Check them before downloading.
+      </p>
+      <ul className="space-y-3">
+        {entries.map(({ unitCode, mainQuestionKey, criterionKey, entry, exampleAction }) => (
+          <li key={`${unitCode}-${mainQuestionKey}-${criterionKey}`} className="space-y-1">
+            <div className="flex flex-wrap items-center gap-2 text-sm font-semibold">
+              {unitCode} – Question {mainQuestionKey}, criterion {criterionKey}
+              <Badge variant={entry.status === "fabricated" ? "destructive" : "secondary"}>
+                {QUOTE_STATUS_LABELS[entry.status]}
+              </Badge>
+            </div>
+            {entry.quotes.length > 0 ? (
+              entry.quotes.filter((match) => match.status !== "verified").map((match, index) => (
+                <p key={index} className="text-sm">
+                  <mark className="bg-amber-200 dark:bg-amber-800">“{match.quote}”</mark>
+                  <span className="text-muted-foreground"> ({Math.round(match.score * 100)}% of words found)</span>
+                </p>
+              ))
+            ) : (
+              <p className="text-sm">
+                <mark className="bg-amber-200 dark:bg-amber-800">{exampleAction}</mark>
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import { useToast } from "@/hooks/use-toast";
+import type { QuestionStatus } from "@/components/processing-status";
+import type { GeneratedReport, QuestionResult } from "@/lib/generation";
+import type { QuestionVerification } from "@/lib/quote-verification";
+import type { Redaction } from "@/lib/redaction";
+import type { TranscriptSegments } from "@/lib/segment-map";
+import type { SpeakerRoles } from "@/lib/speaker-roles";
+
+/** The transcript and report a question is regenerated against. */
+export type RegenerationRequest = {
+  studentName: string;
+  transcript: string;
+  segments?: TranscriptSegments;
+  speakerRoles: SpeakerRoles;
+  redaction: { enabled: boolean; terms: string[] };
+  redactions: Redaction[];
+  qualification: string;
+  report: GeneratedReport | null;
+  reportId: string | null;
+};
+
+/** A regenerated answer, with its check against the transcript and the tokens issued while redacting. */
+export type RegeneratedQuestion = {
+  result: QuestionResult;
+  verification?: QuestionVerification;
+  redactions?: Redaction[];
+};
+
+type QuestionRegenerationOptions = {
+  /** Reads the current transcript and report when a regeneration starts. */
+  request: () => RegenerationRequest;
+  onStatus: (unitCode: string, mainQuestionKey: string, status: QuestionStatus) => void;
+  onRegenerated: (unitCode: string, mainQuestionKey: string, regenerated: RegeneratedQuestion) => void;
+};
+
+/** A failed regeneration, with how many attempts the server made. */
+class RegenerateError extends Error {
+  constructor(message: string, public readonly attempts?: number) {
+    super(message);
+    this.name = "RegenerateError";
+  }
+}
+
+/**
+ * Regenerates single questions of a report, optionally with assessor feedback, reporting progress through
+ * `onStatus` and handing the new answer to `onRegenerated` to merge into the report.
+ */
+export function useQuestionRegeneration({ request, onStatus, onRegenerated }: QuestionRegenerationOptions) {
+  const { toast } = useToast();
+
+  return async function regenerate(unitCode: string, mainQuestionKey: string, feedback: string) {
+    onStatus(unitCode, mainQuestionKey, { status: 'processing', message: 'Regenerating' });
+
+    try {
+      const { report, reportId, ...context } = request();
+      const regenRes = await fetch("/api/generate/question", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...context,
+          unitCode,
+          mainQuestionKey,
+          feedback: feedback.trim() || undefined,
+          previousResult: report?.[unitCode]?.[mainQuestionKey],
+          reportId: reportId ?? undefined,
+        }),
+      });
+
+      const regenData = await regenRes.json().catch(() => ({}));
+      if (!regenRes.ok || !regenData?.ok) {
+        throw new RegenerateError(regenData?.error || "Failed to regenerate the question.", regenData?.attempts);
+      }
+
+      onRegenerated(unitCode, mainQuestionKey, {
+        result: regenData.result,
+        verification: regenData.verification,
+        redactions: regenData.redactions,
+      });
+      onStatus(unitCode, mainQuestionKey, {
+        status: 'completed',
+        promptTokens: regenData.budget?.totalTokens,
+        attempts: regenData.attempts,
+        outcome: regenData.result?.outcome,
+        justification: regenData.result?.outcome_justification,
+      });
+      toast({
+        title: "Question Regenerated",
+        description: `${unitCode} - Question ${mainQuestionKey} has been updated.`,
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "An unexpected error occurred.";
+      onStatus(unitCode, mainQuestionKey, {
+        status: 'error',
+        message: msg,
+        attempts: error instanceof RegenerateError ? error.attempts : undefined,
+      });
+      toast({
+        variant: "destructive",
+        title: `Regeneration Failed for ${unitCode} - ${mainQuestionKey}`,
+        description: msg,
+      });
+    }
+  };
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { useToast } from "@/hooks/use-toast";
+import { DOCUMENT_FORMATS, type DocumentFormat } from "@/lib/document-formats";
+import type { CompletenessReport, MissingAnswerPolicy } from "@/lib/missing-answers";
+import type { GeneratedReport } from "@/lib/generation";
+import type { PronounOption, PronounSet } from "@/lib/pronouns";
+import type { Redaction } from "@/lib/redaction";
+import type { TemplateRecord } from "@/lib/storage/types";
+
+/** The reviewed report and the student details the document is filled with. */
+export type DownloadRequest = {
+  studentName: string;
+  answers: GeneratedReport | null;
+  units: string[];
+  pronouns: PronounOption;
+  customPronouns: PronounSet;
+  redactions: Redaction[];
+  qualification: string;
+  reportId: string | null;
+};
+
+type ReportDownloadOptions = {
+  /** The qualification being assessed; its template versions are offered for the document. */
+  qualification: string;
+  /** Reads the current report when a download starts. */
+  request: () => DownloadRequest;
+  onDownloaded: () => void;
+};
+
+/** Triggers the browser download of a base64 encoded document. */
+function downloadBase64Document(base64: string, filename: string, format: DocumentFormat) {
+  const binary = atob(base64);
+  const len = binary.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i += 1) bytes[i] = binary.charCodeAt(i);
+  const blob = new Blob([bytes], { type: DOCUMENT_FORMATS[format].mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename || `output.${DOCUMENT_FORMATS[format].extension}`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Downloads the filled document in the chosen format and template version. A report with missing answers is
+ * held back in `completenessCheck` until the assessor picks what to fill them with.
+ */
+export function useReportDownload({ qualification, request, onDownloaded }: ReportDownloadOptions) {
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [format, setFormat] = useState<DocumentFormat>("docx");
+  const [templates, setTemplates] = useState<TemplateRecord[]>([]);
+  // A library version to fill the document from; "default" uses the qualification's default template
+  const [templateId, setTemplateId] = useState("default");
+  // The questions a download would be missing, shown for review before the document is filled
+  const [completenessCheck, setCompletenessCheck] = useState<{ completeness: CompletenessReport; policy: MissingAnswerPolicy } | null>(null);
+  const { toast } = useToast();
+
+  // The template versions to pick from follow the qualification being assessed
+  useEffect(() => {
+    setTemplateId("default");
+    setTemplates([]);
+    if (!qualification) return;
+    fetch(`/api/templates?qualification=${encodeURIComponent(qualification)}`)
+      .then((res) => res.json())
+      .then((data) => {
+        if (data?.ok) setTemplates(data.templates);
+      })
+      .catch(() => undefined);
+  }, [qualification]);
+
+  // Checks the report for missing answers, then fills and downloads the document
+  async function download() {
+    const { answers, units, qualification } = request();
+    if (!answers) {
+      toast({
+        variant: "destructive",
+        title: "No Report Data",
+        description: "Please generate a report first before downloading.",
+      });
+      return;
+    }
+
+    setIsDownloading(true);
+    try {
+      const checkRes = await fetch("/api/fill-doc/completeness", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ answers, units, qualification }),
+      });
+      const checkData = await checkRes.json().catch(() => ({}));
+      if (!checkRes.ok || !checkData?.ok) throw new Error(checkData?.error || "Failed to check the report for missing answers.");
+
+      if (!checkData.completeness.complete) {
+        setCompletenessCheck({ completeness: checkData.completeness, policy: checkData.policy });
+        return;
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Download Failed",
+        description: error instanceof Error ? error.message : "An unexpected error occurred.",
+      });
+      return;
+    } finally {
+      setIsDownloading(false);
+    }
+    await downloadDocument();
+  }
+
+  /**
+   * Fills the document in the chosen format and downloads it.
+   * @param missingAnswers What to fill unanswered questions with; the server's policy when omitted.
+   */
+  async function downloadDocument(missingAnswers?: MissingAnswerPolicy) {
+    setCompletenessCheck(null);
+    setIsDownloading(true);
+    try {
+      const { reportId, ...details } = request();
+      const fillRes = await fetch("/api/fill-doc", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...details, // The reviewed report, including any edits
+          format,
+          templateId: templateId === "default" ? undefined : templateId,
+          missingAnswers,
+          reportId: reportId ?? undefined,
+        }),
+      });
+
+      if (!fillRes.ok) {
+        const err = await fillRes.json().catch(() => ({}));
+        throw new Error(err?.error || `Failed to create the ${DOCUMENT_FORMATS[format].label} file.`);
+      }
+
+      const fillData = await fillRes.json();
+      if (!fillData?.ok || !fillData?.base64Document) {
+        throw new Error("API response was missing the document data.");
+      }
+
+      downloadBase64Document(fillData.base64Document, fillData.filename, format);
+      onDownloaded();
+
+      toast({
+        title: "Download Successful",
+        description: `${fillData.filename} has been downloaded.`,
+      });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : "An unexpected error occurred.";
+      toast({
+        variant: "destructive",
+        title: "Download Failed",
+        description: msg,
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  }
+
+  return {
+    isDownloading,
+    format,
+    setFormat,
+    templates,
+    templateId,
+    setTemplateId,
+    completenessCheck,
+    /** Closes the missing-answer review without downloading. */
+    dismissCheck: () => setCompletenessCheck(null),
+    download,
+    downloadDocument,
+  };
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import {
+  detectSpeakerRoles, resolveSpeakerRoles, type SpeakerRole, type SpeakerRoles,
+} from "@/lib/speaker-roles";
+import { parseTranscriptText } from "@/lib/transcript-model";
+
+/**
+ * The speakers of a transcript with the role each one plays. Roles are suggested from the transcript and the
+ * student's name; the assessor's choices take precedence over the suggestions.
+ * @param transcript The transcript text as entered.
+ * @param studentName The student's name, used to recognise which speaker is the student.
+ */
+export function useSpeakerRoles(transcript: string, studentName: string) {
+  // Speaker roles the assessor has chosen or confirmed; other speakers use the detected role
+  const [choices, setChoices] = useState<SpeakerRoles | null>(null);
+
+  const detections = useMemo(
+    () => detectSpeakerRoles(parseTranscriptText(transcript), studentName),
+    [transcript, studentName]
+  );
+  const roles = useMemo(() => resolveSpeakerRoles(detections, choices), [detections, choices]);
+
+  return {
+    detections,
+    roles,
+    choices,
+    /** Replaces the assessor's choices, e.g. with those of a saved report. */
+    setChoices,
+    choose: (speaker: string, role: SpeakerRole) => setChoices((prev) => ({ ...(prev || {}), [speaker]: role })),
+    /** Accepts the roles in effect, suggestions included. */
+    confirm: () => setChoices(roles),
+  };
+}
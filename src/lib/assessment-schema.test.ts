@@ -0,0 +1,104 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+    AssessmentSchemaError, getCriterionKeys, getMainQuestion, listUnits, loadAssessmentSchema, parseAssessmentSchema,
+} from '@/lib/assessment-schema';
+
+const criterion = (question: string) => ({
+    question,
+    keyActions: 'Asks for consent.',
+    guidance: 'Look for a clear request.',
+    exampleAction: '"May I help you with that?"',
+    benchmarkAns: { desc: 'Asks first.', answer: 'The student asks for consent.' },
+});
+
+/** A valid schema with one unit of one question, with criteria numbered 1, 2 and 10. */
+function buildSchema() {
+    return {
+        CHCCCS038: {
+            assessment_guide: 'Comprehensive Role Play Scenario for Facilitating Empowerment Context Overview: ...',
+            '1': {
+                question: 'How do you support choice?',
+                rolePlayScenerio: {
+                    desc: 'Jo is choosing an activity.',
+                    'instruction for roleplay': {
+                        benchmarkAnsDesc: 'Covers consent and choice.',
+                        benchmarkConclusion: 'Competent.',
+                        '10': criterion('Reviews the plan'),
+                        '2': criterion('Offers options'),
+                        '1': criterion('Asks for consent'),
+                    },
+                },
+            },
+        },
+    } as Record<string, any>;
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('parseAssessmentSchema', () => {
+    it('accepts a valid schema without warnings', () => {
+        const { schema, warnings } = parseAssessmentSchema(buildSchema());
+        expect(warnings).toEqual([]);
+        expect(listUnits(schema)).toEqual([{ unitCode: 'CHCCCS038', title: 'Facilitating Empowerment', questionKeys: ['1'] }]);
+        const question = getMainQuestion(schema, 'CHCCCS038', '1')!;
+        expect(getCriterionKeys(question.rolePlayScenerio['instruction for roleplay'])).toEqual(['1', '2', '10']);
+        expect(getMainQuestion(schema, 'CHCCCS038', 'assessment_guide')).toBeUndefined();
+        expect(getMainQuestion(schema, 'CHCXXX000', '1')).toBeUndefined();
+    });
+
+    it('warns about a misspelled optional key, suggesting the known one', () => {
+        const raw = buildSchema();
+        const scenario = raw.CHCCCS038['1'].rolePlayScenerio;
+        scenario['Sample Conversaton'] = 'Jo: Hello.';
+        scenario['instruction for roleplay']['1'].notes = 'Extra.';
+
+        const { warnings } = parseAssessmentSchema(raw);
+        expect(warnings).toEqual([
+            "CHCCCS038 question 1 rolePlayScenerio: unknown key 'Sample Conversaton' (did you mean 'Sample Conversation'?)",
+            "CHCCCS038 question 1 criterion 1: unknown key 'notes'",
+        ]);
+    });
+
+    it('names a misspelled required key along with the structure errors it causes', () => {
+        const raw = buildSchema();
+        const question = raw.CHCCCS038['1'];
+        question.rolePlayScenario = question.rolePlayScenerio;
+        delete question.rolePlayScenerio;
+
+        expect(() => parseAssessmentSchema(raw)).toThrow(AssessmentSchemaError);
+        expect(() => parseAssessmentSchema(raw)).toThrow(expect.objectContaining({
+            message: expect.stringMatching(/^schema\.json does not match the expected structure\.\n {2}- /),
+            issues: expect.arrayContaining([
+                expect.stringMatching(/^CHCCCS038 > 1 > rolePlayScenerio: /),
+                "CHCCCS038 question 1: unknown key 'rolePlayScenario' (did you mean 'rolePlayScenerio'?)",
+            ]),
+        }));
+    });
+});
+
+describe('loadAssessmentSchema', () => {
+    it('keeps the file text, logs its warnings and rejects a file that is not JSON', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'assessment-schema-'));
+        try {
+            const raw = buildSchema();
+            raw.CHCCCS038['1'].rolePlayScenerio.Conclsion = 'Draft.';
+            const text = JSON.stringify(raw, null, 2);
+            await fs.writeFile(path.join(dir, 'schema.json'), text);
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+            const loaded = await loadAssessmentSchema(path.join(dir, 'schema.json'));
+            expect(loaded.text).toBe(text);
+            expect(warn).toHaveBeenCalledWith("Warning: schema.json: CHCCCS038 question 1 rolePlayScenerio: unknown key 'Conclsion' (did you mean 'Conclusion'?)");
+
+            await fs.writeFile(path.join(dir, 'broken.json'), '{ "CHCCCS038": ');
+            await expect(loadAssessmentSchema(path.join(dir, 'broken.json'))).rejects.toThrow(/^broken\.json is not valid JSON/);
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+});
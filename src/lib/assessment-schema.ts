@@ -0,0 +1,257 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+
+/**
+ * Typed model and loader for schema.json, the assessment guide that drives generation and DOCX filling.
+ *
+ * Structure: unit code -> { assessment_guide, "1": main question, "2": ... }, where each main question
+ * holds a `rolePlayScenerio` (sic — the misspelling is the canonical key) whose
+ * `instruction for roleplay` contains numbered benchmark criteria.
+ */
+
+export const SCHEMA_PATH = path.join(process.cwd(), 'schema.json');
+
+const BenchmarkAnsSchema = z.object({
+    desc: z.string(),
+    answer: z.string(),
+});
+
+const CriterionSchema = z.object({
+    question: z.string(),
+    keyActions: z.string(),
+    guidance: z.string(),
+    exampleAction: z.string(),
+    benchmarkAns: BenchmarkAnsSchema,
+});
+
+const InstructionsSchema = z.object({
+    benchmarkAnsDesc: z.string().optional(),
+    benchmarkConclusion: z.string().optional(),
+}).catchall(CriterionSchema);
+
+const RolePlayScenarioSchema = z.object({
+    desc: z.string(),
+    'instruction for roleplay': InstructionsSchema,
+    'Sample Conversation': z.string().optional(),
+    Conclusion: z.string().optional(),
+});
+
+const MainQuestionSchema = z.object({
+    question: z.string(),
+    rolePlayScenerio: RolePlayScenarioSchema,
+});
+
+const UnitSchema = z.object({
+    assessment_guide: z.string(),
+}).catchall(MainQuestionSchema);
+
+export const AssessmentSchemaModel = z.record(z.string(), UnitSchema);
+
+export type Criterion = z.infer<typeof CriterionSchema>;
+export type RoleplayInstructions = z.infer<typeof InstructionsSchema>;
+export type RolePlayScenario = z.infer<typeof RolePlayScenarioSchema>;
+export type MainQuestion = z.infer<typeof MainQuestionSchema>;
+export type AssessmentUnit = z.infer<typeof UnitSchema>;
+export type AssessmentSchema = z.infer<typeof AssessmentSchemaModel>;
+
+/**
+ * Raised when schema.json cannot be read or does not match the expected structure.
+ */
+export class AssessmentSchemaError extends Error {
+    constructor(message: string, public readonly issues: string[] = []) {
+        super(issues.length > 0 ? `${message}\n${issues.map(issue => `  - ${issue}`).join('\n')}` : message);
+        this.name = 'AssessmentSchemaError';
+    }
+}
+
+export interface LoadedAssessmentSchema {
+    schema: AssessmentSchema;
+    /** Non-fatal problems, such as unknown or likely misspelled keys. */
+    warnings: string[];
+    /** The schema file as written, when it was read from a file. */
+    text?: string;
+}
+
+// Keys each level may contain besides numbered entries; used to spot typos.
+const KNOWN_KEYS = {
+    unit: ['assessment_guide'],
+    question: ['question', 'rolePlayScenerio'],
+    scenario: ['desc', 'instruction for roleplay', 'Sample Conversation', 'Conclusion'],
+    instructions: ['benchmarkAnsDesc', 'benchmarkConclusion'],
+    criterion: ['question', 'keyActions', 'guidance', 'exampleAction', 'benchmarkAns'],
+};
+
+const isNumericKey = (key: string) => key.trim() !== '' && !isNaN(Number(key));
+
+/**
+ * Computes the edit distance between two strings, ignoring case and whitespace.
+ */
+function editDistance(a: string, b: string): number {
+    const s = a.toLowerCase().replace(/\s+/g, '');
+    const t = b.toLowerCase().replace(/\s+/g, '');
+    const row = Array.from({ length: t.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= s.length; i++) {
+        let diagonal = row[0];
+        row[0] = i;
+        for (let j = 1; j <= t.length; j++) {
+            const above = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (s[i - 1] === t[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return row[t.length];
+}
+
+/**
+ * Reports keys that are not part of the model, suggesting the closest known key for likely typos.
+ */
+function checkKeys(value: any, known: string[], location: string, allowNumeric: boolean, warnings: string[]) {
+    if (!value || typeof value !== 'object') return;
+    for (const key of Object.keys(value)) {
+        if (known.includes(key) || (allowNumeric && isNumericKey(key))) continue;
+        const suggestion = known.find(candidate => editDistance(key, candidate) <= 3);
+        warnings.push(suggestion
+            ? `${location}: unknown key '${key}' (did you mean '${suggestion}'?)`
+            : `${location}: unknown key '${key}'`);
+    }
+}
+
+/**
+ * Walks the raw schema and collects warnings for unknown or misspelled keys at every level.
+ */
+function collectKeyWarnings(raw: any): string[] {
+    const warnings: string[] = [];
+    for (const unitCode of Object.keys(raw || {})) {
+        const unit = raw[unitCode];
+        checkKeys(unit, KNOWN_KEYS.unit, unitCode, true, warnings);
+        for (const questionKey of Object.keys(unit || {}).filter(isNumericKey)) {
+            const question = unit[questionKey];
+            const location = `${unitCode} question ${questionKey}`;
+            checkKeys(question, KNOWN_KEYS.question, location, false, warnings);
+            const scenario = question?.rolePlayScenerio;
+            checkKeys(scenario, KNOWN_KEYS.scenario, `${location} rolePlayScenerio`, false, warnings);
+            const instructions = scenario?.['instruction for roleplay'];
+            checkKeys(instructions, KNOWN_KEYS.instructions, `${location} instructions`, true, warnings);
+            for (const criterionKey of Object.keys(instructions || {}).filter(isNumericKey)) {
+                checkKeys(instructions[criterionKey], KNOWN_KEYS.criterion, `${location} criterion ${criterionKey}`, false, warnings);
+            }
+        }
+    }
+    return warnings;
+}
+
+/**
+ * Validates a parsed schema.json object against the model.
+ * @param raw The parsed JSON.
+ * @returns The typed schema and any warnings.
+ * @throws AssessmentSchemaError if required fields are missing or have the wrong type.
+ */
+export function parseAssessmentSchema(raw: unknown): LoadedAssessmentSchema {
+    const warnings = collectKeyWarnings(raw);
+    const result = AssessmentSchemaModel.safeParse(raw);
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.join(' > ') || '(root)'}: ${issue.message}`);
+        throw new AssessmentSchemaError('schema.json does not match the expected structure.', [...issues, ...warnings]);
+    }
+    return { schema: result.data, warnings };
+}
+
+// Each qualification has its own schema file
+const cache = new Map<string, { mtimeMs: number; loaded: LoadedAssessmentSchema }>();
+
+/**
+ * Reads and validates schema.json, logging any warnings. The parsed result is cached until the file changes.
+ * @param filePath The schema file to load.
+ * @returns The typed schema and any warnings.
+ * @throws AssessmentSchemaError if the file cannot be read, is not JSON, or fails validation.
+ */
+export async function loadAssessmentSchema(filePath: string = SCHEMA_PATH): Promise<LoadedAssessmentSchema> {
+    let mtimeMs: number;
+    let text: string;
+    try {
+        mtimeMs = (await fs.stat(filePath)).mtimeMs;
+        const cached = cache.get(filePath);
+        if (cached && cached.mtimeMs === mtimeMs) {
+            return cached.loaded;
+        }
+        text = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+        throw new AssessmentSchemaError(`${path.basename(filePath)} could not be read: ${error.message}`);
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (error: any) {
+        throw new AssessmentSchemaError(`${path.basename(filePath)} is not valid JSON: ${error.message}`);
+    }
+
+    const loaded = { ...parseAssessmentSchema(raw), text };
+    for (const warning of loaded.warnings) {
+        console.warn(`Warning: ${path.basename(filePath)}: ${warning}`);
+    }
+    cache.set(filePath, { mtimeMs, loaded });
+    return loaded;
+}
+
+/**
+ * Lists the main question keys of a unit, in schema order.
+ * @param unit The unit entry.
+ * @returns Keys such as '1', '2', ...
+ */
+export function getQuestionKeys(unit: AssessmentUnit): string[] {
+    return Object.keys(unit).filter(isNumericKey);
+}
+
+/**
+ * Lists the numbered benchmark criteria keys of a question's instructions, in numeric order.
+ * @param instructions The `instruction for roleplay` object.
+ * @returns Keys such as '1', '2', ...
+ */
+export function getCriterionKeys(instructions: RoleplayInstructions): string[] {
+    return Object.keys(instructions).filter(isNumericKey).sort((a, b) => Number(a) - Number(b));
+}
+
+export interface UnitSummary {
+    unitCode: string;
+    /** Unit title taken from its assessment guide, or null if the guide does not state one. */
+    title: string | null;
+    questionKeys: string[];
+}
+
+const UNIT_TITLE_PATTERN = /Role Play Scenario for\s+(.+?)\s+Context Overview/i;
+
+/**
+ * Extracts a unit's title from the heading of its assessment guide,
+ * e.g. "Comprehensive Role Play Scenario for Working with Diverse People".
+ * @param unit The unit entry.
+ * @returns The title, or null if the guide has no heading.
+ */
+export function getUnitTitle(unit: AssessmentUnit): string | null {
+    const match = unit.assessment_guide.match(UNIT_TITLE_PATTERN);
+    return match ? match[1].trim() : null;
+}
+
+/**
+ * Summarises every unit in the schema for selection in the UI, in schema order.
+ * @param schema The assessment schema.
+ * @returns Unit code, title and question keys per unit.
+ */
+export function listUnits(schema: AssessmentSchema): UnitSummary[] {
+    return Object.keys(schema).map(unitCode => ({
+        unitCode,
+        title: getUnitTitle(schema[unitCode]),
+        questionKeys: getQuestionKeys(schema[unitCode]),
+    }));
+}
+
+/**
+ * Looks up a main question entry.
+ * @returns The question, or undefined if the unit or question does not exist.
+ */
+export function getMainQuestion(schema: AssessmentSchema, unitCode: string, mainQuestionKey: string): MainQuestion | undefined {
+    const unit = schema[unitCode];
+    if (!unit || !isNumericKey(mainQuestionKey)) return undefined;
+    return unit[mainQuestionKey] as MainQuestion | undefined;
+}
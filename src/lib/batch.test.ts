@@ -0,0 +1,50 @@
+import PizZip from 'pizzip';
+import { describe, expect, it } from 'vitest';
+import { collectBatchFiles, parsePronouns, planBatch } from '@/lib/batch';
+
+/** Builds a ZIP upload from file paths and their text. */
+function buildZip(name: string, files: Record<string, string>) {
+    const zip = new PizZip();
+    for (const [filePath, text] of Object.entries(files)) zip.file(filePath, text);
+    return { name, data: zip.generate({ type: 'nodebuffer' }) };
+}
+
+const transcript = (student: string) => `Assessor: Hello.\n${student}: Hi.`;
+
+describe('collectBatchFiles', () => {
+    it('keeps same-named files from different folders apart', () => {
+        const { transcripts } = collectBatchFiles([
+            buildZip('cohort.zip', { 'group-a/jane.txt': transcript('Jane'), 'group-b/jane.txt': transcript('Other Jane') }),
+        ]);
+        expect(transcripts.map(({ name }) => name)).toEqual(['group-a/jane.txt', 'group-b/jane.txt']);
+        expect(transcripts[1].text).toContain('Other Jane');
+    });
+
+    it('numbers a name that repeats across uploads', () => {
+        const { transcripts } = collectBatchFiles([
+            { name: 'jane.txt', data: Buffer.from(transcript('Jane')) },
+            buildZip('cohort.zip', { 'jane.txt': transcript('Other Jane') }),
+        ]);
+        expect(transcripts.map(({ name }) => name)).toEqual(['jane.txt', 'jane_2.txt']);
+    });
+});
+
+describe('planBatch', () => {
+    it('matches a manifest file column by the path inside the archive', () => {
+        const { entries } = planBatch([buildZip('cohort.zip', {
+            'manifest.csv': 'name,pronouns,file\nJane Citizen,she,group-b/jane.txt\n',
+            'group-a/jane.txt': transcript('Jane'),
+            'group-b/jane.txt': transcript('Other Jane'),
+        })]);
+        expect(entries).toEqual([expect.objectContaining({ studentName: 'Jane Citizen', pronouns: 'she', sourceFile: 'group-b/jane.txt' })]);
+    });
+});
+
+describe('parsePronouns', () => {
+    it('reads presets and custom sets', () => {
+        expect(parsePronouns('She/Her')).toEqual({ pronouns: 'she' });
+        expect(parsePronouns('')).toEqual({ pronouns: 'they' });
+        expect(parsePronouns('xe/xem/xyr/xyrs/xemself')?.pronouns).toBe('custom');
+        expect(parsePronouns('she/him')).toBeNull();
+    });
+});
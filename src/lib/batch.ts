@@ -0,0 +1,286 @@
+import path from 'path';
+import PizZip from 'pizzip';
+import { PRONOUN_PRESETS, PRONOUN_TOKENS, type PronounOption, type PronounSet } from '@/lib/pronouns';
+import { importTranscript, TRANSCRIPT_FILE_EXTENSIONS } from '@/lib/transcript-import';
+
+/**
+ * Turns a cohort upload — a ZIP or loose transcript files, plus an optional CSV manifest —
+ * into one entry per student, ready to be saved as reports and generated.
+ */
+
+export interface UploadedFile {
+    name: string;
+    data: Buffer;
+}
+
+export interface ManifestRow {
+    studentName: string;
+    pronouns: PronounOption;
+    customPronouns?: PronounSet;
+    /** Transcript file named in the manifest, if any. */
+    file?: string;
+    /** 1-based line in the CSV, for messages. */
+    line: number;
+}
+
+export interface BatchEntry {
+    studentName: string;
+    pronouns: PronounOption;
+    customPronouns?: PronounSet;
+    sourceFile: string;
+    transcript: string;
+}
+
+export interface BatchPlan {
+    entries: BatchEntry[];
+    /** Problems that did not stop the batch, such as files without a manifest row. */
+    warnings: string[];
+}
+
+// Accepted manifest headers, compared lower-case with spaces and underscores removed
+const NAME_HEADERS = ['name', 'student', 'studentname', 'learner', 'learnername'];
+const PRONOUN_HEADERS = ['pronouns', 'pronoun'];
+const FILE_HEADERS = ['file', 'filename', 'transcript', 'transcriptfile'];
+
+/**
+ * Parses CSV text into rows of fields. Handles quoted fields containing commas, quotes and line breaks.
+ * @param text The CSV text.
+ * @returns The rows, with blank lines dropped.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    const source = text.replace(/^\uFEFF/, '');
+    for (let index = 0; index < source.length; index++) {
+        const char = source[index];
+        if (quoted) {
+            if (char === '"' && source[index + 1] === '"') {
+                field += '"';
+                index++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[index + 1] === '\n') index++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    rows.push(row);
+
+    return rows.filter(fields => fields.some(value => value.trim()));
+}
+
+/**
+ * Reads a pronoun cell: he, she or they (alone or as e.g. "she/her"), or all five forms of a custom set
+ * separated by slashes, e.g. "xe/xem/xyr/xyrs/xemself". Blank means they/them.
+ * @returns The pronouns, or null if the cell cannot be understood.
+ */
+export function parsePronouns(value: string): { pronouns: PronounOption; customPronouns?: PronounSet } | null {
+    const parts = value.toLowerCase().split('/').map(part => part.trim()).filter(Boolean);
+    if (parts.length === 0) return { pronouns: 'they' };
+
+    const preset = (Object.keys(PRONOUN_PRESETS) as Array<keyof typeof PRONOUN_PRESETS>)
+        .find(option => parts.length <= 2 && parts[0] === option && (!parts[1] || parts[1] === PRONOUN_PRESETS[option].object));
+    if (preset) return { pronouns: preset };
+
+    const keys = Object.keys(PRONOUN_TOKENS) as Array<keyof PronounSet>;
+    if (parts.length === keys.length) {
+        return {
+            pronouns: 'custom',
+            customPronouns: Object.fromEntries(keys.map((key, index) => [key, parts[index]])) as unknown as PronounSet,
+        };
+    }
+    return null;
+}
+
+/**
+ * Parses a manifest CSV with a header row. A name column is required; pronouns and file columns are optional.
+ * @param text The CSV text.
+ * @returns The rows, and warnings for rows that were skipped or defaulted.
+ * @throws Error if there is no name column.
+ */
+export function parseManifest(text: string): { rows: ManifestRow[]; warnings: string[] } {
+    const [header = [], ...records] = parseCsv(text);
+    const columns = header.map(name => name.toLowerCase().replace(/[\s_]+/g, ''));
+    const nameColumn = columns.findIndex(name => NAME_HEADERS.includes(name));
+    const pronounColumn = columns.findIndex(name => PRONOUN_HEADERS.includes(name));
+    const fileColumn = columns.findIndex(name => FILE_HEADERS.includes(name));
+    if (nameColumn < 0) {
+        throw new Error("The manifest needs a header row with a 'name' column (optional columns: 'pronouns', 'file').");
+    }
+
+    const rows: ManifestRow[] = [];
+    const warnings: string[] = [];
+    records.forEach((record, index) => {
+        const line = index + 2;
+        const studentName = record[nameColumn]?.trim();
+        if (!studentName) {
+            warnings.push(`Manifest line ${line}: no student name; skipped.`);
+            return;
+        }
+
+        const pronounCell = pronounColumn >= 0 ? record[pronounColumn] ?? '' : '';
+        let pronouns = parsePronouns(pronounCell);
+        if (!pronouns) {
+            warnings.push(`Manifest line ${line}: pronouns '${pronounCell}' not recognised; using they/them.`);
+            pronouns = { pronouns: 'they' };
+        }
+
+        const file = fileColumn >= 0 ? record[fileColumn]?.trim() || undefined : undefined;
+        rows.push({ studentName, ...pronouns, file, line });
+    });
+    return { rows, warnings };
+}
+
+/**
+ * Collects transcripts and the manifest from the uploaded files, unpacking ZIP archives.
+ * Files inside an archive are named by their path in it, so same-named files in different folders stay apart;
+ * a name that still repeats, e.g. across two archives, gets a counter.
+ * @param files The uploaded files.
+ * @returns The transcripts by unique file name, the manifest text if one was included, and warnings for skipped files.
+ */
+export function collectBatchFiles(files: UploadedFile[]): {
+    transcripts: Array<{ name: string; text: string }>;
+    manifest: string | null;
+    warnings: string[];
+} {
+    const transcripts: Array<{ name: string; text: string }> = [];
+    const warnings: string[] = [];
+    let manifest: string | null = null;
+    const seen = new Set<string>();
+
+    const uniqueName = (name: string) => {
+        let unique = name;
+        for (let count = 2; seen.has(unique.toLowerCase()); count++) {
+            const { dir, name: stem, ext } = path.posix.parse(name);
+            unique = path.posix.join(dir, `${stem}_${count}${ext}`);
+        }
+        seen.add(unique.toLowerCase());
+        return unique;
+    };
+
+    const addFile = (name: string, read: () => Buffer) => {
+        const extension = path.extname(name).toLowerCase();
+        if (extension === '.csv') {
+            if (manifest !== null) {
+                warnings.push(`${name}: only one manifest is used; ignored.`);
+            } else {
+                manifest = read().toString('utf8');
+            }
+        } else if (TRANSCRIPT_FILE_EXTENSIONS.includes(extension)) {
+            try {
+                transcripts.push({ name: uniqueName(name), text: importTranscript(name, read()).text });
+            } catch (error: any) {
+                warnings.push(`${error.message} Skipped.`);
+            }
+        } else {
+            warnings.push(`${name}: unsupported file type; expected ${[...TRANSCRIPT_FILE_EXTENSIONS, '.csv', '.zip'].join(', ')}.`);
+        }
+    };
+
+    for (const file of files) {
+        if (path.extname(file.name).toLowerCase() !== '.zip') {
+            addFile(path.basename(file.name), () => file.data);
+            continue;
+        }
+
+        let zip: PizZip;
+        try {
+            zip = new PizZip(file.data);
+        } catch (error: any) {
+            warnings.push(`${file.name}: could not be read as a ZIP archive (${error.message}).`);
+            continue;
+        }
+        for (const entry of Object.values(zip.files)) {
+            // Skip folders and the metadata macOS adds to archives
+            if (entry.dir || entry.name.startsWith('__MACOSX/') || path.posix.basename(entry.name).startsWith('.')) continue;
+            addFile(entry.name.replace(/^\/+/, ''), () => Buffer.from(entry.asUint8Array()));
+        }
+    }
+
+    return { transcripts, manifest, warnings };
+}
+
+/**
+ * Reduces a file name or student name to lower-case letters and digits, so "Jane_Citizen.txt" matches "Jane Citizen".
+ */
+function matchKey(value: string): string {
+    return path.parse(value).name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Turns a file name into a student name, e.g. "jane_citizen.txt" becomes "jane citizen".
+ */
+function nameFromFile(name: string): string {
+    return path.parse(name).name.replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Pairs each student with a transcript. With a manifest, a row's file column is matched by file name,
+ * falling back to a file named after the student; without one, every transcript becomes a student
+ * named after its file, with they/them pronouns.
+ * @param files The uploaded files.
+ * @returns One entry per student, and every problem found along the way.
+ * @throws Error if the manifest cannot be parsed.
+ */
+export function planBatch(files: UploadedFile[]): BatchPlan {
+    const { transcripts, manifest, warnings } = collectBatchFiles(files);
+
+    if (manifest === null) {
+        return {
+            entries: transcripts.map(({ name, text }) => ({
+                studentName: nameFromFile(name) || name,
+                pronouns: 'they' as const,
+                sourceFile: name,
+                transcript: text,
+            })),
+            warnings: transcripts.length > 0
+                ? [...warnings, 'No manifest was uploaded; student names were taken from file names and pronouns default to they/them.']
+                : warnings,
+        };
+    }
+
+    const { rows, warnings: manifestWarnings } = parseManifest(manifest);
+    warnings.push(...manifestWarnings);
+
+    const unused = new Map(transcripts.map(transcript => [transcript.name, transcript]));
+    const entries: BatchEntry[] = [];
+    for (const row of rows) {
+        const key = matchKey(row.file || row.studentName);
+        const match = (row.file && unused.get(row.file))
+            || [...unused.values()].find(transcript => matchKey(transcript.name) === key);
+        if (!match) {
+            warnings.push(`Manifest line ${row.line}: no transcript found for ${row.studentName}${row.file ? ` (${row.file})` : ''}.`);
+            continue;
+        }
+        unused.delete(match.name);
+        entries.push({
+            studentName: row.studentName,
+            pronouns: row.pronouns,
+            customPronouns: row.customPronouns,
+            sourceFile: match.name,
+            transcript: match.text,
+        });
+    }
+    for (const name of unused.keys()) {
+        warnings.push(`${name}: not listed in the manifest; skipped.`);
+    }
+
+    return { entries, warnings };
+}
@@ -0,0 +1,68 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, runWithConcurrency } from '@/lib/concurrency';
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('runWithConcurrency', () => {
+    it('starts items in order with no more than the limit in flight', async () => {
+        const started: number[] = [];
+        let inFlight = 0;
+        let mostInFlight = 0;
+        await runWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+            started.push(index);
+            mostInFlight = Math.max(mostInFlight, ++inFlight);
+            await new Promise(resolve => setTimeout(resolve, delay));
+            inFlight--;
+        });
+        expect(started).toEqual([0, 1, 2, 3, 4]);
+        expect(mostInFlight).toBe(2);
+    });
+
+    it('runs one at a time for a limit below 1 and does nothing for no items', async () => {
+        let inFlight = 0;
+        let mostInFlight = 0;
+        await runWithConcurrency([1, 2, 3], 0, async () => {
+            mostInFlight = Math.max(mostInFlight, ++inFlight);
+            await Promise.resolve();
+            inFlight--;
+        });
+        expect(mostInFlight).toBe(1);
+
+        const worker = vi.fn(async () => undefined);
+        await runWithConcurrency([], 4, worker);
+        expect(worker).not.toHaveBeenCalled();
+    });
+});
+
+describe('createRateLimiter', () => {
+    it('spaces the calls of everyone sharing the limiter evenly', async () => {
+        vi.useFakeTimers();
+        // 120 a minute allows one call every 500ms
+        const acquire = createRateLimiter(120);
+        const begin = Date.now();
+        const passed: number[] = [];
+        const callers = [1, 2, 3].map(() => acquire().then(() => passed.push(Date.now() - begin)));
+
+        await vi.advanceTimersByTimeAsync(0);
+        expect(passed).toEqual([0]);
+        await vi.advanceTimersByTimeAsync(1000);
+        await Promise.all(callers);
+        expect(passed).toEqual([0, 500, 1000]);
+
+        // A caller arriving after a quiet spell does not wait
+        await vi.advanceTimersByTimeAsync(5000);
+        await acquire();
+        expect(Date.now() - begin).toBe(6000);
+    });
+
+    it('never waits without a positive rate', async () => {
+        vi.useFakeTimers();
+        for (const acquire of [createRateLimiter(), createRateLimiter(0)]) {
+            const begin = Date.now();
+            await Promise.all([acquire(), acquire(), acquire()]);
+            expect(Date.now()).toBe(begin);
+        }
+    });
+});
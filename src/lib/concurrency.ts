@@ -0,0 +1,51 @@
+/**
+ * Small helpers for running provider calls in parallel without exceeding provider limits.
+ */
+
+/**
+ * Runs a worker over every item with at most `limit` workers in flight at once.
+ * Workers are started in item order; the worker is responsible for handling its own errors.
+ * @param items The items to process.
+ * @param limit The maximum number of concurrent workers (values below 1 are treated as 1).
+ * @param worker The async function to run for each item.
+ */
+export async function runWithConcurrency<T>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+    let nextIndex = 0;
+    const poolSize = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+
+    const runNext = async (): Promise<void> => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            await worker(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: poolSize }, runNext));
+}
+
+/**
+ * Creates a limiter that spaces calls evenly so no more than `requestsPerMinute` start in any minute.
+ * @param requestsPerMinute The allowed request rate; if not positive, the limiter never waits.
+ * @returns A function to await before each request.
+ */
+export function createRateLimiter(requestsPerMinute?: number): () => Promise<void> {
+    if (!requestsPerMinute || requestsPerMinute <= 0) {
+        return async () => {};
+    }
+
+    const intervalMs = 60_000 / requestsPerMinute;
+    let nextSlot = 0;
+
+    return async () => {
+        const now = Date.now();
+        const slot = Math.max(now, nextSlot);
+        nextSlot = slot + intervalMs;
+        if (slot > now) {
+            await new Promise(resolve => setTimeout(resolve, slot - now));
+        }
+    };
+}
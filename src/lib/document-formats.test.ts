@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+    buildDocumentOutline, isDocumentFormat, renderHtml, renderMarkdown, splitQuotes, withFormatExtension, type TemplateQuestion,
+} from '@/lib/document-formats';
+
+const unanswered = (note: string): TemplateQuestion => ({
+    note, answered: false, criteria: [], conclusion: '', overallOutcome: '', justification: '',
+});
+
+const answered: TemplateQuestion = {
+    note: '',
+    answered: true,
+    criteria: [{
+        number: '1',
+        question: 'How did Jo <b>start</b>?',
+        performance: 'Jo read the *care plan*.',
+        action: splitQuotes('Jo said, "I check the <plan> first" and\n# then asked “Is that *ok*?”'),
+        outcome: 'Satisfactory (S)',
+    }, {
+        number: '2',
+        question: 'Consent',
+        performance: 'Not shown.',
+        action: [],
+        outcome: '',
+    }],
+    conclusion: 'Competent.',
+    overallOutcome: 'Not Yet Satisfactory (NYS)',
+    justification: 'Criterion 2 was not shown.',
+};
+
+const units = [
+    { unitCode: 'CHCCCS038', title: 'Facilitate the empowerment of people receiving support', questionKeys: ['1', '2'] },
+    { unitCode: 'CHCLEG001', title: null, questionKeys: ['1'] },
+];
+
+describe('withFormatExtension', () => {
+    it('swaps the DOCX extension for the format\'s own', () => {
+        expect(withFormatExtension('Jane Citizen_CHC33021.docx', 'pdf')).toBe('Jane Citizen_CHC33021.pdf');
+        expect(withFormatExtension('Jane Citizen_CHC33021.DOCX', 'md')).toBe('Jane Citizen_CHC33021.md');
+        expect(withFormatExtension('Jane Citizen_CHC33021', 'html')).toBe('Jane Citizen_CHC33021.html');
+        expect(isDocumentFormat('md')).toBe(true);
+        expect(isDocumentFormat('txt')).toBe(false);
+    });
+});
+
+describe('splitQuotes', () => {
+    it('sets straight and curly quotes apart from the text around them', () => {
+        expect(splitQuotes('Jo said, "I check the plan." Then “Is that ok?” she asked.')).toEqual([
+            { text: 'Jo said, ', quote: '' },
+            { text: '', quote: '"I check the plan."' },
+            { text: ' Then ', quote: '' },
+            { text: '', quote: '“Is that ok?”' },
+            { text: ' she asked.', quote: '' },
+        ]);
+    });
+
+    it('leaves an unmatched quotation mark in the text', () => {
+        expect(splitQuotes('Jo said "I check')).toEqual([{ text: 'Jo said "I check', quote: '' }]);
+        expect(splitQuotes('')).toEqual([]);
+    });
+});
+
+describe('buildDocumentOutline', () => {
+    it('keeps every unit in schema order with only the questions that have a value', () => {
+        const outline = buildDocumentOutline('CHC33021', 'Jane Citizen', {
+            CHCLEG001_1: unanswered('Not assessed.'),
+            CHCCCS038_2: unanswered('Pending.'),
+            student_name: 'Jane Citizen',
+        }, units);
+
+        expect(outline.units.map(unit => [unit.unitCode, unit.questions.map(question => question.questionKey)]))
+            .toEqual([['CHCCCS038', ['2']], ['CHCLEG001', ['1']]]);
+        expect(outline.units[1].questions[0].value.note).toBe('Not assessed.');
+    });
+});
+
+describe('renderHtml', () => {
+    it('escapes every value so answers cannot inject markup', () => {
+        const outline = buildDocumentOutline('CHC33021 <Cert III>', 'Jo "JJ" O\'Neil & co', {
+            CHCCCS038_1: unanswered('Used <b>gloves</b> & "washed" hands.\nThen left.\n\nNext visit.'),
+        }, units);
+        const html = renderHtml(outline);
+
+        expect(html).toContain('<title>Jo &quot;JJ&quot; O\'Neil &amp; co – CHC33021 &lt;Cert III&gt;</title>');
+        expect(html).toContain('<h1>CHC33021 &lt;Cert III&gt;</h1>');
+        expect(html).toContain('<h2>CHCCCS038 – Facilitate the empowerment of people receiving support</h2>');
+        expect(html).toContain('<h2>CHCLEG001</h2>');
+        expect(html).toContain('<p>Used &lt;b&gt;gloves&lt;/b&gt; &amp; &quot;washed&quot; hands.<br>\nThen left.</p>\n<p>Next visit.</p>');
+        expect(html).not.toContain('<b>');
+    });
+
+    it('lays out each criterion with bold labels and italic quotes', () => {
+        const html = renderHtml(buildDocumentOutline('CHC33021', 'Jo', { CHCCCS038_1: answered }, units));
+
+        expect(html).toContain([
+            '<h3>Question 1</h3>',
+            '<p><strong>1. How did Jo &lt;b&gt;start&lt;/b&gt;?</strong></p>',
+            '<p><strong>Performance to Observe:</strong> Jo read the *care plan*.</p>',
+            '<p><strong>Example Action:</strong> Jo said, <em>&quot;I check the &lt;plan&gt; first&quot;</em> and<br>\n# then asked <em>“Is that *ok*?”</em></p>',
+            '<p><strong>Outcome:</strong> Satisfactory (S)</p>',
+            '<p><strong>2. Consent</strong></p>',
+            '<p><strong>Performance to Observe:</strong> Not shown.</p>',
+            '<p><strong>Example Action:</strong> </p>',
+            '<p><strong>Conclusion</strong></p>',
+            '<p>Competent.</p>',
+            '<p><strong>Overall Outcome:</strong> Not Yet Satisfactory (NYS)</p>',
+            '<p>Criterion 2 was not shown.</p>',
+        ].join('\n'));
+    });
+});
+
+describe('renderMarkdown', () => {
+    it('escapes emphasis, inline HTML and lines that would start a heading, list or quote', () => {
+        const outline = buildDocumentOutline('CHC33021', 'Jo_Smith *', {
+            CHCCCS038_1: unanswered('# Not a heading\n- not a list\n+ nor this\n1. nor a numbered list\n> nor a quote\nUsed <b>gloves</b> with [care](x) and `code`.'),
+        }, units);
+        const markdown = renderMarkdown(outline);
+
+        expect(markdown).toContain('**Student:** Jo\\_Smith \\*');
+        expect(markdown).toContain('## CHCCCS038 – Facilitate the empowerment of people receiving support');
+        expect(markdown).toContain([
+            '\\# Not a heading',
+            '\\- not a list',
+            '\\+ nor this',
+            '1\\. nor a numbered list',
+            '\\> nor a quote',
+            'Used \\<b\\>gloves\\</b\\> with \\[care\\](x) and \\`code\\`.',
+        ].join('  \n'));
+    });
+
+    it('lays out each criterion with bold labels and italic quotes', () => {
+        const markdown = renderMarkdown(buildDocumentOutline('CHC33021', 'Jo', { CHCCCS038_1: answered }, units));
+
+        expect(markdown).toContain([
+            '### Question 1',
+            '**1. How did Jo \\<b\\>start\\</b\\>?**',
+            '**Performance to Observe:** Jo read the \\*care plan\\*.',
+            '**Example Action:** Jo said, *"I check the \\<plan\\> first"* and  \n\\# then asked *“Is that \\*ok\\*?”*',
+            '**Outcome:** Satisfactory (S)',
+            '**2. Consent**',
+            '**Performance to Observe:** Not shown.',
+            '**Example Action:** ',
+            '**Conclusion**',
+            'Competent.',
+            '**Overall Outcome:** Not Yet Satisfactory (NYS)',
+            'Criterion 2 was not shown.',
+        ].join('\n\n'));
+    });
+});
@@ -0,0 +1,219 @@
+import type { UnitSummary } from '@/lib/assessment-schema';
+
+/**
+ * The formats a filled assessment can be downloaded in. DOCX is the filled template itself; PDF is that
+ * DOCX converted on the server; HTML and Markdown are rendered from the same placeholder values, laid out
+ * unit by unit, for systems that cannot take a Word document.
+ */
+
+export type DocumentFormat = 'docx' | 'pdf' | 'html' | 'md';
+
+export const DOCUMENT_FORMATS: Record<DocumentFormat, { label: string; extension: string; mimeType: string }> = {
+    docx: { label: 'DOCX', extension: 'docx', mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+    pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' },
+    html: { label: 'HTML', extension: 'html', mimeType: 'text/html' },
+    md: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+};
+
+export const isDocumentFormat = (value: unknown): value is DocumentFormat =>
+    typeof value === 'string' && value in DOCUMENT_FORMATS;
+
+/**
+ * Gives a document filename the extension of a format.
+ * @param filename e.g. `Jane Citizen_CHC33021.docx`
+ * @returns e.g. `Jane Citizen_CHC33021.pdf`
+ */
+export function withFormatExtension(filename: string, format: DocumentFormat): string {
+    return `${filename.replace(/\.docx$/i, '')}.${DOCUMENT_FORMATS[format].extension}`;
+}
+
+/** A run of answer text, split so quoted words can be set in italics. Exactly one of the two is non-empty. */
+export interface TemplateTextPart {
+    text: string;
+    quote: string;
+}
+
+/** One benchmark criterion of a question, as filled into the template's criteria loop. */
+export interface TemplateCriterion {
+    /** The criterion's number in the Assessment Guide. */
+    number: string;
+    question: string;
+    performance: string;
+    action: TemplateTextPart[];
+    /** e.g. `Satisfactory (S)`; empty when the criterion has no outcome. */
+    outcome: string;
+}
+
+/**
+ * The value of one question's placeholder, e.g. `CHCCCS038_1`. The template renders `note` in place of an
+ * answer when it is set, and the criteria, conclusion and outcome when `answered` is true.
+ */
+export interface TemplateQuestion {
+    note: string;
+    answered: boolean;
+    criteria: TemplateCriterion[];
+    conclusion: string;
+    /** e.g. `Satisfactory (S)`; empty when the question has no overall outcome. */
+    overallOutcome: string;
+    justification: string;
+}
+
+/**
+ * Splits text around the words it quotes, so the quotes can be set apart.
+ * @returns e.g. `Jo said, ` and `"I check the plan."`
+ */
+export function splitQuotes(text: string): TemplateTextPart[] {
+    return text
+        .split(/("[^"]*"|“[^”]*”)/)
+        .filter(Boolean)
+        .map(part => (/^["“]/.test(part) && part.length > 1 ? { text: '', quote: part } : { text: part, quote: '' }));
+}
+
+/** A question of a unit with its placeholder value. */
+export interface DocumentQuestion {
+    questionKey: string;
+    value: TemplateQuestion;
+}
+
+export interface DocumentUnit {
+    unitCode: string;
+    title: string | null;
+    questions: DocumentQuestion[];
+}
+
+/** The filled placeholders of one student's document, in schema order. */
+export interface DocumentOutline {
+    /** e.g. `CHC33021 Certificate III in Individual Support (Disability)` */
+    title: string;
+    studentName: string;
+    units: DocumentUnit[];
+}
+
+/**
+ * Arranges the placeholder values filled into the DOCX template by unit and question.
+ * @param title The qualification's code and title.
+ * @param studentName The student's name.
+ * @param data Placeholder values keyed like `CHCCCS038_1`.
+ * @param units The qualification's units, in schema order.
+ * @returns Every unit, with the questions that have a value.
+ */
+export function buildDocumentOutline(title: string, studentName: string, data: Record<string, unknown>, units: UnitSummary[]): DocumentOutline {
+    return {
+        title,
+        studentName,
+        units: units.map(({ unitCode, title: unitTitle, questionKeys }) => ({
+            unitCode,
+            title: unitTitle,
+            questions: questionKeys
+                .filter(questionKey => data[`${unitCode}_${questionKey}`] !== undefined)
+                .map(questionKey => ({ questionKey, value: data[`${unitCode}_${questionKey}`] as TemplateQuestion })),
+        })),
+    };
+}
+
+const unitHeading = (unit: DocumentUnit) => (unit.title ? `${unit.unitCode} – ${unit.title}` : unit.unitCode);
+
+const escapeHtml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Renders a document as a standalone HTML page with inline styles, for upload to an LMS.
+ * Blank lines in an answer start a new paragraph; single line breaks are kept.
+ */
+export function renderHtml(outline: DocumentOutline): string {
+    const lines = (text: string) => escapeHtml(text.trim()).replace(/\n/g, '<br>\n');
+    const paragraphs = (text: string) => text
+        .split(/\n{2,}/)
+        .map(paragraph => `<p>${lines(paragraph)}</p>`)
+        .join('\n');
+    const labelled = (label: string, html: string) => `<p><strong>${label}</strong> ${html}</p>`;
+
+    const question = ({ note, answered, criteria, conclusion, overallOutcome, justification }: TemplateQuestion) => [
+        note && paragraphs(note),
+        ...(answered ? [
+            ...criteria.flatMap(criterion => [
+                `<p><strong>${escapeHtml(criterion.number)}. ${lines(criterion.question)}</strong></p>`,
+                labelled('Performance to Observe:', lines(criterion.performance)),
+                labelled('Example Action:', criterion.action.map(part => part.quote ? `<em>${lines(part.quote)}</em>` : escapeHtml(part.text).replace(/\n/g, '<br>\n')).join('')),
+                criterion.outcome && labelled('Outcome:', escapeHtml(criterion.outcome)),
+            ]),
+            '<p><strong>Conclusion</strong></p>',
+            paragraphs(conclusion),
+            overallOutcome && labelled('Overall Outcome:', escapeHtml(overallOutcome)),
+            justification && paragraphs(justification),
+        ] : []),
+    ].filter(Boolean).join('\n');
+
+    const units = outline.units.map(unit => [
+        `<section>`,
+        `<h2>${escapeHtml(unitHeading(unit))}</h2>`,
+        ...unit.questions.map(({ questionKey, value }) => `<h3>Question ${escapeHtml(questionKey)}</h3>\n${question(value)}`),
+        `</section>`,
+    ].join('\n'));
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${outline.studentName} – ${outline.title}`)}</title>
+<style>
+body { font-family: Arial, Helvetica, sans-serif; line-height: 1.5; max-width: 50rem; margin: 2rem auto; padding: 0 1rem; color: #1a1a1a; }
+h1 { font-size: 1.6rem; }
+h2 { font-size: 1.3rem; border-bottom: 1px solid #ccc; padding-bottom: 0.25rem; margin-top: 2rem; }
+h3 { font-size: 1.1rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(outline.title)}</h1>
+<p><strong>Student:</strong> ${escapeHtml(outline.studentName)}</p>
+${units.join('\n')}
+</body>
+</html>
+`;
+}
+
+// Characters that would otherwise be read as emphasis, links, inline HTML or code
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+/**
+ * Renders a document as Markdown. Lines that would start a heading, list or quote are escaped,
+ * and single line breaks are kept as hard breaks.
+ */
+export function renderMarkdown(outline: DocumentOutline): string {
+    const escapeLine = (line: string) => escapeMarkdown(line)
+        .replace(/^(#|[-+]\s)/, '\\$1')
+        .replace(/^(\d+)([.)]\s)/, '$1\\$2');
+    const lines = (text: string) => text.trim().split('\n').map(line => escapeLine(line.trimEnd())).join('  \n');
+    // Text around a quote keeps its spaces, which separate it from the quote
+    const inline = (text: string) => text.split('\n').map(escapeLine).join('  \n');
+    const block = (text: string) => text.split(/\n{2,}/).map(lines).join('\n\n');
+
+    const question = ({ note, answered, criteria, conclusion, overallOutcome, justification }: TemplateQuestion) => [
+        note && block(note),
+        ...(answered ? [
+            ...criteria.flatMap(criterion => [
+                `**${escapeMarkdown(criterion.number)}. ${lines(criterion.question)}**`,
+                `**Performance to Observe:** ${lines(criterion.performance)}`,
+                `**Example Action:** ${criterion.action.map(part => part.quote ? `*${lines(part.quote)}*` : inline(part.text)).join('')}`,
+                criterion.outcome && `**Outcome:** ${escapeMarkdown(criterion.outcome)}`,
+            ]),
+            '**Conclusion**',
+            block(conclusion),
+            overallOutcome && `**Overall Outcome:** ${escapeMarkdown(overallOutcome)}`,
+            justification && block(justification),
+        ] : []),
+    ].filter(Boolean).join('\n\n');
+
+    const output = [
+        `# ${escapeMarkdown(outline.title)}`,
+        '',
+        `**Student:** ${escapeMarkdown(outline.studentName)}`,
+    ];
+    for (const unit of outline.units) {
+        output.push('', `## ${escapeMarkdown(unitHeading(unit))}`);
+        for (const { questionKey, value } of unit.questions) {
+            output.push('', `### Question ${questionKey}`, '', question(value));
+        }
+    }
+    return `${output.join('\n')}\n`;
+}
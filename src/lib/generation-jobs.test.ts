@@ -0,0 +1,142 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from '@/lib/llm/mock';
+import type { GenerateJsonRequest, LlmProvider } from '@/lib/llm';
+import { getQualification, loadQualificationSchema } from '@/lib/qualifications';
+import { getReportStore, type JobEvent } from '@/lib/storage';
+import { cancelGenerationJob, startGenerationJob, subscribeToJob, type GenerationJobInput } from '@/lib/generation-jobs';
+
+process.env.DATABASE_PATH = ':memory:';
+process.env.LLM_RETRY_BASE_DELAY_MS = '0';
+
+const mock = createMockProvider({ fixturesDir: '/nonexistent' });
+let input: Omit<GenerationJobInput, 'provider'>;
+
+beforeAll(async () => {
+    const qualification = await getQualification();
+    const { schema } = await loadQualificationSchema(qualification);
+    input = {
+        schema,
+        persona: qualification,
+        transcript: 'Assessor: How do you start?\nStudent: I would read the care plan first.',
+        units: ['CHCCCS038'],
+        questions: { CHCCCS038: ['1'] },
+    };
+});
+
+afterEach(() => {
+    vi.unstubAllEnvs();
+});
+
+/** A provider whose calls wait until `release` is called, then answer like the mock provider. */
+function heldProvider() {
+    let release = () => {};
+    const released = new Promise<void>(resolve => (release = resolve));
+    const provider: LlmProvider = {
+        ...mock,
+        async generateJson(request: GenerateJsonRequest) {
+            await released;
+            return mock.generateJson(request);
+        },
+    };
+    return { provider, release };
+}
+
+const eventNames = async (jobId: string) => (await getReportStore().listJobEvents(jobId)).map(({ event }) => event);
+
+/** Waits until the job has recorded one of the events that end it. */
+const finished = (jobId: string) => vi.waitFor(async () => {
+    expect(await eventNames(jobId)).toEqual(expect.arrayContaining([expect.stringMatching(/^(done|cancelled|failed)$/)]));
+});
+
+describe('startGenerationJob', () => {
+    it('queues jobs beyond the running limit and starts them in order', async () => {
+        const first = heldProvider();
+        const running = await startGenerationJob({ ...input, provider: first.provider });
+        const queued = await startGenerationJob({ ...input, provider: mock });
+        const last = await startGenerationJob({ ...input, provider: mock });
+
+        expect(await eventNames(running.id)).not.toContain('queued');
+        expect((await getReportStore().listJobEvents(last.id))[0]).toMatchObject({ event: 'queued', data: { position: 2 } });
+        expect((await getReportStore().getJob(queued.id))?.status).toBe('queued');
+
+        first.release();
+        await finished(last.id);
+        expect(await eventNames(queued.id)).toEqual(['queued', 'processing', 'completed', 'done']);
+        expect((await getReportStore().getJob(last.id))?.status).toBe('completed');
+    });
+
+    it('records a retry before the attempt that follows it', async () => {
+        let calls = 0;
+        const provider: LlmProvider = {
+            ...mock,
+            async generateJson(request) {
+                calls++;
+                if (calls === 1) throw Object.assign(new Error('Service unavailable'), { status: 503 });
+                return mock.generateJson(request);
+            },
+        };
+        const job = await startGenerationJob({ ...input, provider });
+        await finished(job.id);
+
+        const events = await getReportStore().listJobEvents(job.id);
+        expect(events.map(({ event }) => event)).toEqual(['processing', 'retrying', 'completed', 'done']);
+        expect(events[1].data).toMatchObject({ unitCode: 'CHCCCS038', mainQuestionKey: '1', attempt: 1, message: 'Service unavailable' });
+        expect(events[2].data).toMatchObject({ attempts: 2 });
+    });
+
+    it('stores every event it publishes, so a client can replay what it missed', async () => {
+        const held = heldProvider();
+        const job = await startGenerationJob({ ...input, provider: held.provider });
+        const live: JobEvent[] = [];
+        expect(subscribeToJob(job.id, event => live.push(event))).not.toBeNull();
+
+        held.release();
+        await finished(job.id);
+        const stored = await getReportStore().listJobEvents(job.id);
+        expect(live).toEqual(stored);
+        expect(await getReportStore().listJobEvents(job.id, stored[1].id)).toEqual(stored.slice(2));
+        // A finished job is only replayed from the store
+        expect(subscribeToJob(job.id, () => undefined)).toBeNull();
+    });
+});
+
+describe('cancelGenerationJob', () => {
+    it('frees a queued job at once and tells its listeners', async () => {
+        vi.stubEnv('GENERATION_MAX_CONCURRENT_JOBS', '2');
+        const held = heldProvider();
+        const running = await startGenerationJob({ ...input, provider: held.provider });
+        await startGenerationJob({ ...input, provider: held.provider });
+        const queued = await startGenerationJob({ ...input, provider: mock });
+        const live: string[] = [];
+        subscribeToJob(queued.id, ({ event }) => live.push(event));
+
+        expect(cancelGenerationJob(queued.id)).toBe(true);
+        expect(subscribeToJob(queued.id, () => undefined)).toBeNull();
+        expect(cancelGenerationJob(queued.id)).toBe(false);
+        // With room for a third job, the next one starts: the cancelled job no longer counts as running
+        vi.stubEnv('GENERATION_MAX_CONCURRENT_JOBS', '3');
+        const next = await startGenerationJob({ ...input, provider: mock });
+        expect(await eventNames(next.id)).not.toContain('queued');
+
+        await vi.waitFor(() => expect(live).toEqual(['cancelled']));
+        expect((await getReportStore().getJob(queued.id))?.status).toBe('cancelled');
+        expect(await eventNames(queued.id)).toEqual(['queued', 'cancelled']);
+
+        held.release();
+        await finished(next.id);
+        await finished(running.id);
+    });
+
+    it('keeps the answers a running job finished before it was cancelled', async () => {
+        const held = heldProvider();
+        const job = await startGenerationJob({ ...input, provider: held.provider, questions: { CHCCCS038: ['1', '2'] }, concurrency: 1 });
+        await vi.waitFor(async () => expect(await eventNames(job.id)).toContain('processing'));
+
+        expect(cancelGenerationJob(job.id)).toBe(true);
+        held.release();
+        await finished(job.id);
+        const events = await getReportStore().listJobEvents(job.id);
+        expect(events.map(({ event }) => event)).toEqual(['processing', 'completed', 'cancelled']);
+        expect(Object.keys((events[2].data as Record<string, object>).CHCCCS038)).toEqual(['1']);
+    });
+});
@@ -0,0 +1,258 @@
+import type { LlmProvider } from '@/lib/llm';
+import type { AssessmentSchema } from '@/lib/assessment-schema';
+import type { TranscriptSegments } from '@/lib/segment-map';
+import type { AssessorPersona } from '@/lib/prompt-builder';
+import { generateQuestion, listQuestionTasks, type GeneratedReport, type QuestionFilter, type QuestionResult } from '@/lib/generation';
+import { runWithConcurrency } from '@/lib/concurrency';
+import { getRetryPolicy } from '@/lib/retry';
+import { countUnverified, verifyQuestionEvidence } from '@/lib/quote-verification';
+import { getReportStore, type JobEvent, type JobRecord, type ReportStore } from '@/lib/storage';
+import { applySpeakerRoles, applySpeakerRolesToSegments, type SpeakerRoles } from '@/lib/speaker-roles';
+import { listSpeakerNames, redactTranscript, reidentify, type Redaction, type RedactionOptions } from '@/lib/redaction';
+
+/**
+ * Runs report generation as a server-side job that outlives the HTTP request which started it.
+ * Every progress event is stored before it is published, so a client that reconnects can replay
+ * whatever it missed from the store and then follow the live events.
+ *
+ * At most `GENERATION_MAX_CONCURRENT_JOBS` jobs (default 1) run at once, so a batch of students
+ * shares the provider's rate limit instead of each job claiming its own; the rest wait in order.
+ */
+
+/** Events after which a job emits nothing more. */
+export const TERMINAL_JOB_EVENTS = ['done', 'cancelled', 'failed'];
+
+export interface GenerationJobInput extends QuestionFilter {
+    provider: LlmProvider;
+    schema: AssessmentSchema;
+    /** The schema file as written, used only to report how much smaller each per-question prompt is. */
+    schemaText?: string;
+    /** The assessor persona of the qualification being assessed. */
+    persona: AssessorPersona;
+    transcript: string;
+    segments?: TranscriptSegments;
+    /** Role of each speaker; the transcript is relabelled with the canonical roles before prompting. */
+    speakerRoles?: SpeakerRoles | null;
+    /** What to redact before prompting; the transcript is sent as written when null. */
+    redaction?: RedactionOptions | null;
+    /** Optional cap on parallel questions; never exceeds the provider's limit. */
+    concurrency?: number;
+    /** Saved report to store each answer in as it completes. */
+    reportId?: string | null;
+}
+
+type JobListener = (event: JobEvent) => void;
+
+interface ActiveJob {
+    abort: AbortController;
+    listeners: Set<JobListener>;
+}
+
+interface PendingJob {
+    job: JobRecord;
+    input: GenerationJobInput;
+}
+
+// Shared through globalThis because Next.js may load this module once per route bundle
+const globalJobs = globalThis as typeof globalThis & {
+    __generationJobs?: Map<string, ActiveJob>;
+    __pendingGenerationJobs?: PendingJob[];
+};
+/** Queued and running jobs. */
+const activeJobs = (globalJobs.__generationJobs ??= new Map<string, ActiveJob>());
+/** Queued jobs, oldest first. */
+const pendingJobs = (globalJobs.__pendingGenerationJobs ??= []);
+
+/**
+ * Reads `GENERATION_MAX_CONCURRENT_JOBS`, the number of jobs allowed to run at the same time.
+ */
+function maxRunningJobs(env: NodeJS.ProcessEnv = process.env): number {
+    const parsed = Number(env.GENERATION_MAX_CONCURRENT_JOBS);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : 1;
+}
+
+/**
+ * Stores an event and passes it to the job's live listeners.
+ * @param listeners The listeners to notify; those of the queued or running job by default.
+ */
+async function publish(store: ReportStore, jobId: string, event: string, data: unknown, listeners = activeJobs.get(jobId)?.listeners) {
+    const stored = await store.appendJobEvent(jobId, event, data);
+    for (const listener of listeners || []) {
+        listener(stored);
+    }
+}
+
+/**
+ * Creates a generation job and queues it to run in the background.
+ * @param input The provider, schema, transcript and question selection.
+ * @returns The queued job; progress is available through its events.
+ */
+export async function startGenerationJob(input: GenerationJobInput): Promise<JobRecord> {
+    const store = getReportStore();
+    const tasks = listQuestionTasks(input.schema, { units: input.units, questions: input.questions });
+    const job = await store.createJob({ reportId: input.reportId ?? null, totalQuestions: tasks.length });
+    activeJobs.set(job.id, { abort: new AbortController(), listeners: new Set() });
+    pendingJobs.push({ job, input });
+
+    startQueuedJobs(store);
+    if (pendingJobs.some(pending => pending.job.id === job.id)) {
+        await publish(store, job.id, 'queued', { position: pendingJobs.findIndex(pending => pending.job.id === job.id) + 1 });
+    }
+    return job;
+}
+
+/**
+ * Starts queued jobs, oldest first, while fewer than the allowed number are running.
+ */
+function startQueuedJobs(store: ReportStore) {
+    while (pendingJobs.length > 0 && activeJobs.size - pendingJobs.length < maxRunningJobs()) {
+        const { job, input } = pendingJobs.shift()!;
+        runGenerationJob(store, job, input).catch(async (error: any) => {
+            console.error(`Generation job ${job.id} failed:`, error.message, error.stack);
+            await store.setJobStatus(job.id, 'failed').catch(() => undefined);
+            await publish(store, job.id, 'failed', { message: error.message || "An unexpected error occurred." }).catch(() => undefined);
+        }).finally(() => {
+            activeJobs.delete(job.id);
+            startQueuedJobs(store);
+        });
+    }
+}
+
+/**
+ * Generates every selected question, publishing progress and saving answers to the report as they complete.
+ */
+async function runGenerationJob(store: ReportStore, job: JobRecord, {
+    provider, schema, schemaText, persona, transcript: rawTranscript, segments: rawSegments, speakerRoles, redaction, units, questions,
+    concurrency: requestedConcurrency, reportId,
+}: GenerationJobInput) {
+    const signal = activeJobs.get(job.id)!.abort.signal;
+    await store.setJobStatus(job.id, 'running');
+    if (reportId) await store.setStatus(reportId, 'generating');
+    console.log(`Job ${job.id}: using LLM provider '${provider.name}' with model '${provider.model}'.`);
+
+    // Relabelling keeps line numbers, so evidence lines still match the transcript the assessor sees
+    const transcript = applySpeakerRoles(rawTranscript, speakerRoles);
+    const segments = applySpeakerRolesToSegments(rawSegments, speakerRoles);
+
+    // Only the redacted text leaves the server; answers keep the tokens until the document is filled
+    let promptTranscript = transcript;
+    let promptSegments = segments;
+    let redactions: Redaction[] = [];
+    if (redaction) {
+        const existing = reportId ? (await store.getReport(reportId))?.redactions ?? [] : [];
+        // Relabelling removed the speakers' names, so they are taken from the transcript as written
+        const names = [...(redaction.names || []), ...listSpeakerNames(rawTranscript)];
+        ({ transcript: promptTranscript, segments: promptSegments, redactions } = redactTranscript(transcript, segments, { ...redaction, names }, existing));
+        if (reportId) await store.saveRedactions(reportId, redactions);
+        await publish(store, job.id, 'redacted', { redactions });
+        const found = redactions.filter(entry => entry.occurrences > 0);
+        console.log(`Job ${job.id}: redacted ${found.reduce((total, entry) => total + entry.occurrences, 0)} occurrence(s) of ${found.length} personal detail(s).`);
+    }
+
+    const tasks = listQuestionTasks(schema, { units, questions });
+    const retryPolicy = getRetryPolicy();
+    const results = new Map<string, QuestionResult>();
+    const concurrency = Math.min(requestedConcurrency || provider.limits.maxConcurrency, provider.limits.maxConcurrency);
+    console.log(`Job ${job.id}: processing ${tasks.length} questions with concurrency ${concurrency}.`);
+
+    await runWithConcurrency(tasks, concurrency, async ({ unitCode, mainQuestionKey }) => {
+        // Questions not yet started when the job is cancelled are skipped; ones in flight still finish and are kept
+        if (signal.aborted) return;
+        console.log(`Processing Unit: ${unitCode}, Question Key: '${mainQuestionKey}'`);
+        await publish(store, job.id, 'processing', { unitCode, mainQuestionKey });
+
+        // Only send the assessor-confirmed section for this question; fall back to the
+        // full transcript when no split was provided or this question has no section.
+        const questionTranscript = promptSegments?.[unitCode]?.[mainQuestionKey]?.trim() || promptTranscript;
+
+        try {
+            const { result, budget, attempts, repaired } = await generateQuestion({
+                provider,
+                schema,
+                persona,
+                unitCode,
+                mainQuestionKey,
+                transcript: questionTranscript,
+                fullSchemaText: schemaText,
+                retryPolicy,
+                // Awaited so the retry is recorded before the next attempt's events; failing to record it does not fail the question
+                onRetry: ({ attempt, maxAttempts, reason }) =>
+                    publish(store, job.id, 'retrying', { unitCode, mainQuestionKey, attempt, maxAttempts, message: reason })
+                        .catch(error => console.error(`Job ${job.id}: could not record retry:`, error.message)),
+            });
+            results.set(`${unitCode}/${mainQuestionKey}`, result);
+
+            // Quotes are checked against the whole transcript, since evidence may sit outside the question's section
+            const verification = verifyQuestionEvidence(reidentify(result, redactions), transcript);
+            const unverified = countUnverified(verification);
+            if (unverified > 0) {
+                console.warn(`${unitCode}, Question ${mainQuestionKey}: ${unverified} example action(s) could not be verified against the transcript.`);
+            }
+            if (reportId) {
+                // Saving is best effort: a storage failure must not discard an answer the client can still receive
+                await store.saveAnswer(reportId, { unitCode, mainQuestionKey, result, verification, source: 'generated' })
+                    .catch(error => console.error(`Could not save report ${reportId}:`, error.message));
+            }
+
+            await publish(store, job.id, 'completed', { unitCode, mainQuestionKey, result, budget, attempts, repaired, verification });
+        } catch (error: any) {
+            console.error(`Error generating content for ${unitCode}, Question ${mainQuestionKey}:`, error.message);
+            // Not 'error', which EventSource already fires for a dropped connection
+            await publish(store, job.id, 'question-error', { unitCode, mainQuestionKey, message: error.message, attempts: error.attempts });
+        }
+    });
+
+    // Workers finish out of order; rebuild the report in schema.json order
+    const allResults: GeneratedReport = {};
+    for (const { unitCode, mainQuestionKey } of tasks) {
+        const result = results.get(`${unitCode}/${mainQuestionKey}`);
+        if (!result) continue;
+        if (!allResults[unitCode]) {
+            allResults[unitCode] = {};
+        }
+        allResults[unitCode][mainQuestionKey] = result;
+    }
+
+    if (reportId) await store.setStatus(reportId, results.size > 0 ? 'generated' : 'draft');
+    if (signal.aborted) {
+        await store.setJobStatus(job.id, 'cancelled');
+        await publish(store, job.id, 'cancelled', allResults);
+    } else {
+        await store.setJobStatus(job.id, 'completed');
+        await publish(store, job.id, 'done', allResults);
+    }
+}
+
+/**
+ * Follows a running job's new events.
+ * @returns A function that stops listening, or null if the job is not running in this process.
+ */
+export function subscribeToJob(jobId: string, listener: JobListener): (() => void) | null {
+    const job = activeJobs.get(jobId);
+    if (!job) return null;
+    job.listeners.add(listener);
+    return () => job.listeners.delete(listener);
+}
+
+/**
+ * Asks a queued or running job to stop. A queued job is cancelled without generating anything;
+ * in a running job, questions already being generated finish and are kept.
+ * @returns False if the job is not queued or running in this process.
+ */
+export function cancelGenerationJob(jobId: string): boolean {
+    const job = activeJobs.get(jobId);
+    if (!job) return false;
+    job.abort.abort();
+
+    const queuedIndex = pendingJobs.findIndex(pending => pending.job.id === jobId);
+    if (queuedIndex >= 0) {
+        // Removed at once so that it stops counting towards the running jobs; its listeners still hear the cancellation
+        pendingJobs.splice(queuedIndex, 1);
+        activeJobs.delete(jobId);
+        const store = getReportStore();
+        store.setJobStatus(jobId, 'cancelled')
+            .then(() => publish(store, jobId, 'cancelled', {}, job.listeners))
+            .catch(error => console.error(`Job ${jobId}: could not record cancellation:`, error.message));
+    }
+    return true;
+}
@@ -0,0 +1,90 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { LlmProvider } from '@/lib/llm';
+import { generateQuestion, QuestionGenerationError, type QuestionGenerationInput } from '@/lib/generation';
+import { getQualification, loadQualificationSchema } from '@/lib/qualifications';
+
+const NO_DELAY = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 };
+
+// CHCCCS038 question 1 has criteria 1 to 4
+const complete = {
+    ...Object.fromEntries([1, 2, 3, 4].flatMap(key => [
+        [`performance_observed_${key}`, `Observed ${key}.`],
+        [`example_action_${key}`, `Said "action ${key}".`],
+        [`outcome_${key}`, 'S'],
+    ])),
+    conclusion: 'Competent.',
+    overall_outcome: 'S',
+    outcome_justification: 'All criteria met.',
+};
+const completeJson = JSON.stringify(complete);
+// Cut off inside the first criterion's example action
+const truncatedJson = completeJson.slice(0, completeJson.indexOf('action 1') + 3);
+
+let question: Omit<QuestionGenerationInput, 'provider'>;
+
+beforeAll(async () => {
+    const qualification = await getQualification();
+    const { schema } = await loadQualificationSchema(qualification);
+    question = {
+        schema,
+        persona: qualification,
+        unitCode: 'CHCCCS038',
+        mainQuestionKey: '1',
+        transcript: 'Assessor: How do you start?\nStudent: I would read the care plan first.',
+        retryPolicy: NO_DELAY,
+    };
+});
+
+/** A provider that gives the scripted responses in turn; an Error is thrown instead of returned. */
+function scriptedProvider(...responses: Array<string | Error>) {
+    const prompts: string[] = [];
+    const provider: LlmProvider = {
+        name: 'scripted',
+        model: 'scripted',
+        limits: { maxConcurrency: 1 },
+        async generateJson({ prompt }) {
+            prompts.push(prompt);
+            const response = responses.shift();
+            if (response instanceof Error) throw response;
+            return response ?? '';
+        },
+    };
+    return { provider, prompts };
+}
+
+describe('generateQuestion', () => {
+    it('asks again when a truncated response is missing required fields', async () => {
+        const { provider, prompts } = scriptedProvider(truncatedJson, completeJson);
+        const onRetry = vi.fn();
+        const { result, attempts } = await generateQuestion({ ...question, provider, onRetry });
+
+        expect(attempts).toBe(2);
+        expect(result.evaluation[1].example_action).toBe('Said "action 1".');
+        expect(result.conclusion).toBe('Competent.');
+        expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, maxAttempts: 3, reason: expect.stringMatching(/cut off before outcome_1, .*conclusion/) }));
+        expect(prompts[1]).toContain('not valid, complete JSON');
+    });
+
+    it('fails the question when every attempt is cut off', async () => {
+        const { provider } = scriptedProvider(truncatedJson, truncatedJson, truncatedJson);
+        const error = await generateQuestion({ ...question, provider }).catch(caught => caught);
+        expect(error).toBeInstanceOf(QuestionGenerationError);
+        expect(error).toMatchObject({ attempts: 3, message: expect.stringContaining('cut off') });
+    });
+
+    it('accepts a repaired response that has every required field', async () => {
+        // Cut off after the last required field; only the closing brace is missing
+        const { provider } = scriptedProvider(`Sure:\n${completeJson.slice(0, -1)},`);
+        const { result, attempts, repaired } = await generateQuestion({ ...question, provider });
+        expect({ attempts, repaired }).toEqual({ attempts: 1, repaired: true });
+        expect(result.outcome_justification).toBe('All criteria met.');
+    });
+
+    it('backs off and retries a transient provider error', async () => {
+        const { provider } = scriptedProvider(Object.assign(new Error('Rate limit exceeded'), { status: 429 }), completeJson);
+        const onRetry = vi.fn();
+        const { attempts } = await generateQuestion({ ...question, provider, onRetry });
+        expect(attempts).toBe(2);
+        expect(onRetry).toHaveBeenCalledWith({ attempt: 1, maxAttempts: 3, reason: 'Rate limit exceeded' });
+    });
+});
@@ -0,0 +1,249 @@
+import type { LlmProvider } from '@/lib/llm';
+import { createDynamicJsonSchema } from '@/lib/report-schema';
+import { buildQuestionPrompt, type AssessorPersona, type PromptBudget } from '@/lib/prompt-builder';
+import { getCriterionKeys, getQuestionKeys, type AssessmentSchema } from '@/lib/assessment-schema';
+import { parseJsonLenient } from '@/lib/json-repair';
+import { deriveOverallOutcome, normaliseOutcome, type Outcome } from '@/lib/outcomes';
+import { backoffDelay, DEFAULT_RETRY_POLICY, isTransientError, sleep, type RetryPolicy } from '@/lib/retry';
+import { GENERATION_FALLBACKS } from '@/lib/missing-answers';
+
+// Appended to the prompt when the previous response could not be parsed as JSON or was cut off
+const INVALID_JSON_REASK = `
+
+**Important:** Your previous response was not valid, complete JSON. Respond again with ONLY the complete JSON object, with every required field, and nothing else.`;
+
+/**
+ * One main question to generate a benchmark answer for.
+ */
+export interface QuestionTask {
+    unitCode: string;
+    mainQuestionKey: string;
+}
+
+export interface CriterionEvaluation {
+    question: string;
+    performance_observed: string;
+    example_action: string;
+    outcome: Outcome;
+}
+
+/**
+ * The generated benchmark answer for one main question, as stored in the report and sent to /api/fill-doc.
+ */
+export interface QuestionResult {
+    main_question: string;
+    evaluation: Record<string, CriterionEvaluation>;
+    conclusion: string;
+    /** Overall competency outcome for the main question. */
+    outcome: Outcome;
+    outcome_justification: string;
+}
+
+/** Generated results keyed by unit code, then main question key. */
+export type GeneratedReport = Record<string, Record<string, QuestionResult>>;
+
+export interface QuestionGenerationInput extends QuestionTask {
+    provider: LlmProvider;
+    schema: AssessmentSchema;
+    /** The assessor persona of the qualification being assessed. */
+    persona: AssessorPersona;
+    /** The transcript (or transcript section) to evaluate. */
+    transcript: string;
+    /** The full schema.json text, used only for the prompt budget report. */
+    fullSchemaText?: string;
+    /** Assessor feedback for a single-question regeneration. */
+    feedback?: string;
+    /** The answer being regenerated, given to the model alongside the feedback. */
+    previousResult?: QuestionResult;
+    retryPolicy?: RetryPolicy;
+    /** Called before each retry with the attempt that failed and why; the retry waits for a returned promise. */
+    onRetry?: (info: RetryInfo) => void | Promise<void>;
+}
+
+export interface RetryInfo {
+    /** The attempt that just failed (1-based). */
+    attempt: number;
+    maxAttempts: number;
+    reason: string;
+}
+
+export interface QuestionGenerationOutput {
+    result: QuestionResult;
+    budget: PromptBudget;
+    /** Number of provider calls made, including the successful one. */
+    attempts: number;
+    /** True if the accepted response was truncated or malformed JSON that had to be repaired. */
+    repaired: boolean;
+}
+
+/**
+ * Raised when a question could not be generated; carries the number of attempts made.
+ */
+export class QuestionGenerationError extends Error {
+    constructor(message: string, public readonly attempts: number) {
+        super(message);
+        this.name = 'QuestionGenerationError';
+    }
+}
+
+/**
+ * Restricts generation to a subset of the schema.
+ */
+export interface QuestionFilter {
+    /** Unit codes to include; all units when omitted. */
+    units?: string[];
+    /** Per-unit main question keys to include; all questions of a unit when it has no entry. */
+    questions?: Record<string, string[]>;
+}
+
+/**
+ * Lists the main questions in the schema, in schema.json order, optionally filtered.
+ * @param schema The assessment schema.
+ * @param filter Optional unit / question subset.
+ * @returns One task per selected main question.
+ */
+export function listQuestionTasks(schema: AssessmentSchema, filter: QuestionFilter = {}): QuestionTask[] {
+    return Object.keys(schema)
+        .filter(unitCode => !filter.units || filter.units.includes(unitCode))
+        .flatMap(unitCode =>
+            getQuestionKeys(schema[unitCode])
+                .filter(mainQuestionKey => !filter.questions?.[unitCode] || filter.questions[unitCode].includes(mainQuestionKey))
+                .map(mainQuestionKey => ({ unitCode, mainQuestionKey }))
+        );
+}
+
+/**
+ * Checks a filter against the schema.
+ * @returns A message describing the first unknown unit or question, or null if the filter is valid.
+ */
+export function validateQuestionFilter(schema: AssessmentSchema, filter: QuestionFilter): string | null {
+    for (const unitCode of [...(filter.units || []), ...Object.keys(filter.questions || {})]) {
+        if (!schema[unitCode]) return `Unknown unit '${unitCode}'.`;
+    }
+    for (const [unitCode, keys] of Object.entries(filter.questions || {})) {
+        const known = getQuestionKeys(schema[unitCode]);
+        const unknown = keys.find(key => !known.includes(key));
+        if (unknown) return `Unknown question '${unknown}' in unit '${unitCode}'.`;
+    }
+    return null;
+}
+
+/**
+ * Generates the benchmark answer for a single main question.
+ * Transient provider errors are retried with exponential backoff; empty or unparseable responses
+ * are re-asked with an explicit reminder to return JSON. Truncated JSON is repaired where possible.
+ * @param input The provider, schema, question, transcript and retry settings.
+ * @returns The formatted result, the prompt budget and the number of attempts used.
+ * @throws QuestionGenerationError if the question cannot be found, its response schema cannot be built, or every attempt fails.
+ */
+export async function generateQuestion({
+    provider, schema, persona, unitCode, mainQuestionKey, transcript, fullSchemaText, feedback, previousResult,
+    retryPolicy = DEFAULT_RETRY_POLICY, onRetry,
+}: QuestionGenerationInput): Promise<QuestionGenerationOutput> {
+    const unitData = schema[unitCode];
+    const questionData = unitData?.[mainQuestionKey];
+    if (!unitData || !questionData || mainQuestionKey === 'assessment_guide') {
+        throw new QuestionGenerationError(`Unknown question ${unitCode} - ${mainQuestionKey}.`, 0);
+    }
+
+    const instructions = questionData.rolePlayScenerio['instruction for roleplay'];
+
+    const dynamicSchema = createDynamicJsonSchema(instructions);
+    if (!dynamicSchema) {
+        throw new QuestionGenerationError("Schema generation failed.", 0);
+    }
+
+    const { prompt, budget } = buildQuestionPrompt({
+        transcript,
+        persona,
+        unitData,
+        questionData,
+        fullSchemaText,
+        feedback,
+        previousResult,
+    });
+    console.log(`Prompt budget for ${unitCode}, Question ${mainQuestionKey}: ~${budget.totalTokens} tokens`
+        + (fullSchemaText ? ` (~${budget.savedTokens} saved vs. full schema).` : '.'));
+
+    let parsedAiJson: any = null;
+    let repaired = false;
+    let attempt = 0;
+    let reask = false;
+
+    while (true) {
+        attempt++;
+        console.log(`Generating response for ${unitCode}, Question ${mainQuestionKey} (attempt ${attempt} of ${retryPolicy.maxAttempts})...`);
+
+        let responseContent: string;
+        try {
+            responseContent = await provider.generateJson({
+                prompt: reask ? prompt + INVALID_JSON_REASK : prompt,
+                schema: dynamicSchema,
+                temperature: 0.2,
+                tag: `${unitCode}_${mainQuestionKey}`,
+            });
+        } catch (error: any) {
+            if (!isTransientError(error) || attempt >= retryPolicy.maxAttempts) {
+                throw new QuestionGenerationError(error?.message || "Provider request failed.", attempt);
+            }
+            await onRetry?.({ attempt, maxAttempts: retryPolicy.maxAttempts, reason: error?.message || "Provider request failed." });
+            await sleep(backoffDelay(attempt, retryPolicy));
+            continue;
+        }
+
+        let reason: string;
+        if (!responseContent) {
+            reason = "No valid response content from AI.";
+        } else {
+            try {
+                let truncated: boolean;
+                ({ value: parsedAiJson, repaired, truncated } = parseJsonLenient(responseContent));
+                if (parsedAiJson && typeof parsedAiJson === 'object' && !Array.isArray(parsedAiJson)) {
+                    // A response cut off before its required fields would be filled with placeholder text; ask again instead
+                    const missing = truncated ? (dynamicSchema.required as string[]).filter(key => !parsedAiJson[key]) : [];
+                    if (missing.length === 0) break;
+                    reason = `AI response was cut off before ${missing.join(', ')}.`;
+                } else {
+                    reason = "AI response was not a JSON object.";
+                }
+                parsedAiJson = null;
+            } catch (error: any) {
+                reason = `AI response was not valid JSON: ${error.message}`;
+            }
+        }
+
+        if (attempt >= retryPolicy.maxAttempts) {
+            throw new QuestionGenerationError(reason, attempt);
+        }
+        console.warn(`Re-asking ${unitCode}, Question ${mainQuestionKey}: ${reason}`);
+        await onRetry?.({ attempt, maxAttempts: retryPolicy.maxAttempts, reason });
+        reask = true;
+    }
+
+    const formattedEvaluation: Record<string, CriterionEvaluation> = {};
+    for (const key of getCriterionKeys(instructions)) {
+        formattedEvaluation[key] = {
+            question: instructions[key].question,
+            performance_observed: parsedAiJson[`performance_observed_${key}`] || GENERATION_FALLBACKS.performanceObserved,
+            example_action: parsedAiJson[`example_action_${key}`] || GENERATION_FALLBACKS.exampleAction,
+            outcome: normaliseOutcome(parsedAiJson[`outcome_${key}`]),
+        };
+    }
+
+    const overallOutcome = parsedAiJson.overall_outcome
+        ? normaliseOutcome(parsedAiJson.overall_outcome)
+        : deriveOverallOutcome(Object.values(formattedEvaluation).map(criterion => criterion.outcome));
+
+    return {
+        result: {
+            main_question: questionData.question,
+            evaluation: formattedEvaluation,
+            conclusion: parsedAiJson.conclusion || GENERATION_FALLBACKS.conclusion,
+            outcome: overallOutcome,
+            outcome_justification: parsedAiJson.outcome_justification || GENERATION_FALLBACKS.outcomeJustification,
+        },
+        budget,
+        attempts: attempt,
+        repaired,
+    };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { closeTruncatedJson, parseJsonLenient } from '@/lib/json-repair';
+
+describe('parseJsonLenient', () => {
+    it('parses valid JSON without repair', () => {
+        expect(parseJsonLenient('{"a":1}')).toEqual({ value: { a: 1 }, repaired: false, truncated: false });
+    });
+
+    it('strips code fences and leading prose', () => {
+        const result = parseJsonLenient('Here is the answer:\n```json\n{"a": [1, 2]}\n```');
+        expect(result).toEqual({ value: { a: [1, 2] }, repaired: true, truncated: false });
+    });
+
+    it('drops trailing commas', () => {
+        expect(parseJsonLenient('{"a": [1, 2,], "b": 3,}').value).toEqual({ a: [1, 2], b: 3 });
+    });
+
+    it('leaves commas before brackets inside string values alone', () => {
+        const result = parseJsonLenient('```json\n{"a": "lists (x, y,) and [1,]", "b": "say \\"hi,}\\"",}\n```');
+        expect(result).toEqual({ value: { a: 'lists (x, y,) and [1,]', b: 'say "hi,}"' }, repaired: true, truncated: false });
+    });
+
+    it('closes a document truncated mid-string', () => {
+        expect(parseJsonLenient('{"conclusion": "The student expl')).toEqual({ value: { conclusion: 'The student expl' }, repaired: true, truncated: true });
+    });
+
+    it('throws when the text is not JSON at all', () => {
+        expect(() => parseJsonLenient('no json here')).toThrow(SyntaxError);
+    });
+});
+
+describe('closeTruncatedJson', () => {
+    it('drops a key without a value', () => {
+        expect(JSON.parse(closeTruncatedJson('{"a": 1, "b":'))).toEqual({ a: 1 });
+    });
+
+    it('closes nested arrays and objects in order', () => {
+        expect(closeTruncatedJson('{"a": [{"b": 1}')).toBe('{"a": [{"b": 1}]}');
+    });
+
+    it('ignores brackets inside strings', () => {
+        expect(JSON.parse(closeTruncatedJson('{"a": "x}]", "b": [1'))).toEqual({ a: 'x}]', b: [1] });
+    });
+});
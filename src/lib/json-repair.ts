@@ -0,0 +1,111 @@
+/**
+ * Tolerant parsing for model output that is almost, but not quite, valid JSON.
+ */
+
+export interface LenientParseResult {
+    value: any;
+    /** True if the text had to be modified before it parsed. */
+    repaired: boolean;
+    /** True if the text was cut off and had to be closed, so fields may be missing. */
+    truncated: boolean;
+}
+
+/**
+ * Removes markdown code fences and any prose before the first `{` or `[`.
+ */
+function stripWrapping(text: string): string {
+    let trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    const start = trimmed.search(/[{[]/);
+    if (start > 0) trimmed = trimmed.slice(start);
+    return trimmed;
+}
+
+const CLOSING_BRACKET_AHEAD = /\s*[}\]]/y;
+
+/**
+ * Drops commas directly before a closing bracket, leaving string values untouched.
+ */
+function removeTrailingCommas(text: string): string {
+    let result = '';
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === ',') {
+            CLOSING_BRACKET_AHEAD.lastIndex = i + 1;
+            if (CLOSING_BRACKET_AHEAD.test(text)) continue;
+        }
+        result += char;
+    }
+    return result;
+}
+
+/**
+ * Closes a truncated JSON document: terminates an open string, drops a dangling key or
+ * trailing comma, and appends the missing closing brackets.
+ * @param text JSON text that was cut off mid-document.
+ * @returns The text with the missing closing tokens added.
+ */
+export function closeTruncatedJson(text: string): string {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (const char of text) {
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (char === '\\') escaped = true;
+            else if (char === '"') inString = false;
+            continue;
+        }
+        if (char === '"') inString = true;
+        else if (char === '{') stack.push('}');
+        else if (char === '[') stack.push(']');
+        else if (char === '}' || char === ']') stack.pop();
+    }
+
+    let repaired = text;
+    if (escaped) repaired = repaired.slice(0, -1);
+    if (inString) repaired += '"';
+
+    // Inside an object, a key without a value (`"key"` or `"key":`) cannot be completed; drop it.
+    if (stack[stack.length - 1] === '}') {
+        repaired = repaired
+            .replace(/,\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '')
+            .replace(/{\s*"(?:[^"\\]|\\.)*"\s*:?\s*$/, '{');
+    }
+    repaired = repaired.replace(/,\s*$/, '');
+
+    return repaired + stack.reverse().join('');
+}
+
+/**
+ * Parses model output as JSON, repairing common defects (code fences, leading prose,
+ * trailing commas, truncation) when strict parsing fails.
+ * @param text The raw model response.
+ * @returns The parsed value, whether a repair was needed and whether the text had been cut off.
+ * @throws SyntaxError if the text cannot be parsed even after repair.
+ */
+export function parseJsonLenient(text: string): LenientParseResult {
+    try {
+        return { value: JSON.parse(text), repaired: false, truncated: false };
+    } catch {
+        // Fall through to the repair steps below.
+    }
+
+    const unwrapped = removeTrailingCommas(stripWrapping(text));
+    try {
+        return { value: JSON.parse(unwrapped), repaired: true, truncated: false };
+    } catch {
+        // Probably truncated; try closing it.
+    }
+
+    return { value: JSON.parse(closeTruncatedJson(unwrapped)), repaired: true, truncated: true };
+}
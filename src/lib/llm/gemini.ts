@@ -0,0 +1,44 @@
+import { GoogleGenAI } from '@google/genai';
+import type { GenerateJsonRequest, LlmProvider, ProviderLimits } from './types';
+
+// Conservative default that stays within typical paid-tier quotas for gemini-2.5-pro
+const DEFAULT_LIMITS: ProviderLimits = { maxConcurrency: 4 };
+
+export interface GeminiProviderOptions {
+    apiKey: string;
+    model: string;
+}
+
+/**
+ * Creates a provider backed by the Google Gemini API.
+ * @param options The API key and model name.
+ * @returns An `LlmProvider` using Gemini's native response schema support.
+ */
+export function createGeminiProvider({ apiKey, model }: GeminiProviderOptions): LlmProvider {
+    const ai = new GoogleGenAI({ apiKey });
+
+    return {
+        name: 'gemini',
+        model,
+        limits: DEFAULT_LIMITS,
+        async generateJson({ prompt, schema, temperature = 0.2 }: GenerateJsonRequest): Promise<string> {
+            const contents = [{
+                role: 'user',
+                parts: [{ text: prompt }],
+            }];
+
+            const config = {
+                responseMimeType: 'application/json',
+                responseSchema: schema,
+                temperature,
+            };
+
+            const responseStream = await ai.models.generateContentStream({ model, config, contents });
+            let responseContent = '';
+            for await (const chunk of responseStream) {
+                responseContent += chunk.text ?? '';
+            }
+            return responseContent;
+        },
+    };
+}
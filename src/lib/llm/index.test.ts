@@ -0,0 +1,32 @@
+import fs from 'fs/promises';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getLlmProvider } from '@/lib/llm';
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('getLlmProvider', () => {
+    it('shares one request budget between providers created for separate requests', async () => {
+        vi.useFakeTimers();
+        // The mock provider looks for a fixture first, so the lookup marks when each request was let through
+        const started: number[] = [];
+        vi.spyOn(fs, 'readFile').mockImplementation(async () => {
+            started.push(Date.now());
+            throw new Error('No fixture.');
+        });
+
+        // 600 a minute spaces requests 100ms apart
+        const env = { LLM_PROVIDER: 'mock', LLM_REQUESTS_PER_MINUTE: '600' } as unknown as NodeJS.ProcessEnv;
+        const begin = Date.now();
+        const requests = Promise.all([1, 2, 3].map(() =>
+            getLlmProvider(env).generateJson({ prompt: 'x', schema: {}, tag: 'missing' })
+        ));
+        await vi.advanceTimersByTimeAsync(99);
+        expect(started.map(time => time - begin)).toEqual([0]);
+        await vi.advanceTimersByTimeAsync(101);
+        await requests;
+        expect(started.map(time => time - begin)).toEqual([0, 100, 200]);
+    });
+});
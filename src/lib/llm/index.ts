@@ -0,0 +1,122 @@
+import path from 'path';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider } from './mock';
+import { createOpenAiProvider } from './openai';
+import { createRateLimiter } from '@/lib/concurrency';
+import type { LlmProvider, LlmProviderName, ProviderLimits } from './types';
+
+export type { GenerateJsonRequest, LlmProvider, LlmProviderName, ProviderLimits } from './types';
+
+const PROVIDER_NAMES: LlmProviderName[] = ['gemini', 'openai', 'local', 'mock'];
+
+// One limiter per provider for the whole server, kept on globalThis because Next.js may load this module once
+// per route bundle; every request, job and route calling the same provider must share its budget.
+const globalLimiters = globalThis as typeof globalThis & {
+    __llmRateLimiters?: Map<string, { requestsPerMinute: number | undefined; acquire: () => Promise<void> }>;
+};
+
+/**
+ * Creates the LLM provider selected by environment configuration.
+ *
+ * - `LLM_PROVIDER`: one of `gemini` (default), `openai`, `local` or `mock`.
+ * - gemini: `GEMINI_API_KEY`, optional `GEMINI_MODEL`.
+ * - openai: `OPENAI_API_KEY`, optional `OPENAI_MODEL` and `OPENAI_BASE_URL`.
+ * - local: `LOCAL_LLM_BASE_URL`, `LOCAL_LLM_MODEL`, optional `LOCAL_LLM_API_KEY`.
+ * - mock: optional `MOCK_LLM_FIXTURES_DIR` (defaults to `fixtures/mock-llm`).
+ * - `LLM_MAX_CONCURRENCY` / `LLM_REQUESTS_PER_MINUTE`: override the provider's default limits.
+ *
+ * @param env The environment to read settings from.
+ * @returns The configured provider.
+ * @throws Error if the provider name is unknown or required settings are missing.
+ */
+export function getLlmProvider(env: NodeJS.ProcessEnv = process.env): LlmProvider {
+    return withLimitOverrides(createProvider(env), env);
+}
+
+/**
+ * Parses a positive integer environment value.
+ */
+function positiveInt(value: string | undefined): number | undefined {
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+/**
+ * Returns the shared rate limiter of a provider, replacing it if the configured rate has changed.
+ */
+function getRateLimiter(name: string, requestsPerMinute: number | undefined): () => Promise<void> {
+    const limiters = (globalLimiters.__llmRateLimiters ??= new Map());
+    let limiter = limiters.get(name);
+    if (!limiter || limiter.requestsPerMinute !== requestsPerMinute) {
+        limiter = { requestsPerMinute, acquire: createRateLimiter(requestsPerMinute) };
+        limiters.set(name, limiter);
+    }
+    return limiter.acquire;
+}
+
+/**
+ * Applies `LLM_MAX_CONCURRENCY` / `LLM_REQUESTS_PER_MINUTE` and enforces the request rate
+ * on every call, so retries, parallel workers and concurrent requests share the same budget.
+ */
+function withLimitOverrides(provider: LlmProvider, env: NodeJS.ProcessEnv): LlmProvider {
+    const limits: ProviderLimits = {
+        maxConcurrency: positiveInt(env.LLM_MAX_CONCURRENCY) ?? provider.limits.maxConcurrency,
+        requestsPerMinute: positiveInt(env.LLM_REQUESTS_PER_MINUTE) ?? provider.limits.requestsPerMinute,
+    };
+    const acquire = getRateLimiter(provider.name, limits.requestsPerMinute);
+
+    return {
+        name: provider.name,
+        model: provider.model,
+        limits,
+        async generateJson(request) {
+            await acquire();
+            return provider.generateJson(request);
+        },
+    };
+}
+
+function createProvider(env: NodeJS.ProcessEnv): LlmProvider {
+    const name = (env.LLM_PROVIDER || 'gemini').toLowerCase() as LlmProviderName;
+
+    switch (name) {
+        case 'gemini': {
+            const apiKey = env.GEMINI_API_KEY || '';
+            if (!apiKey) throw new Error("Gemini API key not configured.");
+            return createGeminiProvider({ apiKey, model: env.GEMINI_MODEL || 'gemini-2.5-pro' });
+        }
+        case 'openai': {
+            const apiKey = env.OPENAI_API_KEY || '';
+            if (!apiKey) throw new Error("OpenAI API key not configured.");
+            return createOpenAiProvider({
+                name,
+                apiKey,
+                model: env.OPENAI_MODEL || 'gpt-4o',
+                baseURL: env.OPENAI_BASE_URL || undefined,
+                structuredOutputs: true,
+                limits: { maxConcurrency: 8 },
+            });
+        }
+        case 'local': {
+            const baseURL = env.LOCAL_LLM_BASE_URL || '';
+            const model = env.LOCAL_LLM_MODEL || '';
+            if (!baseURL || !model) throw new Error("LOCAL_LLM_BASE_URL and LOCAL_LLM_MODEL must be configured.");
+            return createOpenAiProvider({
+                name,
+                // OpenAI-compatible local servers usually ignore the key, but the client requires one.
+                apiKey: env.LOCAL_LLM_API_KEY || 'local',
+                model,
+                baseURL,
+                structuredOutputs: false,
+                // Local servers typically serve one request at a time
+                limits: { maxConcurrency: 1 },
+            });
+        }
+        case 'mock':
+            return createMockProvider({
+                fixturesDir: env.MOCK_LLM_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'mock-llm'),
+            });
+        default:
+            throw new Error(`Unknown LLM_PROVIDER '${name}'. Expected one of: ${PROVIDER_NAMES.join(', ')}.`);
+    }
+}
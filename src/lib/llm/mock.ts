@@ -0,0 +1,103 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { GenerateJsonRequest, LlmProvider } from './types';
+
+export interface MockProviderOptions {
+    /** Directory holding `<tag>.json` fixture responses. */
+    fixturesDir: string;
+}
+
+const TRANSCRIPT_PATTERN = /--- TRANSCRIPT START ---\n([\s\S]*?)\n--- TRANSCRIPT END ---/;
+
+/**
+ * Produces a small, stable hash so the same request always yields the same mock output.
+ * @param value The string to hash.
+ * @returns A non-negative 32-bit integer.
+ */
+function stableHash(value: string): number {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+    }
+    return hash;
+}
+
+/**
+ * Extracts the non-empty transcript lines embedded in a generation prompt.
+ * @param prompt The prompt sent to the provider.
+ * @returns The transcript lines, or an empty array if no transcript block is present.
+ */
+function extractTranscriptLines(prompt: string): string[] {
+    const match = prompt.match(TRANSCRIPT_PATTERN);
+    if (!match) return [];
+    const lines = match[1].split('\n').map(line => line.trim()).filter(Boolean);
+    // Prefer the student's own utterances when the transcript is speaker-labelled.
+    const studentLines = lines.filter(line => /^student\b/i.test(line));
+    return studentLines.length > 0 ? studentLines : lines;
+}
+
+/**
+ * Builds a deterministic value for a single schema property.
+ * Example actions are taken verbatim from the transcript so downstream processing sees real quotes.
+ */
+function mockValueFor(key: string, propertySchema: any, tag: string, transcriptLines: string[]): any {
+    const type = String(propertySchema?.type || 'STRING').toUpperCase();
+
+    if (propertySchema?.enum?.length) {
+        return propertySchema.enum[0];
+    }
+    if (type === 'OBJECT') {
+        return buildMockObject(propertySchema, `${tag}.${key}`, transcriptLines);
+    }
+    if (type === 'ARRAY') {
+        return [];
+    }
+    if (type === 'NUMBER' || type === 'INTEGER') {
+        return 0;
+    }
+    if (type === 'BOOLEAN') {
+        return true;
+    }
+
+    if (key.startsWith('example_action') && transcriptLines.length > 0) {
+        const line = transcriptLines[stableHash(`${tag}:${key}`) % transcriptLines.length];
+        return `(student name) stated, "${line.replace(/^[^:]{1,40}:\s*/, '')}"`;
+    }
+    return `[mock] (student name) addressed ${key} (${tag}) in {PRONOUN_POSSESSIVE} own words.`;
+}
+
+/**
+ * Builds a mock object conforming to an object schema.
+ */
+function buildMockObject(schema: any, tag: string, transcriptLines: string[]): { [key: string]: any } {
+    const result: { [key: string]: any } = {};
+    for (const [key, propertySchema] of Object.entries<any>(schema?.properties || {})) {
+        result[key] = mockValueFor(key, propertySchema, tag, transcriptLines);
+    }
+    return result;
+}
+
+/**
+ * Creates an offline provider that never calls a network service.
+ * If a fixture named `<tag>.json` exists in `fixturesDir` it is returned verbatim;
+ * otherwise a deterministic, schema-conformant response is synthesised from the request schema.
+ * @param options The fixtures directory.
+ * @returns An `LlmProvider` suitable for CI and local development without API keys.
+ */
+export function createMockProvider({ fixturesDir }: MockProviderOptions): LlmProvider {
+    return {
+        name: 'mock',
+        model: 'mock',
+        limits: { maxConcurrency: 8 },
+        async generateJson({ prompt, schema, tag = 'default' }: GenerateJsonRequest): Promise<string> {
+            const fixturePath = path.join(fixturesDir, `${path.basename(tag)}.json`);
+            try {
+                return await fs.readFile(fixturePath, 'utf-8');
+            } catch {
+                // No fixture for this request; fall back to a synthesised response.
+            }
+
+            return JSON.stringify(buildMockObject(schema, tag, extractTranscriptLines(prompt)));
+        },
+    };
+}
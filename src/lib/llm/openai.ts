@@ -0,0 +1,51 @@
+import OpenAI from 'openai';
+import { toStandardJsonSchema } from '@/lib/report-schema';
+import type { GenerateJsonRequest, LlmProvider, ProviderLimits } from './types';
+
+export interface OpenAiProviderOptions {
+    name: 'openai' | 'local';
+    apiKey: string;
+    model: string;
+    /** Base URL of an OpenAI-compatible endpoint (e.g. a local Ollama or vLLM server). */
+    baseURL?: string;
+    /**
+     * Whether the endpoint supports strict `json_schema` response formats.
+     * When false, the schema is appended to the prompt and `json_object` mode is used instead.
+     */
+    structuredOutputs: boolean;
+    limits: ProviderLimits;
+}
+
+/**
+ * Creates a provider for the OpenAI API or any OpenAI-compatible chat completions endpoint.
+ * @param options Connection and model settings.
+ * @returns An `LlmProvider` using chat completions with a JSON response format.
+ */
+export function createOpenAiProvider({ name, apiKey, model, baseURL, structuredOutputs, limits }: OpenAiProviderOptions): LlmProvider {
+    const client = new OpenAI({ apiKey, baseURL });
+
+    return {
+        name,
+        model,
+        limits,
+        async generateJson({ prompt, schema, temperature = 0.2 }: GenerateJsonRequest): Promise<string> {
+            const jsonSchema = toStandardJsonSchema(schema);
+
+            const completion = await client.chat.completions.create({
+                model,
+                temperature,
+                messages: [{
+                    role: 'user',
+                    content: structuredOutputs
+                        ? prompt
+                        : `${prompt}\n\nThe JSON object must strictly adhere to the following JSON Schema:\n${JSON.stringify(jsonSchema, null, 2)}`,
+                }],
+                response_format: structuredOutputs
+                    ? { type: 'json_schema', json_schema: { name: 'benchmark_answer', schema: jsonSchema, strict: true } }
+                    : { type: 'json_object' },
+            });
+
+            return completion.choices[0]?.message?.content ?? '';
+        },
+    };
+}
@@ -0,0 +1,39 @@
+/**
+ * A single structured-output request sent to an LLM provider.
+ */
+export interface GenerateJsonRequest {
+    /** The full user prompt. */
+    prompt: string;
+    /** Gemini-style response schema, as produced by `createDynamicJsonSchema`. */
+    schema: any;
+    temperature?: number;
+    /** Identifies the request (e.g. `CHCCCS031_1`); used by the mock provider to look up fixtures. */
+    tag?: string;
+}
+
+/**
+ * Throughput limits for a provider, used to size the generation worker pool.
+ */
+export interface ProviderLimits {
+    /** Maximum number of requests in flight at once. */
+    maxConcurrency: number;
+    /** Maximum number of requests started per minute; unlimited when omitted. */
+    requestsPerMinute?: number;
+}
+
+/**
+ * Common interface implemented by every LLM backend used for report generation.
+ */
+export interface LlmProvider {
+    /** Provider identifier, e.g. 'gemini', 'openai', 'local' or 'mock'. */
+    readonly name: string;
+    readonly model: string;
+    readonly limits: ProviderLimits;
+    /**
+     * Generates a response for the request.
+     * @returns The raw response text, expected to be a JSON document matching `request.schema`.
+     */
+    generateJson(request: GenerateJsonRequest): Promise<string>;
+}
+
+export type LlmProviderName = 'gemini' | 'openai' | 'local' | 'mock';
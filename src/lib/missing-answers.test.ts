@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { UnitSummary } from '@/lib/assessment-schema';
+import {
+    checkCompleteness, GENERATION_FALLBACKS, getMissingAnswerPolicy, isAnswered, listMissingFields,
+} from '@/lib/missing-answers';
+
+const units: UnitSummary[] = [
+    { unitCode: 'CHCCCS031', title: null, questionKeys: ['1', '2'] },
+    { unitCode: 'CHCCCS038', title: 'Facilitating Empowerment', questionKeys: ['1', '2', '3'] },
+];
+
+const env = (values: Record<string, string>) => values as unknown as NodeJS.ProcessEnv;
+
+const answered = { evaluation: { 1: { performance_observed: 'Asked first.', example_action: 'Said "may I?"' } }, conclusion: 'Met.' };
+
+// What generateQuestion returns when the model leaves every field out
+const placeholder = {
+    evaluation: { 1: { performance_observed: GENERATION_FALLBACKS.performanceObserved, example_action: GENERATION_FALLBACKS.exampleAction } },
+    conclusion: GENERATION_FALLBACKS.conclusion,
+};
+
+describe('getMissingAnswerPolicy', () => {
+    it('reads MISSING_ANSWER_POLICY and falls back to marker', () => {
+        expect(getMissingAnswerPolicy(env({ MISSING_ANSWER_POLICY: ' Block ' }))).toBe('block');
+        expect(getMissingAnswerPolicy(env({}))).toBe('marker');
+        expect(getMissingAnswerPolicy(env({ MISSING_ANSWER_POLICY: 'ignore' }))).toBe('marker');
+    });
+});
+
+describe('isAnswered', () => {
+    it('needs an evaluation', () => {
+        expect(isAnswered(answered)).toBe(true);
+        expect(isAnswered({ conclusion: 'Met.' })).toBe(false);
+        expect(isAnswered(undefined)).toBe(false);
+    });
+
+    it('needs some generated content, not only fallbacks', () => {
+        expect(isAnswered(placeholder)).toBe(false);
+        expect(isAnswered({ ...answered, evaluation: {}, conclusion: '' })).toBe(false);
+        expect(isAnswered({ ...placeholder, conclusion: 'Met.' })).toBe(true);
+    });
+});
+
+describe('listMissingFields', () => {
+    it('lists the empty and fallback fields of a partly answered question', () => {
+        expect(listMissingFields(answered)).toEqual([]);
+        expect(listMissingFields({
+            evaluation: { ...answered.evaluation, 2: { performance_observed: ' ', example_action: GENERATION_FALLBACKS.exampleAction } },
+            conclusion: GENERATION_FALLBACKS.conclusion,
+        })).toEqual(['criterion 2 observation', 'criterion 2 example action', 'conclusion']);
+    });
+});
+
+describe('checkCompleteness', () => {
+    it('lists unanswered questions of assessed units only', () => {
+        const report = checkCompleteness({ CHCCCS038: { 1: answered, 3: answered } }, units, ['CHCCCS038']);
+        expect(report).toEqual({
+            complete: false,
+            answered: 2,
+            total: 3,
+            units: [
+                { unitCode: 'CHCCCS031', title: null, assessed: false, missing: [], partial: [] },
+                { unitCode: 'CHCCCS038', title: 'Facilitating Empowerment', assessed: true, missing: ['2'], partial: [] },
+            ],
+            missing: ['CHCCCS038_2'],
+        });
+    });
+
+    it('is complete when every assessed question is answered', () => {
+        expect(checkCompleteness({ CHCCCS031: { 1: answered, 2: answered } }, units, ['CHCCCS031']).complete).toBe(true);
+    });
+
+    // The block policy refuses to fill the document whenever this lists anything
+    it('counts a result made only of generation fallbacks as missing', () => {
+        const report = checkCompleteness({ CHCCCS031: { 1: answered, 2: placeholder } }, units, ['CHCCCS031']);
+        expect(report.complete).toBe(false);
+        expect(report.missing).toEqual(['CHCCCS031_2']);
+    });
+
+    it('lists a partly answered question with its empty fields', () => {
+        const partial = { ...answered, conclusion: '' };
+        const report = checkCompleteness({ CHCCCS031: { 1: partial, 2: answered } }, units, ['CHCCCS031']);
+        expect(report.units[0].partial).toEqual([{ questionKey: '1', fields: ['conclusion'] }]);
+        expect(report).toMatchObject({ complete: false, answered: 1, missing: ['CHCCCS031_1'] });
+    });
+});
@@ -0,0 +1,147 @@
+import type { UnitSummary } from '@/lib/assessment-schema';
+
+/**
+ * What happens to a question of an assessed unit that has no generated answer when a document is filled:
+ *
+ * - `block`: the document is not produced until every question is answered.
+ * - `marker`: the question reads "NOT ASSESSED", so the gap is obvious to whoever marks the document.
+ * - `blank`: the question is left empty.
+ *
+ * The same policy covers the empty fields of a question that is otherwise answered, which keep the rest of
+ * the answer, and any template tag the filled values do not supply.
+ */
+export type MissingAnswerPolicy = 'block' | 'marker' | 'blank';
+
+export const MISSING_ANSWER_POLICIES: Record<MissingAnswerPolicy, { label: string; description: string }> = {
+    block: { label: 'Block download', description: 'Refuse to produce the document until every question is answered.' },
+    marker: { label: 'Mark as not assessed', description: 'Write "NOT ASSESSED" in place of each missing answer.' },
+    blank: { label: 'Leave blank', description: 'Leave each missing answer empty.' },
+};
+
+export const DEFAULT_MISSING_ANSWER_POLICY: MissingAnswerPolicy = 'marker';
+
+/** Written in place of a template tag without a value under the `marker` policy. */
+export const MISSING_ANSWER_MARKER = 'NOT ASSESSED';
+
+/** Written in place of an unanswered question under the `marker` policy. */
+export const MISSING_ANSWER_TEXT = `${MISSING_ANSWER_MARKER} – no answer was generated for this question.`;
+
+export const isMissingAnswerPolicy = (value: unknown): value is MissingAnswerPolicy =>
+    typeof value === 'string' && value in MISSING_ANSWER_POLICIES;
+
+/**
+ * Reads the server's missing-answer policy from `MISSING_ANSWER_POLICY` (block, marker or blank);
+ * `marker` when unset. A fill request may still pick another policy.
+ * @param env The environment to read the policy from.
+ * @returns The policy; an unknown value is ignored with a warning.
+ */
+export function getMissingAnswerPolicy(env: NodeJS.ProcessEnv = process.env): MissingAnswerPolicy {
+    const configured = env.MISSING_ANSWER_POLICY?.trim().toLowerCase();
+    if (!configured) return DEFAULT_MISSING_ANSWER_POLICY;
+    if (isMissingAnswerPolicy(configured)) return configured;
+    console.warn(`Ignoring unknown MISSING_ANSWER_POLICY '${env.MISSING_ANSWER_POLICY}'.`);
+    return DEFAULT_MISSING_ANSWER_POLICY;
+}
+
+/** What generateQuestion writes when the model leaves a field out, so the result still has every field. */
+export const GENERATION_FALLBACKS = {
+    performanceObserved: 'No observation generated.',
+    exampleAction: 'No example action found.',
+    conclusion: 'No conclusion generated.',
+    outcomeJustification: 'No justification generated.',
+} as const;
+
+/**
+ * Whether a generated field has content: empty text and generateQuestion's fallback count as missing.
+ * @param value The field's value.
+ * @param fallback The text generateQuestion writes when the model leaves this field out.
+ */
+export const isFilled = (value: unknown, fallback: string): boolean =>
+    typeof value === 'string' && !!value.trim() && value.trim() !== fallback;
+
+interface GeneratedQuestion {
+    evaluation?: Record<string, { performance_observed?: unknown; example_action?: unknown } | null>;
+    conclusion?: unknown;
+}
+
+/**
+ * Lists the fields of a question's generated result that have no content, e.g. `criterion 2 example action`.
+ * @param result The question's entry in the generated report.
+ */
+export function listMissingFields(result: unknown): string[] {
+    if (!result || typeof result !== 'object') return ['answer'];
+    const { evaluation, conclusion } = result as GeneratedQuestion;
+    const missing = Object.entries(evaluation && typeof evaluation === 'object' ? evaluation : {}).flatMap(([key, criterion]) => [
+        ...(isFilled(criterion?.performance_observed, GENERATION_FALLBACKS.performanceObserved) ? [] : [`criterion ${key} observation`]),
+        ...(isFilled(criterion?.example_action, GENERATION_FALLBACKS.exampleAction) ? [] : [`criterion ${key} example action`]),
+    ]);
+    if (!isFilled(conclusion, GENERATION_FALLBACKS.conclusion)) missing.push('conclusion');
+    return missing;
+}
+
+/**
+ * Whether a question has a generated result to fill its placeholder with: at least one of its criteria has an
+ * observation or example action, or it has a conclusion. Fields of an answered question that are still empty
+ * are listed by listMissingFields and filled on their own.
+ * @param result The question's entry in the generated report.
+ */
+export function isAnswered(result: unknown): boolean {
+    if (!result || typeof result !== 'object') return false;
+    const { evaluation, conclusion } = result as GeneratedQuestion;
+    if (!evaluation || typeof evaluation !== 'object') return false;
+    return Object.values(evaluation).some(criterion =>
+        isFilled(criterion?.performance_observed, GENERATION_FALLBACKS.performanceObserved)
+        || isFilled(criterion?.example_action, GENERATION_FALLBACKS.exampleAction)
+    ) || isFilled(conclusion, GENERATION_FALLBACKS.conclusion);
+}
+
+export interface UnitCompleteness {
+    unitCode: string;
+    title: string | null;
+    /** False for a unit left out of this assessment; its questions are marked as not assessed, not missing. */
+    assessed: boolean;
+    /** Question keys without an answer, e.g. `3`. Empty for units not assessed. */
+    missing: string[];
+    /** Answered questions with some fields still empty, and which fields. */
+    partial: Array<{ questionKey: string; fields: string[] }>;
+}
+
+export interface CompletenessReport {
+    /** True when every question of every assessed unit has an answer. */
+    complete: boolean;
+    /** Questions of the assessed units answered in full. */
+    answered: number;
+    /** Questions of the assessed units. */
+    total: number;
+    units: UnitCompleteness[];
+    /** Placeholders without an answer or with some fields empty, e.g. `CHCCCS038_3`. */
+    missing: string[];
+}
+
+/**
+ * Lists the question placeholders a document would be filled without, or filled only in part, by unit and question.
+ * @param answers The generated report, keyed by unit code and question key.
+ * @param units The qualification's units, in schema order.
+ * @param assessedUnits The units included in this assessment.
+ */
+export function checkCompleteness(answers: Record<string, any>, units: UnitSummary[], assessedUnits: string[]): CompletenessReport {
+    let answered = 0;
+    let total = 0;
+    const missing: string[] = [];
+    const summaries = units.map(({ unitCode, title, questionKeys }): UnitCompleteness => {
+        const assessed = assessedUnits.includes(unitCode);
+        const summary: UnitCompleteness = { unitCode, title, assessed, missing: [], partial: [] };
+        if (!assessed) return summary;
+        for (const questionKey of questionKeys) {
+            const result = answers?.[unitCode]?.[questionKey];
+            const fields = isAnswered(result) ? listMissingFields(result) : null;
+            if (!fields) summary.missing.push(questionKey);
+            else if (fields.length > 0) summary.partial.push({ questionKey, fields });
+            else answered++;
+            if (fields?.length !== 0) missing.push(`${unitCode}_${questionKey}`);
+        }
+        total += questionKeys.length;
+        return summary;
+    });
+    return { complete: missing.length === 0, answered, total, units: summaries, missing };
+}
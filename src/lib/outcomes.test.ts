@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { deriveOverallOutcome, normaliseOutcome } from '@/lib/outcomes';
+
+describe('normaliseOutcome', () => {
+    it.each([
+        ['S', 'S'],
+        ['Satisfactory', 'S'],
+        ['nys', 'NYS'],
+        ['Not Yet Satisfactory', 'NYS'],
+        ['not-yet-satisfactory', 'NYS'],
+        ['insufficient evidence', 'INSUFFICIENT_EVIDENCE'],
+        ['maybe', 'INSUFFICIENT_EVIDENCE'],
+        [undefined, 'INSUFFICIENT_EVIDENCE'],
+    ])('reads %s as %s', (value, expected) => {
+        expect(normaliseOutcome(value)).toBe(expected);
+    });
+});
+
+describe('deriveOverallOutcome', () => {
+    it('is NYS when any criterion is NYS', () => {
+        expect(deriveOverallOutcome(['S', 'NYS', 'INSUFFICIENT_EVIDENCE'])).toBe('NYS');
+    });
+
+    it('is S only when every criterion is S', () => {
+        expect(deriveOverallOutcome(['S', 'S'])).toBe('S');
+        expect(deriveOverallOutcome(['S', 'INSUFFICIENT_EVIDENCE'])).toBe('INSUFFICIENT_EVIDENCE');
+    });
+
+    it('is insufficient evidence without criteria', () => {
+        expect(deriveOverallOutcome([])).toBe('INSUFFICIENT_EVIDENCE');
+    });
+});
@@ -0,0 +1,40 @@
+/**
+ * Competency outcomes recorded per benchmark criterion and per main question.
+ */
+
+export const OUTCOMES = ['S', 'NYS', 'INSUFFICIENT_EVIDENCE'] as const;
+
+export type Outcome = typeof OUTCOMES[number];
+
+export const OUTCOME_LABELS: Record<Outcome, string> = {
+    S: 'Satisfactory',
+    NYS: 'Not Yet Satisfactory',
+    INSUFFICIENT_EVIDENCE: 'Insufficient Evidence',
+};
+
+/** Prompt guidance for choosing an outcome; shared by the system prompt and the response schema. */
+export const OUTCOME_GUIDANCE = `S (Satisfactory) when the transcript shows the student meeting the criterion; NYS (Not Yet Satisfactory) when the student attempted it but their response falls short of the benchmark; INSUFFICIENT_EVIDENCE when the transcript does not address the criterion at all.`;
+
+/**
+ * Normalises a model-provided outcome.
+ * @param value The raw value.
+ * @returns A valid outcome; unknown values are treated as insufficient evidence.
+ */
+export function normaliseOutcome(value: unknown): Outcome {
+    const upper = String(value ?? '').trim().toUpperCase().replace(/[\s-]+/g, '_');
+    if (upper === 'SATISFACTORY') return 'S';
+    if (upper === 'NOT_YET_SATISFACTORY') return 'NYS';
+    return (OUTCOMES as readonly string[]).includes(upper) ? upper as Outcome : 'INSUFFICIENT_EVIDENCE';
+}
+
+/**
+ * Derives a question's overall outcome from its criteria: NYS if any criterion is NYS,
+ * S only if every criterion is S, otherwise insufficient evidence.
+ * @param outcomes The per-criterion outcomes.
+ * @returns The overall outcome.
+ */
+export function deriveOverallOutcome(outcomes: Outcome[]): Outcome {
+    if (outcomes.includes('NYS')) return 'NYS';
+    if (outcomes.length > 0 && outcomes.every(outcome => outcome === 'S')) return 'S';
+    return 'INSUFFICIENT_EVIDENCE';
+}
@@ -0,0 +1,78 @@
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+// A first run of LibreOffice sets up its profile, which takes a while on a cold machine
+const CONVERSION_TIMEOUT_MS = 120_000;
+
+/**
+ * Raised when a DOCX cannot be converted to PDF. `unavailable` is set when no converter is installed,
+ * as opposed to the converter failing on this document.
+ */
+export class PdfConversionError extends Error {
+    constructor(message: string, public readonly unavailable = false) {
+        super(message);
+        this.name = 'PdfConversionError';
+    }
+}
+
+/**
+ * Converts a DOCX to PDF with a local headless LibreOffice, so documents never leave the machine.
+ *
+ * - `SOFFICE_PATH`: the LibreOffice executable; `soffice` on the PATH by default.
+ * - `PDF_PERMISSION_PASSWORD`: when set, the PDF is locked against editing, and the password is needed to change that.
+ *
+ * Each conversion uses its own temporary LibreOffice profile, so conversions can run side by side.
+ * @param docx The filled DOCX.
+ * @returns The PDF.
+ * @throws PdfConversionError if LibreOffice is not installed, fails or times out.
+ */
+export async function convertDocxToPdf(docx: Buffer, env: NodeJS.ProcessEnv = process.env): Promise<Buffer> {
+    const soffice = env.SOFFICE_PATH || 'soffice';
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fill-doc-'));
+    try {
+        const inputPath = path.join(workDir, 'document.docx');
+        await fs.writeFile(inputPath, docx);
+
+        let filter = 'pdf:writer_pdf_Export';
+        if (env.PDF_PERMISSION_PASSWORD) {
+            filter += `:${JSON.stringify({
+                RestrictPermissions: { type: 'boolean', value: 'true' },
+                PermissionPassword: { type: 'string', value: env.PDF_PERMISSION_PASSWORD },
+                Changes: { type: 'long', value: '0' },
+            })}`;
+        }
+
+        try {
+            await execFileAsync(soffice, [
+                `-env:UserInstallation=file://${path.join(workDir, 'profile')}`,
+                '--headless',
+                '--norestore',
+                '--convert-to', filter,
+                '--outdir', workDir,
+                inputPath,
+            ], { timeout: CONVERSION_TIMEOUT_MS });
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                throw new PdfConversionError(
+                    `PDF export needs LibreOffice, but '${soffice}' was not found. Install LibreOffice or set SOFFICE_PATH.`,
+                    true
+                );
+            }
+            const reason = error.killed ? 'timed out' : (error.stderr?.trim() || error.message);
+            throw new PdfConversionError(`LibreOffice could not convert the document to PDF: ${reason}`);
+        }
+
+        try {
+            return await fs.readFile(path.join(workDir, 'document.pdf'));
+        } catch {
+            throw new PdfConversionError('LibreOffice finished without producing a PDF.');
+        }
+    } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+    }
+}
@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { getMainQuestion, type AssessmentUnit, type MainQuestion } from '@/lib/assessment-schema';
+import { buildQuestionPrompt, estimateTokens, extractQuestionGuide, type QuestionPromptInput } from '@/lib/prompt-builder';
+import { getQualification, loadQualificationSchema } from '@/lib/qualifications';
+
+let unitData: AssessmentUnit;
+let questionData: MainQuestion;
+let secondQuestion: MainQuestion;
+let input: QuestionPromptInput;
+let schemaText: string | undefined;
+
+beforeAll(async () => {
+    const qualification = await getQualification();
+    const { schema, text } = await loadQualificationSchema(qualification);
+    schemaText = text;
+    unitData = schema.CHCCCS038;
+    questionData = getMainQuestion(schema, 'CHCCCS038', '1')!;
+    secondQuestion = getMainQuestion(schema, 'CHCCCS038', '2')!;
+    input = {
+        transcript: 'Jo: How do you start?\nSam: I would read the care plan first.',
+        persona: qualification,
+        unitData,
+        questionData,
+    };
+});
+
+describe('extractQuestionGuide', () => {
+    it('keeps each criterion of the question in order with its benchmark material', () => {
+        const guide = extractQuestionGuide(questionData);
+        expect(guide.question).toBe(questionData.question);
+        expect(guide.criteria.map((criterion: { number: string }) => criterion.number)).toEqual(['1', '2', '3', '4']);
+        expect(guide.criteria[0]).toEqual(expect.objectContaining({
+            benchmarkAns: questionData.rolePlayScenerio['instruction for roleplay']['1'].benchmarkAns,
+        }));
+        expect(guide.benchmarkConclusion).toBe(questionData.rolePlayScenerio['instruction for roleplay'].benchmarkConclusion);
+    });
+});
+
+describe('buildQuestionPrompt', () => {
+    it('includes the transcript and the guide for the one question only', () => {
+        const { prompt } = buildQuestionPrompt(input);
+        expect(prompt).toContain('--- TRANSCRIPT START ---\nJo: How do you start?');
+        expect(prompt).toContain(JSON.stringify(extractQuestionGuide(questionData), null, 2));
+        expect(prompt).toContain(questionData.rolePlayScenerio.desc);
+        expect(prompt).not.toContain(secondQuestion.question);
+    });
+
+    it('does not claim the response schema follows the prompt', () => {
+        const { prompt } = buildQuestionPrompt(input);
+        expect(prompt).not.toMatch(/following JSON Schema/i);
+        expect(prompt.trimEnd()).toMatch(/outside of the JSON object itself\.$/);
+    });
+
+    it('adds the role, timestamp and redaction instructions only for transcripts that need them', () => {
+        const plain = buildQuestionPrompt(input).prompt;
+        expect(plain).not.toContain('labelled by role');
+        expect(plain).not.toContain('[hh:mm:ss] timestamps');
+        expect(plain).not.toContain('replaced with tokens');
+
+        const transcript = '[00:00:05] Assessor: How do you start?\n[00:00:09] Student: I would ask [NAME_1] what they need.';
+        const prompt = buildQuestionPrompt({ ...input, transcript }).prompt;
+        expect(prompt).toContain('labelled by role');
+        expect(prompt).toContain('[hh:mm:ss] timestamps');
+        expect(prompt).toContain('replaced with tokens');
+    });
+
+    it('asks for the feedback to be applied to the previous answer', () => {
+        const plain = buildQuestionPrompt(input).prompt;
+        expect(plain).not.toContain('ASSESSOR FEEDBACK');
+
+        const previousResult = { conclusion: 'Competent.' };
+        const { prompt } = buildQuestionPrompt({ ...input, feedback: '  Focus on consent.  ', previousResult });
+        expect(prompt).toContain(`--- PREVIOUS ANSWER START ---\n${JSON.stringify(previousResult, null, 2)}\n--- PREVIOUS ANSWER END ---`);
+        expect(prompt).toContain('--- ASSESSOR FEEDBACK START ---\nFocus on consent.\n--- ASSESSOR FEEDBACK END ---');
+        // Feedback of only whitespace is ignored
+        expect(buildQuestionPrompt({ ...input, feedback: ' ', previousResult }).prompt).toBe(plain);
+    });
+
+    it('measures the savings against the schema file as written', () => {
+        const fullSchemaText = schemaText ?? '';
+        expect(fullSchemaText).not.toBe('');
+        const { budget } = buildQuestionPrompt({ ...input, fullSchemaText });
+
+        expect(budget.savedTokens).toBe(estimateTokens(fullSchemaText) - budget.guideTokens);
+        expect(budget.savedTokens).toBeGreaterThan(0);
+        expect(budget.transcriptTokens).toBe(estimateTokens(input.transcript));
+        expect(buildQuestionPrompt(input).budget.savedTokens).toBe(0);
+    });
+});
@@ -0,0 +1,239 @@
+import { getCriterionKeys, type AssessmentUnit, type MainQuestion } from '@/lib/assessment-schema';
+import { PLACEHOLDER_INSTRUCTIONS } from '@/lib/pronouns';
+import { OUTCOME_GUIDANCE } from '@/lib/outcomes';
+import { isTimestamped } from '@/lib/transcript-model';
+import { SPEAKER_ROLE_LABELS, usesCanonicalRoles } from '@/lib/speaker-roles';
+import { isRedacted } from '@/lib/redaction';
+
+/**
+ * Builds the per-question generation prompt. Only the guide material for the question being
+ * assessed is included, rather than the whole schema.json for every unit.
+ */
+
+/** The qualification-specific parts of the system prompt, taken from the qualification registry. */
+export interface AssessorPersona {
+    /** Who the model acts as, e.g. an assessor for a named qualification. */
+    persona: string;
+    /** Title of the assessment kit the guide material comes from. */
+    assessmentGuideTitle: string;
+}
+
+/**
+ * Builds the system prompt for a qualification.
+ * @param persona The qualification's assessor persona and assessment kit title.
+ * @returns The instructions that open every generation prompt.
+ */
+export function buildSystemPrompt({ persona, assessmentGuideTitle }: AssessorPersona): string {
+    return `${persona.trim()}
+
+Context:
+
+You will be provided with two key pieces of information:
+
+The Assessment Guide: The "${assessmentGuideTitle}". This document contains the official role-play scenarios, questions, and crucially, the formatting and structure of a high-quality benchmark answer (e.g., "Performance to Observe," "Example Actions," "Conclusion").
+
+The Student Transcript: A text transcript of a competency conversation between an assessor and a student for a specific question from the Assessment Guide.
+
+Primary Objective:
+
+Your goal is to act as the official assessor. Based on the evidence presented in the Student Transcript, you will write a new, comprehensive Benchmark Answer. This generated answer must evaluate the student's performance and be written in the exact format and professional tone of the examples found in the Assessment Guide.
+
+Step-by-Step Instructions to Generate Each Benchmark Answer:
+
+Analyze the Student Transcript:
+Carefully read the entire student transcript for the specific question being assessed.
+Identify and extract the key evidence from the student's responses. Look for specific examples, demonstrated skills, stated knowledge, and any gaps or areas where the response was weak.
+
+Reference the Assessment Guide:
+Locate the corresponding question in the Assessment Guide to understand the required criteria.
+Pay close attention to the structure, headings (e.g., "Performance to Observe," "Example Actions"), and the level of detail expected in a benchmark answer. The guide is your template for style and format.
+
+Synthesize and Write the Benchmark Answer:
+Begin writing the new benchmark answer.
+Under headings like "Performance to Observe," describe what the student actually did in the transcript. Synthesize their performance into a professional evaluation. For example: "(student name) effectively demonstrated respect for cultural identity by asking the client about..."
+Under headings like "Example Actions," provide direct examples or close paraphrases from the transcript to justify your evaluation. For instance: Example Action: (student name) stated, "I understand that your faith is important to you, so I ensured the art group is women-only and respects cultural attire." This directly addresses the criterion.
+Write a concise "Conclusion" that summarizes whether the student's performance in the transcript successfully met the requirements of the unit.
+
+Judge the Outcome:
+For every benchmark criterion, record an outcome: ${OUTCOME_GUIDANCE}
+Then record an overall outcome for the question with a short justification. The overall outcome can only be S if every criterion is S.
+
+Apply Mandatory Formatting and Placeholders:
+Structure: Your generated answer must follow the structure of the benchmark examples in the Assessment Guide (e.g., numbered points, bold headings, etc.).
+Placeholders:
+${PLACEHOLDER_INSTRUCTIONS}
+
+Repeat for All Questions:
+Follow this process for every question and corresponding transcript section provided.`;
+}
+
+/** Added when the transcript lines start with `[hh:mm:ss]` times, e.g. from an imported Zoom or Teams recording. */
+const TIMESTAMP_INSTRUCTIONS = `
+The transcript lines begin with [hh:mm:ss] timestamps from the recording. In each Example Action, cite the time of every quote straight after its closing quotation mark, e.g. "I asked for consent first" (at 00:12:04). Never put the timestamp or the speaker's label inside the quotation marks.
+`;
+
+/** Added when personal details in the transcript were replaced with tokens before it was sent. */
+const REDACTION_INSTRUCTIONS = `
+Personal details in the transcript have been replaced with tokens such as [NAME_1], [PHONE_1] or [ADDRESS_1]; each token always stands for the same detail. Copy a token exactly as written, brackets included, wherever you would have used the detail, including inside quotes. Never guess the detail behind a token or invent new tokens.
+`;
+
+/** Added when the speakers have been mapped to their roles, so only the student's own words are credited. */
+const SPEAKER_ROLE_INSTRUCTIONS = `
+The speakers in the transcript are labelled by role: "${SPEAKER_ROLE_LABELS.student}" is the student being assessed, "${SPEAKER_ROLE_LABELS.assessor}" is the assessor and "${SPEAKER_ROLE_LABELS.client}" is the assessor playing the client. Only credit the student for what is said on lines labelled "${SPEAKER_ROLE_LABELS.student}". Never quote another speaker as the student's evidence, and do not credit the student for ideas the assessor or client raised unless the student acted on or expanded them in their own words.
+`;
+
+/** Rough characters-per-token ratio for English prose; good enough for budgeting. */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Approximate token counts for one generation call.
+ */
+export interface PromptBudget {
+    systemTokens: number;
+    transcriptTokens: number;
+    guideTokens: number;
+    totalTokens: number;
+    /** Tokens the previous prompt (embedding the full schema.json) would have used on top of this one. */
+    savedTokens: number;
+}
+
+export interface QuestionPromptInput {
+    transcript: string;
+    /** The assessor persona of the qualification being assessed. */
+    persona: AssessorPersona;
+    /** The unit entry from schema.json (includes `assessment_guide`). */
+    unitData: AssessmentUnit;
+    /** The main question entry from schema.json. */
+    questionData: MainQuestion;
+    /** The schema file as written, used only to report the savings against embedding it. */
+    fullSchemaText?: string;
+    /** Assessor feedback when regenerating a single question, e.g. "focus more on cultural needs". */
+    feedback?: string;
+    /** The previously generated answer the feedback refers to. */
+    previousResult?: unknown;
+}
+
+/**
+ * Estimates the number of tokens in a piece of text.
+ * @param text The text to measure.
+ * @returns The approximate token count.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil((text || '').length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Extracts the criteria material relevant to a single main question: each numbered criterion
+ * with its key actions, guidance, example action and benchmark answer, plus the benchmark
+ * description and conclusion. The scenario description is placed in the assessment guide block instead.
+ * @param questionData The main question entry from schema.json.
+ * @returns A compact JSON-serialisable guide for the question.
+ */
+export function extractQuestionGuide(questionData: MainQuestion): { [key: string]: any } {
+    const instructions = questionData.rolePlayScenerio['instruction for roleplay'];
+
+    const criteria = getCriterionKeys(instructions).map(key => {
+        const criterion = instructions[key];
+        return {
+            number: key,
+            question: criterion.question,
+            keyActions: criterion.keyActions,
+            guidance: criterion.guidance,
+            exampleAction: criterion.exampleAction,
+            benchmarkAns: criterion.benchmarkAns,
+        };
+    });
+
+    return {
+        question: questionData.question,
+        criteria,
+        benchmarkAnsDesc: instructions.benchmarkAnsDesc,
+        benchmarkConclusion: instructions.benchmarkConclusion,
+    };
+}
+
+/**
+ * Combines the unit-level assessment guide with the question's role-play scenario description.
+ * @param unitData The unit entry from schema.json.
+ * @param questionData The main question entry from schema.json.
+ * @returns The text for the assessment guide content block.
+ */
+export function buildAssessmentGuideContent(unitData: AssessmentUnit, questionData: MainQuestion): string {
+    return `Unit assessment guide:
+${unitData.assessment_guide}
+
+Role-play scenario for this question:
+${questionData.rolePlayScenerio.desc}`;
+}
+
+/**
+ * Builds the optional block asking the model to revise a previous answer according to assessor feedback.
+ * @returns The block text, or a single newline when there is no feedback.
+ */
+function buildFeedbackSection(feedback?: string, previousResult?: unknown): string {
+    if (!feedback?.trim()) return '\n';
+
+    const previous = previousResult
+        ? `
+Here is the previously generated answer for this question:
+--- PREVIOUS ANSWER START ---
+${JSON.stringify(previousResult, null, 2)}
+--- PREVIOUS ANSWER END ---
+`
+        : '';
+
+    return `${previous}
+The assessor has reviewed the answer for this question and asked for the following changes. Apply them while staying strictly within the evidence in the transcript:
+--- ASSESSOR FEEDBACK START ---
+${feedback.trim()}
+--- ASSESSOR FEEDBACK END ---
+
+`;
+}
+
+/**
+ * Builds the prompt for one main question together with a token budget report.
+ * @param input The transcript section and the schema entries for the question.
+ * @returns The prompt text and its approximate token budget.
+ */
+export function buildQuestionPrompt({ transcript, persona, unitData, questionData, fullSchemaText, feedback, previousResult }: QuestionPromptInput): { prompt: string; budget: PromptBudget } {
+    const systemPrompt = buildSystemPrompt(persona);
+    const questionGuideText = JSON.stringify(extractQuestionGuide(questionData), null, 2);
+    const assessmentGuide = buildAssessmentGuideContent(unitData, questionData);
+    const feedbackSection = buildFeedbackSection(feedback, previousResult);
+
+    const prompt = `${systemPrompt}
+
+
+Here is the student's transcript:
+--- TRANSCRIPT START ---
+${transcript}
+--- TRANSCRIPT END ---
+${usesCanonicalRoles(transcript) ? SPEAKER_ROLE_INSTRUCTIONS : ''}${isTimestamped(transcript) ? TIMESTAMP_INSTRUCTIONS : ''}${isRedacted(transcript) ? REDACTION_INSTRUCTIONS : ''}
+Here is the JSON guide for this question, including its benchmark criteria:
+--- JSON GUIDE START ---
+${questionGuideText}
+--- JSON GUIDE END ---
+
+Here is the assessment guide content for this unit and question:
+--- ASSESSMENT GUIDE CONTENT START ---
+${assessmentGuide}
+--- ASSESSMENT GUIDE CONTENT END ---
+${feedbackSection}
+**Your Task:**
+You must act as the VET Assessor. Your goal is to generate the final, real benchmark answer by analyzing the **transcript** and following the structure provided in the **JSON guide** above.
+
+**Output Instructions:**
+Your response MUST be a single, valid JSON object with every field of the response schema. Do NOT include any text, explanations, or markdown formatting outside of the JSON object itself.`;
+
+    const systemTokens = estimateTokens(systemPrompt);
+    const transcriptTokens = estimateTokens(transcript);
+    const guideTokens = estimateTokens(questionGuideText) + estimateTokens(assessmentGuide);
+    const totalTokens = estimateTokens(prompt);
+    const savedTokens = fullSchemaText ? Math.max(0, estimateTokens(fullSchemaText) - guideTokens) : 0;
+
+    return {
+        prompt,
+        budget: { systemTokens, transcriptTokens, guideTokens, totalTokens, savedTokens },
+    };
+}
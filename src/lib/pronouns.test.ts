@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { findUnresolvedPlaceholders, personaliseText, PRONOUN_PRESETS, resolvePronouns } from '@/lib/pronouns';
+
+const xe = { subject: 'xe', object: 'xem', possessive: 'xyr', possessivePronoun: 'xyrs', reflexive: 'xemself' };
+
+describe('personaliseText', () => {
+    it('substitutes a custom pronoun set, capitalising at the start of a sentence', () => {
+        const text = '{PRONOUN_SUBJECT} greeted the client. (student name) asked {PRONOUN_OBJECT} to wait while '
+            + '{PRONOUN_SUBJECT} washed {PRONOUN_POSSESSIVE} hands; the gloves were {PRONOUN_POSSESSIVE_PRONOUN}.\n'
+            + '{PRONOUN_SUBJECT} introduced {PRONOUN_REFLEXIVE}.';
+        expect(personaliseText(text, 'Sam Lee', xe)).toBe(
+            'Xe greeted the client. Sam Lee asked xem to wait while xe washed xyr hands; the gloves were xyrs.\n'
+            + 'Xe introduced xemself.'
+        );
+    });
+
+    it('replaces the placeholders of earlier prompts and schema examples', () => {
+        const text = 'STUDENT NAME checked (his/her) notes. (He/She) then asked (him/her) a question.';
+        expect(personaliseText(text, 'Sam Lee', xe)).toBe('Sam Lee checked xyr notes. Xe then asked xem a question.');
+        expect(personaliseText(text, 'Sam Lee', PRONOUN_PRESETS.she)).toBe('Sam Lee checked her notes. She then asked her a question.');
+    });
+});
+
+describe('resolvePronouns', () => {
+    it('uses a complete custom set and falls back to they/them for an incomplete one', () => {
+        expect(resolvePronouns('custom', xe)).toEqual(xe);
+        expect(resolvePronouns('custom', { ...xe, reflexive: ' ' })).toEqual(PRONOUN_PRESETS.they);
+        expect(resolvePronouns('he')).toEqual(PRONOUN_PRESETS.he);
+        expect(resolvePronouns(undefined)).toEqual(PRONOUN_PRESETS.they);
+    });
+});
+
+describe('findUnresolvedPlaceholders', () => {
+    it('lists each placeholder left in the text once', () => {
+        expect(findUnresolvedPlaceholders('{PRONOUN_SUBJECT} and {PRONOUN_SUBJECT} met (Student Name) and (she/he).'))
+            .toEqual(['{PRONOUN_SUBJECT}', '(Student Name)', '(she/he)']);
+        expect(findUnresolvedPlaceholders('Sam Lee greeted xem.')).toEqual([]);
+    });
+});
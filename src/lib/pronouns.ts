@@ -0,0 +1,122 @@
+/**
+ * Pronoun handling for generated answers. The model writes structured tokens instead of pronouns,
+ * and /api/fill-doc substitutes the student's name and pronouns when the document is produced.
+ */
+
+export type PronounOption = 'he' | 'she' | 'they' | 'custom';
+
+export interface PronounSet {
+    /** e.g. he / she / they */
+    subject: string;
+    /** e.g. him / her / them */
+    object: string;
+    /** e.g. his / her / their */
+    possessive: string;
+    /** e.g. his / hers / theirs */
+    possessivePronoun: string;
+    /** e.g. himself / herself / themselves */
+    reflexive: string;
+}
+
+export const PRONOUN_PRESETS: Record<Exclude<PronounOption, 'custom'>, PronounSet> = {
+    he: { subject: 'he', object: 'him', possessive: 'his', possessivePronoun: 'his', reflexive: 'himself' },
+    she: { subject: 'she', object: 'her', possessive: 'her', possessivePronoun: 'hers', reflexive: 'herself' },
+    they: { subject: 'they', object: 'them', possessive: 'their', possessivePronoun: 'theirs', reflexive: 'themselves' },
+};
+
+export const PRONOUN_LABELS: Record<PronounOption, string> = {
+    he: 'He/Him',
+    she: 'She/Her',
+    they: 'They/Them',
+    custom: 'Custom',
+};
+
+/** Tokens the model must use in place of the student's name and pronouns. */
+export const STUDENT_NAME_TOKEN = '(student name)';
+export const PRONOUN_TOKENS: Record<keyof PronounSet, string> = {
+    subject: '{PRONOUN_SUBJECT}',
+    object: '{PRONOUN_OBJECT}',
+    possessive: '{PRONOUN_POSSESSIVE}',
+    possessivePronoun: '{PRONOUN_POSSESSIVE_PRONOUN}',
+    reflexive: '{PRONOUN_REFLEXIVE}',
+};
+
+/** Prompt instructions describing the tokens; kept next to the tokens so the two cannot drift apart. */
+export const PLACEHOLDER_INSTRUCTIONS = `Use the placeholder ${STUDENT_NAME_TOKEN} when referring to the student by name.
+Never write the student's pronouns directly. Use these tokens exactly as shown instead; they are replaced with the student's own pronouns later:
+${PRONOUN_TOKENS.subject} for he / she / they
+${PRONOUN_TOKENS.object} for him / her / them
+${PRONOUN_TOKENS.possessive} for his / her / their
+${PRONOUN_TOKENS.possessivePronoun} for his / hers / theirs
+${PRONOUN_TOKENS.reflexive} for himself / herself / themselves
+Prefer past-tense verbs after ${PRONOUN_TOKENS.subject} (e.g. "${PRONOUN_TOKENS.subject} explained") so the sentence reads correctly for any pronoun.`;
+
+// Placeholders produced by earlier prompts and by the benchmark examples in schema.json
+const LEGACY_REPLACEMENTS: Array<[RegExp, keyof PronounSet | 'name']> = [
+    [/\((?:he\/she|she\/he)\)/gi, 'subject'],
+    [/\((?:him\/her|her\/him)\)/gi, 'object'],
+    [/\((?:his\/her|her\/his)\)/gi, 'possessive'],
+    [/\bSTUDENT NAME\b/g, 'name'],
+];
+
+const UNRESOLVED_PATTERNS = [
+    /\{PRONOUN_[A-Z_]*\}/g,
+    /\(student name\)/gi,
+    /\((?:he|she|him|her|his)\/(?:he|she|him|her|his)\)/gi,
+    /\bSTUDENT NAME\b/g,
+];
+
+/**
+ * Resolves the form selection into a full pronoun set.
+ * @param option The selected option.
+ * @param custom The custom pronouns, required when `option` is 'custom'.
+ * @returns The pronoun set; falls back to they/them if a custom set is incomplete.
+ */
+export function resolvePronouns(option: PronounOption | undefined, custom?: Partial<PronounSet>): PronounSet {
+    if (option === 'custom') {
+        const complete = custom && (Object.keys(PRONOUN_TOKENS) as Array<keyof PronounSet>).every(key => custom[key]?.trim());
+        return complete ? (custom as PronounSet) : PRONOUN_PRESETS.they;
+    }
+    return PRONOUN_PRESETS[option || 'they'] || PRONOUN_PRESETS.they;
+}
+
+/**
+ * Capitalises a replacement that starts a sentence.
+ */
+function matchCase(replacement: string, text: string, offset: number): string {
+    const before = text.slice(0, offset);
+    const startsSentence = before.trim() === '' || /(?:[.!?:]\s+|\n\s*)$/.test(before);
+    return startsSentence ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+}
+
+/**
+ * Replaces the student name and pronoun tokens in generated text.
+ * @param text Text produced by the model.
+ * @param studentName The student's name.
+ * @param pronouns The student's pronouns.
+ * @returns The personalised text.
+ */
+export function personaliseText(text: string, studentName: string, pronouns: PronounSet): string {
+    let result = text.replace(/\(student name\)/gi, studentName);
+
+    for (const [key, token] of Object.entries(PRONOUN_TOKENS) as Array<[keyof PronounSet, string]>) {
+        result = result.split(token).reduce((acc, part, index) =>
+            index === 0 ? part : acc + matchCase(pronouns[key], acc, acc.length) + part, '');
+    }
+
+    for (const [pattern, key] of LEGACY_REPLACEMENTS) {
+        result = result.replace(pattern, (_match, offset: number, whole: string) =>
+            key === 'name' ? studentName : matchCase(pronouns[key], whole, offset));
+    }
+
+    return result;
+}
+
+/**
+ * Finds name or pronoun placeholders that were not substituted.
+ * @param text The personalised text.
+ * @returns The distinct placeholders still present.
+ */
+export function findUnresolvedPlaceholders(text: string): string[] {
+    return Array.from(new Set(UNRESOLVED_PATTERNS.flatMap(pattern => text.match(pattern) || [])));
+}
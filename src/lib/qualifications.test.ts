@@ -0,0 +1,91 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+    formatDocumentFilename, getQualification, listQualifications, loadQualifications, QualificationError,
+    UnknownQualificationError, type Qualification,
+} from '@/lib/qualifications';
+
+const entry = (code: string) => ({
+    code,
+    title: `Certificate ${code}`,
+    schema: 'schema.json',
+    template: 'templates/blank_form.docx',
+    persona: 'You are an assessor.',
+    assessmentGuideTitle: 'Assessment Kit',
+});
+
+let dir: string;
+
+beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'qualifications-'));
+});
+
+afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+});
+
+/** Writes a registry file into the test directory and returns its path. */
+async function writeRegistry(name: string, content: unknown): Promise<string> {
+    const filePath = path.join(dir, name);
+    await fs.writeFile(filePath, typeof content === 'string' ? content : JSON.stringify(content));
+    return filePath;
+}
+
+describe('getQualification', () => {
+    it('gives the registry default when no code is named', async () => {
+        const { defaultCode } = await loadQualifications();
+        expect((await getQualification()).code).toBe(defaultCode);
+        expect((await getQualification(null)).code).toBe(defaultCode);
+        expect((await getQualification(defaultCode)).code).toBe(defaultCode);
+    });
+
+    it('rejects a code the registry does not list, naming the known codes', async () => {
+        const { qualifications } = await loadQualifications();
+        const error = await getQualification('XYZ99999').catch(caught => caught);
+
+        expect(error).toBeInstanceOf(UnknownQualificationError);
+        expect(error).toBeInstanceOf(QualificationError);
+        expect(error).toMatchObject({ name: 'UnknownQualificationError', code: 'XYZ99999' });
+        expect(error.message).toBe(`Unknown qualification 'XYZ99999'. Expected one of: ${qualifications.map(({ code }) => code).join(', ')}.`);
+    });
+
+    it('marks the default when listing the qualifications', async () => {
+        const { defaultCode } = await loadQualifications();
+        expect(await listQualifications()).toContainEqual(expect.objectContaining({ code: defaultCode, isDefault: true }));
+    });
+});
+
+describe('loadQualifications', () => {
+    it('defaults to the first qualification and the standard filename pattern', async () => {
+        const registry = await loadQualifications(await writeRegistry('plain.json', { qualifications: [entry('AAA1'), entry('BBB2')] }));
+        expect(registry.defaultCode).toBe('AAA1');
+        expect(registry.qualifications[1].filenamePattern).toBe('{studentName}_{code}.docx');
+    });
+
+    it.each([
+        ['invalid.json', '{ "qualifications": [', /is not valid JSON/],
+        ['empty.json', { qualifications: [] }, /does not match the expected structure: qualifications: /],
+        ['untitled.json', { qualifications: [{ ...entry('AAA1'), title: '' }] }, /qualifications > 0 > title: /],
+        ['duplicate.json', { qualifications: [entry('AAA1'), entry('AAA1')] }, /lists qualification 'AAA1' more than once/],
+        ['default.json', { default: 'CCC3', qualifications: [entry('AAA1')] }, /the default qualification 'CCC3' is not listed/],
+    ])('rejects %s', async (name, content, message) => {
+        await expect(loadQualifications(await writeRegistry(name, content))).rejects.toThrow(message);
+    });
+
+    it('reports a missing file', async () => {
+        await expect(loadQualifications(path.join(dir, 'missing.json'))).rejects.toThrow(
+            expect.objectContaining({ name: 'QualificationError', message: expect.stringContaining('missing.json could not be read') })
+        );
+    });
+});
+
+describe('formatDocumentFilename', () => {
+    const qualification = { ...entry('CHC33021'), filenamePattern: '{studentName}_{code}_{term}' } as Qualification;
+
+    it('fills the pattern, keeps unknown fields and replaces characters a filename cannot hold', () => {
+        expect(formatDocumentFilename(qualification, 'Jo O\'Neil/Smith')).toBe('Jo O\'Neil_Smith_CHC33021_{term}.docx');
+        expect(formatDocumentFilename({ ...qualification, filenamePattern: '{studentName}.DOCX' }, '')).toBe('Student.DOCX');
+    });
+});
@@ -0,0 +1,175 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { z } from 'zod';
+import { loadAssessmentSchema, type LoadedAssessmentSchema } from '@/lib/assessment-schema';
+
+/**
+ * The qualification registry, qualifications.json. Each entry bundles what is specific to one
+ * qualification: its assessment schema, its DOCX template, the assessor persona the model plays
+ * and the pattern for the produced document's filename. Reports record the qualification they
+ * were created for; requests that name none use the registry's default.
+ */
+
+export const QUALIFICATIONS_PATH = path.join(process.cwd(), 'qualifications.json');
+
+const QualificationModel = z.object({
+    /** National code, e.g. CHC33021. */
+    code: z.string().min(1),
+    title: z.string().min(1),
+    /** Assessment schema file, relative to the project root. */
+    schema: z.string().min(1),
+    /** DOCX template file, relative to the project root. */
+    template: z.string().min(1),
+    /** Who the model acts as, opening the system prompt. */
+    persona: z.string().min(1),
+    /** Title of the assessment kit the guide material comes from, as the model should refer to it. */
+    assessmentGuideTitle: z.string().min(1),
+    /** Produced document's filename; `{studentName}`, `{code}` and `{date}` are substituted. */
+    filenamePattern: z.string().min(1).default('{studentName}_{code}.docx'),
+});
+
+const RegistryModel = z.object({
+    default: z.string().optional(),
+    qualifications: z.array(QualificationModel).min(1),
+});
+
+export type Qualification = z.infer<typeof QualificationModel>;
+
+export interface QualificationRegistry {
+    qualifications: Qualification[];
+    /** Used when a request or report names no qualification. */
+    defaultCode: string;
+}
+
+export interface QualificationSummary {
+    code: string;
+    title: string;
+    isDefault: boolean;
+}
+
+/**
+ * Raised when qualifications.json is invalid or a request names a qualification it does not list.
+ */
+export class QualificationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'QualificationError';
+    }
+}
+
+/**
+ * Raised when a request names a qualification the registry does not list.
+ */
+export class UnknownQualificationError extends QualificationError {
+    constructor(public readonly code: string, known: string[]) {
+        super(`Unknown qualification '${code}'. Expected one of: ${known.join(', ')}.`);
+        this.name = 'UnknownQualificationError';
+    }
+}
+
+// Keyed by path, so reading another registry file does not replace the cached project registry
+const cache = new Map<string, { mtimeMs: number; registry: QualificationRegistry }>();
+
+/**
+ * Reads and validates qualifications.json. The result is cached until the file changes.
+ * @returns The qualifications and the default code.
+ * @throws QualificationError if the file cannot be read, is not JSON or fails validation.
+ */
+export async function loadQualifications(filePath: string = QUALIFICATIONS_PATH): Promise<QualificationRegistry> {
+    let mtimeMs: number;
+    let text: string;
+    try {
+        mtimeMs = (await fs.stat(filePath)).mtimeMs;
+        const cached = cache.get(filePath);
+        if (cached && cached.mtimeMs === mtimeMs) return cached.registry;
+        text = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+        throw new QualificationError(`${path.basename(filePath)} could not be read: ${error.message}`);
+    }
+
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (error: any) {
+        throw new QualificationError(`${path.basename(filePath)} is not valid JSON: ${error.message}`);
+    }
+
+    const result = RegistryModel.safeParse(raw);
+    if (!result.success) {
+        const issues = result.error.issues.map(issue => `${issue.path.join(' > ') || '(root)'}: ${issue.message}`);
+        throw new QualificationError(`${path.basename(filePath)} does not match the expected structure: ${issues.join('; ')}`);
+    }
+
+    const { qualifications } = result.data;
+    const codes = qualifications.map(qualification => qualification.code);
+    const duplicate = codes.find((code, index) => codes.indexOf(code) !== index);
+    if (duplicate) {
+        throw new QualificationError(`${path.basename(filePath)} lists qualification '${duplicate}' more than once.`);
+    }
+    const defaultCode = result.data.default ?? codes[0];
+    if (!codes.includes(defaultCode)) {
+        throw new QualificationError(`${path.basename(filePath)}: the default qualification '${defaultCode}' is not listed.`);
+    }
+
+    const registry = { qualifications, defaultCode };
+    cache.set(filePath, { mtimeMs, registry });
+    return registry;
+}
+
+/**
+ * Looks up a qualification.
+ * @param code The qualification code; the default qualification when omitted.
+ * @returns The registry entry.
+ * @throws UnknownQualificationError if the code is not in the registry.
+ */
+export async function getQualification(code?: string | null): Promise<Qualification> {
+    const { qualifications, defaultCode } = await loadQualifications();
+    const wanted = code || defaultCode;
+    const qualification = qualifications.find(entry => entry.code === wanted);
+    if (!qualification) {
+        throw new UnknownQualificationError(wanted, qualifications.map(entry => entry.code));
+    }
+    return qualification;
+}
+
+/**
+ * Lists the qualifications for selection in the UI, in registry order.
+ */
+export async function listQualifications(): Promise<QualificationSummary[]> {
+    const { qualifications, defaultCode } = await loadQualifications();
+    return qualifications.map(({ code, title }) => ({ code, title, isDefault: code === defaultCode }));
+}
+
+/**
+ * Resolves a path from the registry against the project root.
+ */
+export function resolveQualificationPath(file: string): string {
+    return path.resolve(process.cwd(), file);
+}
+
+/**
+ * Reads the assessment schema of a qualification.
+ * @throws AssessmentSchemaError if the schema file cannot be read or fails validation.
+ */
+export function loadQualificationSchema(qualification: Qualification): Promise<LoadedAssessmentSchema> {
+    return loadAssessmentSchema(resolveQualificationPath(qualification.schema));
+}
+
+/**
+ * Builds a produced document's filename from the qualification's pattern.
+ * @param qualification The qualification the document is for.
+ * @param studentName The student's name; characters that cannot appear in a filename are replaced.
+ * @returns e.g. `Jane Citizen_CHC33021.docx`
+ */
+export function formatDocumentFilename(qualification: Qualification, studentName: string): string {
+    const fields: Record<string, string> = {
+        studentName: studentName || 'Student',
+        code: qualification.code,
+        date: new Date().toISOString().slice(0, 10),
+    };
+    const filename = qualification.filenamePattern
+        .replace(/\{(\w+)\}/g, (match, field: string) => fields[field] ?? match)
+        .replace(/[\\/:*?"<>|]+/g, '_')
+        .trim();
+    return /\.docx$/i.test(filename) ? filename : `${filename}.docx`;
+}
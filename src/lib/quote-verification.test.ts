@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { countUnverified, extractQuotes, verifyQuestionEvidence } from '@/lib/quote-verification';
+import type { QuestionResult } from '@/lib/generation';
+
+const transcript = [
+    '[00:01:05] Assessor: How would you help Mrs Lee out of bed?',
+    '[00:01:12] Student: First I would check that the brakes are on',
+    '[00:01:15] Student: before I help her sit up and swing her legs round.',
+    '[00:01:30] Assessor (as Client): I always have my tea first.',
+].join('\n');
+
+/** A question whose first criterion gives the example action. */
+function answer(exampleAction: string): QuestionResult {
+    return {
+        main_question: 'Describe how you would assist the client to get out of bed.',
+        evaluation: { 1: { question: 'Assists with mobility', performance_observed: 'Checked the bed.', example_action: exampleAction, outcome: 'S' } },
+        conclusion: 'The student assisted the client safely.',
+        outcome: 'S',
+        outcome_justification: 'All criteria were observed.',
+    };
+}
+
+const verify = (exampleAction: string) => verifyQuestionEvidence(answer(exampleAction), transcript)[1];
+
+describe('verifyQuestionEvidence', () => {
+    it('verifies an exact quote and locates it', () => {
+        const { status, quotes } = verify('The student said, "I would check that the brakes are on."');
+        expect(status).toBe('verified');
+        expect(quotes[0]).toMatchObject({ score: 1, startLine: 1, endLine: 1, timestamp: '00:01:12' });
+    });
+
+    it('ignores casing and punctuation but flags a reworded quote as paraphrased', () => {
+        expect(verify('"FIRST, I would check that the brakes are on!"').status).toBe('verified');
+        const { status, quotes } = verify('"I will make sure that the brakes are on"');
+        expect(status).toBe('paraphrased');
+        expect(quotes[0].score).toBeLessThan(0.9);
+    });
+
+    it('verifies a quote that runs on to the next speaker line', () => {
+        const { status, quotes } = verify('"the brakes are on before I help her"');
+        expect(status).toBe('verified');
+        expect(quotes[0]).toMatchObject({ score: 1, startLine: 1, endLine: 2 });
+    });
+
+    it('flags a fabricated quote', () => {
+        const { status, quotes } = verify('"I wash my hands and put on gloves"');
+        expect(status).toBe('fabricated');
+        expect(quotes[0].startLine).toBeUndefined();
+    });
+
+    it('flags a quote from someone other than the student', () => {
+        expect(verify('"I always have my tea first"').status).toBe('other_speaker');
+    });
+
+    it('reports an example action without a quote', () => {
+        const verification = verifyQuestionEvidence(answer('Checked the brakes before assisting.'), transcript);
+        expect(verification[1]).toEqual({ status: 'no_quote', quotes: [] });
+        expect(countUnverified(verification)).toBe(1);
+    });
+});
+
+describe('extractQuotes', () => {
+    it('skips quoted spans too short to be spoken evidence', () => {
+        expect(extractQuotes('Used the "Fall Prevention" checklist and said “I will check the brakes.”')).toEqual(['I will check the brakes.']);
+    });
+});
@@ -0,0 +1,222 @@
+import type { QuestionResult } from '@/lib/generation';
+import { lineSpeaker, lineText, lineTimestamp } from '@/lib/transcript-model';
+import { SPEAKER_ROLE_LABELS } from '@/lib/speaker-roles';
+
+/**
+ * Checks that the quotes the model gives as `example_action` evidence actually appear in the
+ * submitted transcript. Each quoted span is fuzzy-matched so that punctuation, casing and small
+ * transcription differences do not count against it, while reworded or invented quotes are flagged.
+ */
+
+/**
+ * verified: found in the transcript, allowing for minor differences.
+ * paraphrased: most of the words appear close together, but not as spoken.
+ * other_speaker: found, but said by the assessor or client rather than the student. Only checked when
+ *   the transcript's speakers have been mapped to their roles.
+ * fabricated: no comparable passage in the transcript.
+ * no_quote: the example action contains no quoted span to check.
+ */
+export type QuoteStatus = 'verified' | 'paraphrased' | 'other_speaker' | 'fabricated' | 'no_quote';
+
+export interface QuoteMatch {
+    /** The quoted text as written by the model. */
+    quote: string;
+    status: Exclude<QuoteStatus, 'no_quote'>;
+    /** 0–1 share of the quote's words found in the best matching passage. */
+    score: number;
+    /** Zero-based, inclusive line range of the best matching passage, if one was found. */
+    startLine?: number;
+    endLine?: number;
+    /** `hh:mm:ss` time of the matched passage, when the transcript is timestamped. */
+    timestamp?: string;
+}
+
+export interface EvidenceVerification {
+    /** The weakest status among the quotes. */
+    status: QuoteStatus;
+    quotes: QuoteMatch[];
+}
+
+/** Verification results keyed by benchmark criterion key. */
+export type QuestionVerification = Record<string, EvidenceVerification>;
+
+/** Verification results keyed by unit code, then main question key. */
+export type ReportVerification = Record<string, Record<string, QuestionVerification>>;
+
+const VERIFIED_SCORE = 0.9;
+const PARAPHRASED_SCORE = 0.5;
+// Shorter quoted spans are usually single words or titles rather than spoken evidence.
+const MIN_QUOTE_WORDS = 3;
+
+const QUOTE_PATTERN = /"([^"]+)"|“([^”]+)”|«([^»]+)»/g;
+const ELLIPSIS_PATTERN = /\.{3}|…/;
+const STATUS_RANK: Record<QuoteStatus, number> = { verified: 0, no_quote: 1, paraphrased: 2, other_speaker: 3, fabricated: 4 };
+
+interface TranscriptIndex {
+    words: string[];
+    /** Line number of each word. */
+    lines: number[];
+    /** Normalised transcript joined by single spaces, for exact matching. */
+    joined: string;
+    /** Index of the word starting at each character offset of `joined`. */
+    wordStarts: Map<number, number>;
+    /** Timestamp of each line; lines without one continue the entry above them. */
+    lineTimes: Array<string | null>;
+    /** Speaker of each line, carried forward the same way. */
+    lineSpeakers: Array<string | null>;
+    /** Whether lines are labelled by role, so that who said a quote can be checked. */
+    hasRoles: boolean;
+}
+
+/**
+ * Lower-cases text, folds typographic apostrophes and splits it into words.
+ */
+function toWords(text: string): string[] {
+    return text.toLowerCase().replace(/[‘’`]/g, "'").match(/[a-z0-9']+/g) || [];
+}
+
+/**
+ * Splits the transcript into normalised words, remembering the line each word came from.
+ */
+function indexTranscript(transcript: string): TranscriptIndex {
+    const words: string[] = [];
+    const lines: number[] = [];
+    const lineTimes: Array<string | null> = [];
+    const lineSpeakers: Array<string | null> = [];
+    const wordStarts = new Map<number, number>();
+    // `joined` starts with a space, so the first word starts at offset 1
+    let offset = 1;
+    transcript.split(/\r?\n/).forEach((line, lineNumber) => {
+        lineTimes.push(lineTimestamp(line) ?? (line.trim() ? lineTimes[lineNumber - 1] ?? null : null));
+        lineSpeakers.push(lineSpeaker(line) ?? (line.trim() ? lineSpeakers[lineNumber - 1] ?? null : null));
+        // Timestamps and speaker labels are not spoken, so they must not sit between the words of a quote spanning two lines
+        for (const word of toWords(lineText(line))) {
+            wordStarts.set(offset, words.length);
+            offset += word.length + 1;
+            words.push(word);
+            lines.push(lineNumber);
+        }
+    });
+    return { words, lines, joined: ` ${words.join(' ')} `, wordStarts, lineTimes, lineSpeakers, hasRoles: lineSpeakers.includes(SPEAKER_ROLE_LABELS.student) };
+}
+
+/**
+ * Finds the transcript window of the fragment's length that shares the most words with it.
+ * Word counts are updated incrementally as the window slides, so each fragment is a single pass.
+ * @returns The share of fragment words found and the index of the window's first word.
+ */
+function bestWindow(fragment: string[], index: TranscriptIndex): { score: number; start: number } {
+    const size = Math.min(fragment.length, index.words.length);
+    if (size === 0) return { score: 0, start: -1 };
+
+    const wanted = new Map<string, number>();
+    for (const word of fragment) wanted.set(word, (wanted.get(word) || 0) + 1);
+    const inWindow = new Map<string, number>();
+    let overlap = 0;
+
+    const add = (word: string) => {
+        const count = (inWindow.get(word) || 0) + 1;
+        inWindow.set(word, count);
+        if (count <= (wanted.get(word) || 0)) overlap++;
+    };
+    const remove = (word: string) => {
+        const count = inWindow.get(word) || 0;
+        inWindow.set(word, count - 1);
+        if (count <= (wanted.get(word) || 0)) overlap--;
+    };
+
+    for (let i = 0; i < size; i++) add(index.words[i]);
+    let best = { score: overlap, start: 0 };
+    for (let i = size; i < index.words.length; i++) {
+        add(index.words[i]);
+        remove(index.words[i - size]);
+        if (overlap > best.score) best = { score: overlap, start: i - size + 1 };
+    }
+    return { score: best.score / fragment.length, start: best.start };
+}
+
+/**
+ * Verifies a single quoted span. Ellipses are treated as omissions, so each part is matched
+ * separately and the quote scores as its weakest part.
+ */
+function verifyQuote(quote: string, index: TranscriptIndex): QuoteMatch {
+    const fragments = quote.split(ELLIPSIS_PATTERN).map(toWords).filter(words => words.length > 0);
+    let score = 1;
+    let startLine: number | undefined;
+    let endLine: number | undefined;
+
+    for (const fragment of fragments) {
+        let fragmentScore: number;
+        let start: number;
+        const needle = ` ${fragment.join(' ')} `;
+        // A match starts at the space before its first word
+        const wordAt = (position: number) => index.wordStarts.get(position + 1) ?? -1;
+        let exact = index.joined.indexOf(needle);
+        // The student may repeat what the assessor said; prefer the occurrence in the student's own words
+        for (let at = exact; index.hasRoles && at >= 0; at = index.joined.indexOf(needle, at + 1)) {
+            if (index.lineSpeakers[index.lines[wordAt(at)]] === SPEAKER_ROLE_LABELS.student) {
+                exact = at;
+                break;
+            }
+        }
+        if (exact >= 0) {
+            fragmentScore = 1;
+            start = wordAt(exact);
+        } else {
+            ({ score: fragmentScore, start } = bestWindow(fragment, index));
+        }
+        score = Math.min(score, fragmentScore);
+        if (start >= 0) {
+            const end = Math.min(start + fragment.length, index.words.length) - 1;
+            startLine = Math.min(startLine ?? index.lines[start], index.lines[start]);
+            endLine = Math.max(endLine ?? index.lines[end], index.lines[end]);
+        }
+    }
+
+    let status: QuoteMatch['status'] = score >= VERIFIED_SCORE ? 'verified' : score >= PARAPHRASED_SCORE ? 'paraphrased' : 'fabricated';
+    if (status === 'fabricated') return { quote, status, score };
+    const speaker = startLine !== undefined ? index.lineSpeakers[startLine] : null;
+    if (index.hasRoles && speaker && speaker !== SPEAKER_ROLE_LABELS.student) status = 'other_speaker';
+    const timestamp = startLine !== undefined ? index.lineTimes[startLine] : null;
+    return timestamp ? { quote, status, score, startLine, endLine, timestamp } : { quote, status, score, startLine, endLine };
+}
+
+/**
+ * Extracts the quoted spans from an example action, e.g. `(student name) said, "I'll check the plan."`.
+ * @param text The example action.
+ * @returns The text inside each pair of double quotes that is long enough to count as spoken evidence.
+ */
+export function extractQuotes(text: string): string[] {
+    return Array.from((text || '').matchAll(QUOTE_PATTERN), match => (match[1] ?? match[2] ?? match[3]).trim())
+        .filter(quote => toWords(quote).length >= MIN_QUOTE_WORDS);
+}
+
+/**
+ * Checks every example action of a generated question against the transcript.
+ * @param result The generated question result.
+ * @param transcript The full transcript submitted for the assessment.
+ * @returns The verification per benchmark criterion.
+ */
+export function verifyQuestionEvidence(result: QuestionResult, transcript: string): QuestionVerification {
+    const index = indexTranscript(transcript);
+    const verification: QuestionVerification = {};
+
+    for (const [key, criterion] of Object.entries(result.evaluation)) {
+        const quotes = extractQuotes(criterion.example_action).map(quote => verifyQuote(quote, index));
+        const status = quotes.reduce<QuoteStatus>(
+            (worst, match) => (STATUS_RANK[match.status] > STATUS_RANK[worst] ? match.status : worst),
+            quotes.length > 0 ? 'verified' : 'no_quote',
+        );
+        verification[key] = { status, quotes };
+    }
+    return verification;
+}
+
+/**
+ * Counts the criteria whose evidence could not be verified.
+ * @param verification The verification of one question.
+ * @returns The number of criteria with paraphrased, fabricated, misattributed or missing quotes.
+ */
+export function countUnverified(verification: QuestionVerification): number {
+    return Object.values(verification).filter(entry => entry.status !== 'verified').length;
+}
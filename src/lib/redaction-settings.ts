@@ -0,0 +1,74 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { REDACTION_CATEGORIES, type RedactionCategory, type RedactionOptions } from '@/lib/redaction';
+
+/** The assessor's redaction choices sent with a generation request. */
+export interface RedactionRequest {
+    /** False to send this transcript unredacted; ignored when redaction is off for the server. */
+    enabled?: boolean;
+    /** Further terms to redact from this transcript, such as a client's name. */
+    terms?: string[];
+}
+
+export interface RedactionSettings {
+    enabled: boolean;
+    categories: RedactionCategory[];
+    /** Terms from the dictionary file, redacted in every transcript. */
+    terms: string[];
+}
+
+/**
+ * Reads the redaction settings from the environment:
+ *
+ * - `REDACTION`: `off` sends transcripts unredacted; on by default.
+ * - `REDACTION_CATEGORIES`: comma-separated categories to redact (name, email, phone, address, medicare, ndis, custom); all by default.
+ * - `REDACTION_DICTIONARY`: a text file of further terms, one per line, `#` starting a comment;
+ *   defaults to `redaction-dictionary.txt` in the project root, which may be absent.
+ *
+ * @param env The environment to read settings from.
+ * @returns The settings; unknown categories are ignored with a warning.
+ * @throws Error if a dictionary file named in `REDACTION_DICTIONARY` cannot be read.
+ */
+export async function loadRedactionSettings(env: NodeJS.ProcessEnv = process.env): Promise<RedactionSettings> {
+    const enabled = (env.REDACTION || 'on').toLowerCase() !== 'off';
+
+    let categories = Object.keys(REDACTION_CATEGORIES) as RedactionCategory[];
+    if (env.REDACTION_CATEGORIES) {
+        const requested = env.REDACTION_CATEGORIES.split(',').map(category => category.trim().toLowerCase()).filter(Boolean);
+        const unknown = requested.filter(category => !(category in REDACTION_CATEGORIES));
+        if (unknown.length > 0) console.warn(`Ignoring unknown REDACTION_CATEGORIES: ${unknown.join(', ')}.`);
+        categories = requested.filter((category): category is RedactionCategory => category in REDACTION_CATEGORIES);
+    }
+
+    const dictionaryPath = env.REDACTION_DICTIONARY || path.join(process.cwd(), 'redaction-dictionary.txt');
+    let terms: string[] = [];
+    try {
+        terms = (await fs.readFile(dictionaryPath, 'utf-8'))
+            .split(/\r?\n/)
+            .map(line => line.replace(/#.*$/, '').trim())
+            .filter(Boolean);
+    } catch (error: any) {
+        if (env.REDACTION_DICTIONARY || error.code !== 'ENOENT') {
+            throw new Error(`Redaction dictionary ${path.basename(dictionaryPath)} could not be read: ${error.message}`);
+        }
+    }
+
+    return { enabled, categories, terms };
+}
+
+/**
+ * Works out what to redact from one transcript.
+ * @param request The assessor's choices, if any.
+ * @param names Names known to appear in the transcript, such as the student's.
+ * @returns The options to redact with, or null to send the transcript as written.
+ */
+export async function getRedactionOptions(request: RedactionRequest | undefined, names: string[]): Promise<RedactionOptions | null> {
+    const settings = await loadRedactionSettings();
+    if (!settings.enabled || request?.enabled === false) return null;
+    const terms = Array.isArray(request?.terms) ? request.terms.filter((term): term is string => typeof term === 'string') : [];
+    return {
+        categories: settings.categories,
+        names: names.filter(Boolean),
+        terms: [...settings.terms, ...terms],
+    };
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+    findRedactionTokens, listSpeakerNames, redactTranscript, reidentify, reidentifyText, toRedactions,
+} from '@/lib/redaction';
+import { applySpeakerRoles } from '@/lib/speaker-roles';
+
+describe('redactTranscript', () => {
+    it('replaces details with stable tokens and counts them', () => {
+        const { transcript, redactions } = redactTranscript(
+            'Assessor: Call 0412 345 678 or email jo@example.com.\nStudent: 0412345678 is my number.',
+            undefined,
+        );
+        expect(transcript).toBe('Assessor: Call [PHONE_1] or email [EMAIL_1].\nStudent: [PHONE_1] is my number.');
+        expect(redactions.find(redaction => redaction.token === '[PHONE_1]')?.occurrences).toBe(2);
+    });
+
+    it('redacts speaker names where they are mentioned in the text', () => {
+        const { transcript } = redactTranscript('Sarah Jones: Hello.\nTom Nguyen: Thanks Sarah.', undefined);
+        expect(transcript).not.toMatch(/Sarah|Tom|Nguyen|Jones/);
+    });
+
+    it('redacts speaker names after the transcript is relabelled with roles', () => {
+        const raw = 'Sarah Jones: Hello.\nTom Nguyen: Thanks Sarah, I am Tom.';
+        const relabelled = applySpeakerRoles(raw, { 'Sarah Jones': 'assessor', 'Tom Nguyen': 'student' });
+        const { transcript } = redactTranscript(relabelled, undefined, { names: listSpeakerNames(raw) });
+        expect(transcript).toMatch(/^Assessor: Hello\.\nStudent: Thanks \[NAME_\d+\], I am \[NAME_\d+\]\.$/);
+    });
+
+    it('lists speaker labels that are names, not roles', () => {
+        expect(listSpeakerNames('Speaker 1: Hi.\nAssessor: Hello.\nJo Brown: Hey.')).toEqual(['Jo Brown']);
+    });
+
+    it('redacts given names, titled names and introductions', () => {
+        const { transcript } = redactTranscript('Student: I told Mrs Patel that my name is Jo Brown.', undefined, { names: ['Jo Brown'] });
+        expect(transcript).toBe('Student: I told Mrs [NAME_2] that my name is [NAME_1].');
+    });
+
+    it('keeps tokens issued in an earlier run', () => {
+        const first = redactTranscript('Student: Call 0412 345 678.', undefined);
+        const second = redactTranscript('Student: Email me at jo@example.com or call 0412345678.', undefined, {}, first.redactions);
+        expect(second.transcript).toBe('Student: Email me at [EMAIL_1] or call [PHONE_1].');
+    });
+
+    it('redacts segments with the same tokens without counting them', () => {
+        const { segments, redactions } = redactTranscript(
+            'Student: 0412 345 678',
+            { CHCCCS038: { 1: 'Student: 0412 345 678' } },
+            { categories: ['phone'] },
+        );
+        expect(segments).toEqual({ CHCCCS038: { 1: 'Student: [PHONE_1]' } });
+        expect(redactions[0].occurrences).toBe(1);
+    });
+
+    it('redacts only the chosen categories', () => {
+        const { transcript } = redactTranscript('Student: jo@example.com, 0412 345 678', undefined, { categories: ['email'] });
+        expect(transcript).toBe('Student: [EMAIL_1], 0412 345 678');
+    });
+});
+
+describe('reidentify', () => {
+    const redactions = toRedactions([
+        { token: '[NAME_1]', category: 'name', original: 'Jo Brown', occurrences: 1 },
+        { token: '[PHONE_1]', category: 'phone', original: '0412 345 678', occurrences: 1 },
+    ]);
+
+    it('puts the originals back and leaves unknown tokens', () => {
+        expect(reidentifyText('[NAME_1] gave [PHONE_1] to [NAME_9].', redactions)).toBe('Jo Brown gave 0412 345 678 to [NAME_9].');
+    });
+
+    it('re-identifies every string of a nested result', () => {
+        expect(reidentify({ a: ['[NAME_1]'], b: { c: 'NAME_1 said' }, d: 1 }, redactions))
+            .toEqual({ a: ['Jo Brown'], b: { c: 'Jo Brown said' }, d: 1 });
+    });
+
+    it('finds tokens left in text', () => {
+        expect(findRedactionTokens('[NAME_9] and NAME_9 and [PHONE_2]')).toEqual(['[NAME_9]', '[PHONE_2]']);
+    });
+});
+
+describe('toRedactions', () => {
+    it('drops malformed entries', () => {
+        expect(toRedactions([{ token: '[NAME_1]', category: 'name', original: 'Jo' }, { token: 1 }, null, { token: '[X_1]', category: 'x', original: 'y' }]))
+            .toEqual([{ token: '[NAME_1]', category: 'name', original: 'Jo', occurrences: 0 }]);
+        expect(toRedactions('nope')).toEqual([]);
+    });
+});
@@ -0,0 +1,246 @@
+import type { TranscriptSegments } from '@/lib/segment-map';
+import { listSpeakers, parseTranscriptText } from '@/lib/transcript-model';
+
+/**
+ * Redacts personal details from transcripts before they are sent to the model. Each distinct detail is
+ * replaced with a stable token such as `[NAME_1]` or `[PHONE_2]`, so the model can still tell people and
+ * details apart, and /api/fill-doc puts the originals back when the document is produced.
+ *
+ * Replacements never span lines, so evidence line numbers still match the transcript the assessor sees.
+ *
+ * Kept free of server-only imports so the form can use it.
+ */
+
+export type RedactionCategory = 'name' | 'email' | 'phone' | 'address' | 'medicare' | 'ndis' | 'custom';
+
+/** The token prefix and display label of each category, in the order the categories are redacted. */
+export const REDACTION_CATEGORIES: Record<RedactionCategory, { token: string; label: string }> = {
+    email: { token: 'EMAIL', label: 'Email address' },
+    medicare: { token: 'MEDICARE', label: 'Medicare number' },
+    ndis: { token: 'NDIS', label: 'NDIS number' },
+    phone: { token: 'PHONE', label: 'Phone number' },
+    address: { token: 'ADDRESS', label: 'Address' },
+    name: { token: 'NAME', label: 'Name' },
+    custom: { token: 'TERM', label: 'Custom term' },
+};
+
+export interface Redaction {
+    /** e.g. `[NAME_1]` */
+    token: string;
+    category: RedactionCategory;
+    /** The text the token stands for. */
+    original: string;
+    /** How often it was found in the transcript last redacted. */
+    occurrences: number;
+}
+
+export interface RedactionOptions {
+    /** Categories to redact; all of them when omitted. */
+    categories?: RedactionCategory[];
+    /** Names known to appear in the transcript, such as the student's. */
+    names?: string[];
+    /** Further terms to redact wherever they appear, such as a client's or a facility's name. */
+    terms?: string[];
+}
+
+export interface RedactedTranscript {
+    transcript: string;
+    segments?: TranscriptSegments;
+    /** Every token issued so far, including ones carried over from earlier runs. */
+    redactions: Redaction[];
+}
+
+const SP = '[ \\t]';
+const STATES = '(?:NSW|VIC|QLD|SA|WA|TAS|NT|ACT)';
+const STREET_TYPES = '(?:Street|St|Road|Rd|Avenue|Ave|Drive|Dr|Court|Ct|Place|Pl|Lane|Ln|Crescent|Cres|Parade|Pde|Highway|Hwy|Boulevard|Blvd|Terrace|Tce|Way|Close|Cl|Circuit|Cct|Grove|Gr)';
+/** A capitalised word such as `Nguyen`, `O'Brien` or `Smith-Jones`, without a possessive `'s`. */
+const CAPITALISED = "[A-Z][a-z]+(?:['’-](?!s\\b)[A-Z]?[a-z]+)*";
+
+/** Patterns for details recognisable from their shape; names and custom terms are matched separately. */
+const DETAIL_PATTERNS: Array<[RedactionCategory, RegExp]> = [
+    ['email', /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g],
+    // Ten digits starting 2-6, optionally followed by the one-digit reference number, grouped 4-5-1
+    ['medicare', new RegExp(`(?<!\\d)[2-6]\\d{3}${SP}?-?\\d{5}${SP}?-?\\d(?:${SP}?-?\\d)?(?!\\d)`, 'g')],
+    // Nine digits starting 43
+    ['ndis', new RegExp(`(?<!\\d)43\\d(?:${SP}?-?\\d){6}(?!\\d)`, 'g')],
+    ['phone', new RegExp(`(?<![\\d+])(?:\\+?61${SP}?\\(?0?|\\(?0)[2-478]\\)?(?:${SP}?-?\\d){8}(?!\\d)|(?<!\\d)1[38]00(?:${SP}?-?\\d){6}(?!\\d)`, 'g')],
+    ['address', new RegExp(
+        `(?<![\\w/])(?:(?:Unit|Apartment|Apt|Flat)${SP}+\\d+[A-Za-z]?,?${SP}+)?\\d{1,5}[A-Za-z]?(?:/\\d{1,5}[A-Za-z]?)?${SP}+(?:${CAPITALISED}${SP}+){1,3}${STREET_TYPES}\\b`
+        + `(?:,?${SP}+(?:${CAPITALISED}${SP}+){0,2}(?:${STATES}(?:${SP}+\\d{4})?|\\d{4}))?`,
+        'g',
+    )],
+];
+
+/** Names are also recognised after a title or an introduction. */
+const TITLED_NAME = new RegExp(`\\b((?:Mr|Mrs|Ms|Miss|Mx|Dr)\\.?${SP}+)(${CAPITALISED}(?:${SP}+${CAPITALISED})?)`, 'g');
+const INTRODUCED_NAME = new RegExp(`\\b((?:[Mm]y name is|[Mm]y name's|[Cc]all me|[Tt]his is)${SP}+)(${CAPITALISED}(?:${SP}+${CAPITALISED})?)\\b`, 'g');
+/** Speaker labels that name a role or a recording slot rather than a person. */
+const ROLE_LABEL = /^(?:assessor|student|client|other|speaker|participant|unknown|interviewer|trainer|learner|candidate)\b/i;
+
+const TOKEN_PATTERN = new RegExp(`\\[?\\b(${Object.values(REDACTION_CATEGORIES).map(({ token }) => token).join('|')})_(\\d+)\\b\\]?`, 'g');
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Identifies a detail regardless of spacing and, for numbers, punctuation, so repeats get the same token.
+ */
+function detailKey(category: RedactionCategory, original: string): string {
+    const normalised = ['phone', 'medicare', 'ndis'].includes(category)
+        ? original.replace(/\D/g, '').replace(/^61/, '0')
+        : original.replace(/\s+/g, ' ').trim().toLowerCase();
+    return `${category}:${normalised}`;
+}
+
+/**
+ * Applies a replacement to the parts of the text that are not already tokens.
+ */
+function replaceOutsideTokens(text: string, pattern: RegExp, replace: (match: string, ...groups: string[]) => string): string {
+    let result = '';
+    let last = 0;
+    for (const token of text.matchAll(TOKEN_PATTERN)) {
+        result += text.slice(last, token.index).replace(pattern, replace) + token[0];
+        last = token.index! + token[0].length;
+    }
+    return result + text.slice(last).replace(pattern, replace);
+}
+
+/**
+ * Lists the speaker labels of a transcript that look like people's names rather than roles such as "Speaker 1".
+ * Relabelling with speaker roles replaces these, so call this on the transcript as written and pass the result
+ * in `names` when redacting the relabelled one.
+ * @param text The transcript text.
+ */
+export function listSpeakerNames(text: string): string[] {
+    return listSpeakers(parseTranscriptText(text)).filter(speaker => !ROLE_LABEL.test(speaker) && /[A-Z][a-z]/.test(speaker));
+}
+
+/**
+ * Collects the names to look for: the given names, names used as speaker labels, and the parts of each.
+ * Longer names come first so a full name is replaced before its first name.
+ */
+function collectNames(text: string, names: string[]): string[] {
+    const full = [...names, ...listSpeakerNames(text)].map(name => name.replace(/\(.*?\)/g, '').replace(/\s+/g, ' ').trim()).filter(Boolean);
+    const parts = full.flatMap(name => name.split(' ')).filter(part => /^[A-Z][a-z'’-]+$/.test(part));
+    return Array.from(new Set([...full, ...parts])).sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Redacts a transcript and, with the same tokens, its per-question sections.
+ * @param transcript The transcript text.
+ * @param segments The assessor's split of the transcript, if any.
+ * @param options What to redact.
+ * @param existing Tokens issued for this report before; the same details keep the same tokens.
+ * @returns The redacted text and every token issued, with occurrences counted in the full transcript.
+ */
+export function redactTranscript(
+    transcript: string,
+    segments: TranscriptSegments | undefined,
+    options: RedactionOptions = {},
+    existing: Redaction[] = [],
+): RedactedTranscript {
+    const categories = new Set(options.categories || (Object.keys(REDACTION_CATEGORIES) as RedactionCategory[]));
+    const redactions = existing.map(redaction => ({ ...redaction, occurrences: 0 }));
+    const byKey = new Map(redactions.map(redaction => [detailKey(redaction.category, redaction.original), redaction]));
+    let counting = true;
+
+    const tokenFor = (category: RedactionCategory, original: string): string => {
+        const key = detailKey(category, original);
+        let redaction = byKey.get(key);
+        if (!redaction) {
+            const prefix = REDACTION_CATEGORIES[category].token;
+            const used = redactions.filter(entry => entry.category === category)
+                .map(entry => Number(entry.token.match(/_(\d+)\]$/)?.[1]) || 0);
+            redaction = { token: `[${prefix}_${Math.max(0, ...used) + 1}]`, category, original: original.trim(), occurrences: 0 };
+            redactions.push(redaction);
+            byKey.set(key, redaction);
+        }
+        if (counting) redaction.occurrences++;
+        return redaction.token;
+    };
+
+    const names = categories.has('name') ? collectNames(transcript, options.names || []) : [];
+    const terms = categories.has('custom') ? (options.terms || []).map(term => term.trim()).filter(Boolean) : [];
+
+    const redact = (text: string): string => {
+        let result = text;
+        for (const [category, pattern] of DETAIL_PATTERNS) {
+            if (categories.has(category)) result = replaceOutsideTokens(result, pattern, match => tokenFor(category, match));
+        }
+        if (categories.has('name')) {
+            for (const name of names) {
+                const pattern = new RegExp(`(?<![\\w'’-])${escapeRegExp(name).replace(/ /g, `${SP}+`)}(?![\\w-])`, 'g');
+                result = replaceOutsideTokens(result, pattern, match => tokenFor('name', match));
+            }
+            for (const pattern of [TITLED_NAME, INTRODUCED_NAME]) {
+                result = replaceOutsideTokens(result, pattern, (_match, prefix, name) => `${prefix}${tokenFor('name', name)}`);
+            }
+        }
+        for (const term of terms) {
+            const pattern = new RegExp(`(?<!\\w)${escapeRegExp(term)}(?!\\w)`, 'gi');
+            result = replaceOutsideTokens(result, pattern, match => tokenFor('custom', match));
+        }
+        return result;
+    };
+
+    const redactedTranscript = redact(transcript);
+    // Sections repeat parts of the transcript, so only the transcript itself is counted
+    counting = false;
+    const redactedSegments = segments && Object.fromEntries(Object.entries(segments).map(([unitCode, questions]) => [
+        unitCode,
+        Object.fromEntries(Object.entries(questions).map(([questionKey, text]) => [questionKey, redact(text)])),
+    ]));
+
+    return { transcript: redactedTranscript, segments: redactedSegments, redactions };
+}
+
+/**
+ * Puts the original details back in place of their tokens. Tokens that were never issued are left as they are.
+ * @param text Text produced from a redacted transcript.
+ * @param redactions The tokens issued for the report.
+ * @returns The re-identified text.
+ */
+export function reidentifyText(text: string, redactions: Redaction[] | null | undefined): string {
+    if (!redactions?.length || !text) return text;
+    const originals = new Map(redactions.map(redaction => [redaction.token, redaction.original]));
+    return text.replace(TOKEN_PATTERN, (match, prefix: string, number: string) => originals.get(`[${prefix}_${number}]`) ?? match);
+}
+
+/**
+ * Re-identifies every string in a generated result, such as a question's answer or a whole report.
+ */
+export function reidentify<T>(value: T, redactions: Redaction[] | null | undefined): T {
+    if (!redactions?.length) return value;
+    if (typeof value === 'string') return reidentifyText(value, redactions) as T;
+    if (Array.isArray(value)) return value.map(item => reidentify(item, redactions)) as T;
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, reidentify(item, redactions)])) as T;
+    }
+    return value;
+}
+
+/**
+ * Finds redaction tokens in text, e.g. ones the model invented that cannot be re-identified.
+ * @returns The distinct tokens.
+ */
+export function findRedactionTokens(text: string): string[] {
+    return Array.from(new Set(Array.from(text.matchAll(TOKEN_PATTERN), match => `[${match[1]}_${match[2]}]`)));
+}
+
+/**
+ * Whether the text contains redaction tokens.
+ */
+export function isRedacted(text: string): boolean {
+    return findRedactionTokens(text).length > 0;
+}
+
+/**
+ * Picks valid redactions from a request body or stored JSON, dropping malformed entries.
+ */
+export function toRedactions(value: unknown): Redaction[] {
+    if (!Array.isArray(value)) return [];
+    return value.filter((entry): entry is Redaction =>
+        !!entry && typeof entry.token === 'string' && typeof entry.original === 'string' && entry.category in REDACTION_CATEGORIES
+    ).map(({ token, category, original, occurrences }) => ({ token, category, original, occurrences: Number(occurrences) || 0 }));
+}
@@ -0,0 +1,107 @@
+import { Type } from '@google/genai';
+import { OUTCOME_GUIDANCE, OUTCOMES } from '@/lib/outcomes';
+
+/**
+ * Dynamically creates a JSON response schema for the AI model based on benchmark criteria.
+ * @param instructions The specific 'instruction for roleplay' object for a single main question.
+ * @returns A JSON schema object for the generative model.
+ */
+export function createDynamicJsonSchema(instructions: any): any | null {
+    const properties: { [key: string]: any } = {};
+    const required: string[] = [];
+
+    try {
+        if (!instructions) {
+            console.warn("Warning: 'instructions' object provided to createDynamicJsonSchema is null or undefined.");
+            return null;
+        }
+
+        // Find all keys that are numbers (representing the benchmark criteria)
+        const benchmarkKeys = Object.keys(instructions).filter(k => !isNaN(Number(k))).sort((a, b) => Number(a) - Number(b));
+        
+        if (benchmarkKeys.length === 0) {
+            console.warn("Warning: No numbered benchmark criteria found in the instructions object.");
+            return null;
+        }
+
+        // Build properties and required fields for each benchmark criterion
+        for (const key of benchmarkKeys) {
+            const perfKey = `performance_observed_${key}`;
+            const actionKey = `example_action_${key}`;
+            const outcomeKey = `outcome_${key}`;
+
+            required.push(perfKey, actionKey, outcomeKey);
+
+            properties[perfKey] = {
+                type: Type.STRING,
+                description: `Evaluate student's performance for benchmark criterion ${key} based on the transcript.`
+            };
+            properties[actionKey] = {
+                type: Type.STRING,
+                description: `Provide a direct quote from the transcript as evidence for criterion ${key}.`
+            };
+            properties[outcomeKey] = {
+                type: Type.STRING,
+                format: 'enum',
+                enum: [...OUTCOMES],
+                description: `Outcome for benchmark criterion ${key}: ${OUTCOME_GUIDANCE}`
+            };
+        }
+        
+        // Add the conclusion to the schema
+        properties['conclusion'] = {
+            type: Type.STRING,
+            description: `Provide a final summary conclusion based on the overall performance in the transcript.`
+        };
+        required.push('conclusion');
+
+        // Add the overall competency judgement for the main question
+        properties['overall_outcome'] = {
+            type: Type.STRING,
+            format: 'enum',
+            enum: [...OUTCOMES],
+            description: `Overall outcome for this question across all criteria: ${OUTCOME_GUIDANCE}`
+        };
+        properties['outcome_justification'] = {
+            type: Type.STRING,
+            description: `Justify the overall outcome in one or two sentences, referring to the criteria that were or were not met.`
+        };
+        required.push('overall_outcome', 'outcome_justification');
+
+
+        return { type: Type.OBJECT, properties, required };
+
+    } catch (e) {
+        console.error(`Error: Could not create dynamic JSON schema: ${e}`);
+        return null;
+    }
+}
+
+/**
+ * Converts a Gemini-style response schema (upper-case `Type` values) into a standard
+ * JSON Schema object, as expected by OpenAI-compatible structured output endpoints.
+ * @param schema The Gemini response schema.
+ * @returns The equivalent JSON Schema.
+ */
+export function toStandardJsonSchema(schema: any): any {
+    if (!schema || typeof schema !== 'object') return schema;
+
+    const converted: { [key: string]: any } = { ...schema };
+    if (typeof schema.type === 'string') {
+        converted.type = schema.type.toLowerCase();
+    }
+    // Gemini marks enums with `format: 'enum'`; standard JSON Schema only needs `enum`
+    if (schema.format === 'enum') {
+        delete converted.format;
+    }
+    if (schema.properties) {
+        converted.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toStandardJsonSchema(value)])
+        );
+        converted.additionalProperties = false;
+    }
+    if (schema.items) {
+        converted.items = toStandardJsonSchema(schema.items);
+    }
+    return converted;
+}
@@ -0,0 +1,61 @@
+/**
+ * Retry policy for provider calls: exponential backoff on transient errors.
+ */
+
+export interface RetryPolicy {
+    /** Total attempts per question, including the first. */
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    baseDelayMs: 1000,
+    maxDelayMs: 30_000,
+};
+
+const TRANSIENT_STATUS_CODES = new Set([408, 409, 425, 429, 500, 502, 503, 504]);
+const TRANSIENT_MESSAGE_PATTERN = /(rate limit|quota|overloaded|unavailable|resource[_ ]exhausted|deadline|timed? ?out|econnreset|econnrefused|etimedout|socket hang up|fetch failed|network)/i;
+
+/**
+ * Reads the retry policy from the environment (`LLM_MAX_ATTEMPTS`, `LLM_RETRY_BASE_DELAY_MS`).
+ * @param env The environment to read settings from.
+ * @returns The policy, falling back to `DEFAULT_RETRY_POLICY` for unset or invalid values.
+ */
+export function getRetryPolicy(env: NodeJS.ProcessEnv = process.env): RetryPolicy {
+    const maxAttempts = Number(env.LLM_MAX_ATTEMPTS);
+    const baseDelayMs = Number(env.LLM_RETRY_BASE_DELAY_MS);
+    return {
+        ...DEFAULT_RETRY_POLICY,
+        maxAttempts: Number.isInteger(maxAttempts) && maxAttempts > 0 ? maxAttempts : DEFAULT_RETRY_POLICY.maxAttempts,
+        baseDelayMs: Number.isFinite(baseDelayMs) && baseDelayMs >= 0 ? baseDelayMs : DEFAULT_RETRY_POLICY.baseDelayMs,
+    };
+}
+
+/**
+ * Decides whether a provider error is worth retrying (rate limits, overload, network failures).
+ * @param error The error thrown by the provider SDK.
+ * @returns True if the same request may succeed later.
+ */
+export function isTransientError(error: any): boolean {
+    const status = Number(error?.status ?? error?.code ?? error?.response?.status);
+    if (TRANSIENT_STATUS_CODES.has(status)) return true;
+    return TRANSIENT_MESSAGE_PATTERN.test(String(error?.message || ''));
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with jitter.
+ * @param attempt The attempt that just failed (1-based).
+ * @param policy The retry policy.
+ * @returns The delay in milliseconds.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy): number {
+    const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+    const jitter = Math.random() * policy.baseDelayMs;
+    return Math.min(policy.maxDelayMs, exponential + jitter);
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,38 @@
+/**
+ * Transcript segment types shared by the segmentation API and the browser. Kept free of
+ * server-only imports so client components can use them without bundling the schema loader.
+ */
+
+export type SegmentationMethod = 'heading' | 'similarity';
+
+export interface TranscriptSegment {
+    unitCode: string;
+    mainQuestionKey: string;
+    /** The transcript text assigned to this question. */
+    text: string;
+    /** Zero-based, inclusive line range in the original transcript. */
+    startLine: number;
+    endLine: number;
+    method: SegmentationMethod;
+    /** 0–1 score; heading matches are always 1. */
+    confidence: number;
+}
+
+/** Segment text keyed by unit code, then main question key. */
+export type TranscriptSegments = Record<string, Record<string, string>>;
+
+/**
+ * Collapses a segment list into the `unitCode -> mainQuestionKey -> text` map accepted by `/api/generate`.
+ * A question matched by several non-adjacent parts of the transcript receives all of them.
+ * @param segments The segments to merge.
+ * @returns The segment text per question.
+ */
+export function toSegmentMap(segments: TranscriptSegment[]): TranscriptSegments {
+    const map: TranscriptSegments = {};
+    for (const segment of segments) {
+        if (!map[segment.unitCode]) map[segment.unitCode] = {};
+        const existing = map[segment.unitCode][segment.mainQuestionKey];
+        map[segment.unitCode][segment.mainQuestionKey] = existing ? `${existing}\n\n${segment.text}` : segment.text;
+    }
+    return map;
+}
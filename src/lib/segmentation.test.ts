@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import type { AssessmentSchema } from '@/lib/assessment-schema';
+import { segmentTranscript } from '@/lib/segmentation';
+
+const question = (text: string) => ({
+    question: text,
+    rolePlayScenerio: { 'instruction for roleplay': { 1: { question: text } }, 'Sample Conversation': '' },
+});
+
+const schema = {
+    CHCCCS031: { assessment_guide: '', 1: question('Prepare for support.'), 2: question('Deliver support.') },
+    CHCCCS038: { assessment_guide: '', 1: question('Reflect on values.') },
+} as unknown as AssessmentSchema;
+
+const split = (lines: string[]) => segmentTranscript(lines.join('\n'), schema)
+    .map(({ unitCode, mainQuestionKey, startLine, endLine, method }) => [unitCode, mainQuestionKey, startLine, endLine, method]);
+
+describe('segmentTranscript', () => {
+    it('splits at headings with a unit code, a question number or both', () => {
+        expect(split([
+            'CHCCCS031 Question 1',
+            'Assessor: How do you prepare?',
+            'Q2: Delivering support',
+            'Student: I follow the plan.',
+            '## Unit CHCCCS038',
+            'Student: I reflect on my values.',
+        ])).toEqual([
+            ['CHCCCS031', '1', 1, 1, 'heading'],
+            ['CHCCCS031', '2', 3, 3, 'heading'],
+            ['CHCCCS038', '1', 5, 5, 'heading'],
+        ]);
+    });
+
+    it('does not take spoken lines that mention a question for headings', () => {
+        expect(split([
+            'CHCCCS031 Question 1',
+            'Assessor: Question 2 now, how do you deliver support?',
+            'Question 2 was the hard one for me, I think.',
+            'Student: I follow the plan.',
+        ])).toEqual([['CHCCCS031', '1', 1, 3, 'heading']]);
+    });
+
+    it('matches each part to the closest question when the transcript has no headings', () => {
+        const lines = [
+            'Assessor: Hello and welcome.',
+            '',
+            'Assessor: Tell me how you prepare.',
+            'Student: I prepare by checking the care plan.',
+            '',
+            'Assessor: Next question, how do you deliver it?',
+            'Student: I deliver it step by step.',
+            '',
+            'Assessor: Anything else?',
+            'Student: Nothing more.',
+            '',
+            'Student: I reflect on my own values daily.',
+        ];
+        // The greeting matches no question and comes first, so it is left out; the follow-up matches
+        // nothing either and joins the question before it
+        expect(split(lines)).toEqual([
+            ['CHCCCS031', '1', 2, 3, 'similarity'],
+            ['CHCCCS031', '2', 5, 9, 'similarity'],
+            ['CHCCCS038', '1', 11, 11, 'similarity'],
+        ]);
+        const segments = segmentTranscript(lines.join('\n'), schema);
+        expect(segments[0].confidence).toBeGreaterThan(0);
+        expect(segments[1]).toMatchObject({ confidence: 0, text: lines.slice(5, 10).join('\n') });
+
+        expect(segmentTranscript(lines.join('\n'), schema, ['CHCCCS038']).map(({ unitCode, startLine }) => [unitCode, startLine]))
+            .toEqual([['CHCCCS038', 11]]);
+    });
+
+    it('divides a long conversation without blank lines into chunks of six lines', () => {
+        const lines = [
+            ...Array.from({ length: 6 }, (_, index) => `Student: I prepare step ${index + 1}.`),
+            ...Array.from({ length: 6 }, (_, index) => `Student: I reflect on value ${index + 1}.`),
+        ];
+        expect(split(lines)).toEqual([
+            ['CHCCCS031', '1', 0, 5, 'similarity'],
+            ['CHCCCS038', '1', 6, 11, 'similarity'],
+        ]);
+    });
+});
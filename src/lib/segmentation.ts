@@ -0,0 +1,230 @@
+import { getCriterionKeys, getQuestionKeys, type AssessmentSchema } from '@/lib/assessment-schema';
+import type { TranscriptSegment } from '@/lib/segment-map';
+
+/**
+ * Splits a full competency conversation into per-unit / per-question sections so that
+ * each question is only evaluated against the part of the transcript that relates to it.
+ */
+
+export type { SegmentationMethod, TranscriptSegment, TranscriptSegments } from '@/lib/segment-map';
+
+interface QuestionProfile {
+    unitCode: string;
+    mainQuestionKey: string;
+    terms: Set<string>;
+}
+
+interface Chunk {
+    startLine: number;
+    endLine: number;
+    text: string;
+}
+
+// A heading is a line of its own: an optional unit code, then a question number as schema.json numbers them
+// ("Question 2", "Q2", "Scenario 2"), then optionally a title after a separator, e.g. "CHCCCS031 Question 2: Delivering support".
+// Spoken lines such as "Question 2 was hard for me" or "Assessor: question 2 now" are not headings.
+const HEADING_PATTERN = /^\s*(?:#+\s*)?(?:(?:unit\s+)?((?:CHC|HLT)[A-Z]{3}\d{3})\b\s*[-–:,]?\s*)?(?:(?:question|q|scenario|role[- ]?play)\s*#?\s*(\d{1,2})\b)?\s*(?:[-–:.)]\s*.*)?$/i;
+// Assessor cues that usually introduce a new question, e.g. "Assessor: Let's move on to the next scenario."
+const ASSESSOR_CUE_PATTERN = /^\s*assessor[^:]*:\s*.*\b(next|move on|moving on|now let'?s|another)\b.*\b(question|scenario|role[- ]?play|task)\b/i;
+const MIN_SIMILARITY = 0.05;
+const LINES_PER_CHUNK = 6;
+
+const STOPWORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'that', 'this', 'have', 'has', 'was', 'were',
+    'will', 'would', 'can', 'could', 'should', 'they', 'them', 'their', 'what', 'when', 'where', 'which', 'who',
+    'how', 'about', 'into', 'from', 'there', 'here', 'then', 'than', 'also', 'any', 'all', 'our', 'its', 'it\'s',
+    'i\'m', 'i\'ve', 'i\'ll', 'let', 'lets', 'okay', 'yes', 'just', 'like', 'some', 'more', 'been', 'being', 'each',
+    'student', 'assessor', 'client', 'person', 'support', 'ensure', 'including', 'demonstrate',
+]);
+
+/**
+ * Normalises text into a set of content words used for similarity matching.
+ * @param text The text to tokenise.
+ * @returns The distinct lower-case terms of three or more letters, excluding stopwords.
+ */
+function toTerms(text: string): Set<string> {
+    const words = (text || '').toLowerCase().match(/[a-z][a-z']{2,}/g) || [];
+    return new Set(words.filter(word => !STOPWORDS.has(word)));
+}
+
+/**
+ * Scores how much of a chunk's vocabulary appears in a question profile.
+ */
+function similarity(chunkTerms: Set<string>, profileTerms: Set<string>): number {
+    if (chunkTerms.size === 0 || profileTerms.size === 0) return 0;
+    let shared = 0;
+    chunkTerms.forEach(term => {
+        if (profileTerms.has(term)) shared++;
+    });
+    return shared / chunkTerms.size;
+}
+
+/**
+ * Builds a vocabulary profile for every question in the schema guide from its main question,
+ * its benchmark criteria questions and its sample conversation.
+ */
+function buildQuestionProfiles(schemaGuide: AssessmentSchema, units?: string[]): QuestionProfile[] {
+    const profiles: QuestionProfile[] = [];
+    for (const unitCode of Object.keys(schemaGuide)) {
+        if (units && !units.includes(unitCode)) continue;
+        const unitData = schemaGuide[unitCode];
+        for (const mainQuestionKey of getQuestionKeys(unitData)) {
+            const questionData = unitData[mainQuestionKey];
+            const scenario = questionData.rolePlayScenerio;
+            const instructions = scenario['instruction for roleplay'];
+            const criteriaText = getCriterionKeys(instructions)
+                .map(k => instructions[k].question)
+                .join(' ');
+            profiles.push({
+                unitCode,
+                mainQuestionKey,
+                terms: toTerms(`${questionData.question} ${criteriaText} ${scenario['Sample Conversation'] || ''}`),
+            });
+        }
+    }
+    return profiles;
+}
+
+/**
+ * Detects explicit headings such as "CHCCCS031 Question 2" or "Q3" and returns the question they introduce.
+ */
+function matchHeading(line: string, currentUnit: string | null, profiles: QuestionProfile[]): QuestionProfile | null {
+    // Headings are short, standalone lines rather than part of someone's answer.
+    if (line.length > 120) return null;
+    const match = line.match(HEADING_PATTERN);
+    if (!match || (!match[1] && !match[2])) return null;
+
+    const unitCode = match[1] ? match[1].toUpperCase() : currentUnit;
+    const mainQuestionKey = match[2] ? String(Number(match[2])) : '1';
+    if (!unitCode) return null;
+
+    return profiles.find(p => p.unitCode === unitCode && p.mainQuestionKey === mainQuestionKey) || null;
+}
+
+/**
+ * Splits the transcript into chunks at blank lines and assessor cues, capping chunk length
+ * so that long unbroken conversations can still be divided between questions.
+ */
+function chunkLines(lines: string[]): Chunk[] {
+    const chunks: Chunk[] = [];
+    let start = -1;
+
+    const flush = (end: number) => {
+        if (start >= 0 && end >= start) {
+            chunks.push({ startLine: start, endLine: end, text: lines.slice(start, end + 1).join('\n') });
+        }
+        start = -1;
+    };
+
+    lines.forEach((line, index) => {
+        if (line.trim() === '') {
+            flush(index - 1);
+            return;
+        }
+        if (start >= 0 && (ASSESSOR_CUE_PATTERN.test(line) || index - start >= LINES_PER_CHUNK)) {
+            flush(index - 1);
+        }
+        if (start < 0) start = index;
+    });
+    flush(lines.length - 1);
+
+    return chunks;
+}
+
+/**
+ * Appends a chunk to the segment list, merging it into the previous segment when both belong to the same question.
+ */
+function pushSegment(segments: TranscriptSegment[], lines: string[], segment: Omit<TranscriptSegment, 'text'>) {
+    const previous = segments[segments.length - 1];
+    if (previous && previous.unitCode === segment.unitCode && previous.mainQuestionKey === segment.mainQuestionKey) {
+        previous.endLine = segment.endLine;
+        previous.confidence = Math.min(previous.confidence, segment.confidence);
+        previous.text = lines.slice(previous.startLine, previous.endLine + 1).join('\n').trim();
+        return;
+    }
+    segments.push({ ...segment, text: lines.slice(segment.startLine, segment.endLine + 1).join('\n').trim() });
+}
+
+/**
+ * Segments by explicit headings. Text before the first heading is ignored.
+ */
+function segmentByHeadings(lines: string[], profiles: QuestionProfile[]): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    let current: QuestionProfile | null = null;
+    let currentStart = 0;
+
+    for (let index = 0; index < lines.length; index++) {
+        const heading = matchHeading(lines[index], current?.unitCode ?? null, profiles);
+        if (!heading) continue;
+        if (current) {
+            pushSegment(segments, lines, {
+                unitCode: current.unitCode, mainQuestionKey: current.mainQuestionKey,
+                startLine: currentStart, endLine: index - 1, method: 'heading', confidence: 1,
+            });
+        }
+        current = heading;
+        currentStart = index + 1;
+    }
+
+    if (current) {
+        pushSegment(segments, lines, {
+            unitCode: current.unitCode, mainQuestionKey: current.mainQuestionKey,
+            startLine: currentStart, endLine: lines.length - 1, method: 'heading', confidence: 1,
+        });
+    }
+    return segments.filter(segment => segment.text.length > 0);
+}
+
+/**
+ * Segments by matching each chunk against the question profiles. Chunks that match nothing
+ * are attached to the preceding question, since they are usually follow-up exchanges.
+ */
+function segmentBySimilarity(lines: string[], profiles: QuestionProfile[]): TranscriptSegment[] {
+    const segments: TranscriptSegment[] = [];
+    let previous: QuestionProfile | null = null;
+
+    for (const chunk of chunkLines(lines)) {
+        const chunkTerms = toTerms(chunk.text);
+        let best: QuestionProfile | null = null;
+        let bestScore = 0;
+        for (const profile of profiles) {
+            const score = similarity(chunkTerms, profile.terms);
+            if (score > bestScore) {
+                best = profile;
+                bestScore = score;
+            }
+        }
+
+        const target: QuestionProfile | null = bestScore >= MIN_SIMILARITY ? best : previous;
+        if (!target) continue;
+
+        pushSegment(segments, lines, {
+            unitCode: target.unitCode, mainQuestionKey: target.mainQuestionKey,
+            startLine: chunk.startLine, endLine: chunk.endLine,
+            method: 'similarity', confidence: Number(bestScore.toFixed(2)),
+        });
+        previous = target;
+    }
+    return segments;
+}
+
+/**
+ * Proposes a split of a full transcript into per-question segments.
+ * Explicit headings (unit codes, "Question N") are used when present; otherwise each part of the
+ * conversation is matched against the question text, criteria and sample conversation in the schema.
+ *
+ * @param transcript The full transcript.
+ * @param schemaGuide The parsed schema.json.
+ * @param units Optional unit codes to restrict the split to.
+ * @returns The proposed segments, in transcript order.
+ */
+export function segmentTranscript(transcript: string, schemaGuide: AssessmentSchema, units?: string[]): TranscriptSegment[] {
+    const lines = (transcript || '').replace(/\r\n?/g, '\n').split('\n');
+    const profiles = buildQuestionProfiles(schemaGuide, units);
+    if (profiles.length === 0) return [];
+
+    const headingSegments = segmentByHeadings(lines, profiles);
+    if (headingSegments.length > 0) return headingSegments;
+
+    return segmentBySimilarity(lines, profiles);
+}
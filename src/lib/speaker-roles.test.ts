@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+    applySpeakerRoles, applySpeakerRolesToSegments, detectSpeakerRoles, resolveSpeakerRoles, suggestSpeakerRoles,
+    toSpeakerRoles, usesCanonicalRoles, validateSpeakerRoles,
+} from '@/lib/speaker-roles';
+import { parseTranscriptText } from '@/lib/transcript-model';
+
+describe('detectSpeakerRoles', () => {
+    it('trusts role labels', () => {
+        const detections = detectSpeakerRoles(parseTranscriptText('Trainer: Hi.\nLearner: Hello.\nResident: Morning.'));
+        expect(detections.map(({ speaker, role, confidence }) => [speaker, role, confidence])).toEqual([
+            ['Trainer', 'assessor', 'high'],
+            ['Learner', 'student', 'high'],
+            ['Resident', 'client', 'high'],
+        ]);
+    });
+
+    it("recognises the student's name", () => {
+        const [, student] = detectSpeakerRoles(parseTranscriptText('Speaker 1: Hi.\nJane Citizen: Hello.'), 'Jane Citizen');
+        expect(student).toMatchObject({ speaker: 'Jane Citizen', role: 'student', confidence: 'high' });
+    });
+
+    it('takes the speaker asking questions as the assessor and the most talkative other as the student', () => {
+        const detections = detectSpeakerRoles(parseTranscriptText([
+            'Speaker 1: How would you support the client?',
+            'Speaker 2: I would ask them what they want and check the care plan before I start.',
+            'Speaker 1: What else?',
+            'Speaker 2: I would write it down in the progress notes afterwards.',
+        ].join('\n')));
+        expect(detections.map(({ speaker, role, confidence }) => [speaker, role, confidence])).toEqual([
+            ['Speaker 1', 'assessor', 'low'],
+            ['Speaker 2', 'student', 'low'],
+        ]);
+    });
+});
+
+describe('resolveSpeakerRoles', () => {
+    it("prefers the assessor's choices for speakers still present", () => {
+        const detections = detectSpeakerRoles(parseTranscriptText('Assessor: Hi.\nSpeaker 2: Hello.'));
+        expect(resolveSpeakerRoles(detections, { 'Speaker 2': 'client', Gone: 'student' }))
+            .toEqual({ Assessor: 'assessor', 'Speaker 2': 'client' });
+    });
+});
+
+describe('applySpeakerRoles', () => {
+    const roles = toSpeakerRoles({ 'Speaker 1': 'assessor', 'Speaker 2': 'student', 'Speaker 3': 'nobody' });
+
+    it('relabels speakers and keeps the line count', () => {
+        const text = 'Speaker 1: Hi.\n\nSpeaker 2: Hello.\nSpeaker 3: Morning.';
+        const relabelled = applySpeakerRoles(text, roles);
+        expect(relabelled).toBe('Assessor: Hi.\n\nStudent: Hello.\nSpeaker 3: Morning.');
+        expect(relabelled.split('\n')).toHaveLength(text.split('\n').length);
+        expect(usesCanonicalRoles(relabelled)).toBe(true);
+    });
+
+    it('relabels each segment', () => {
+        expect(applySpeakerRolesToSegments({ CHCCCS038: { 1: 'Speaker 2: Hello.' } }, roles))
+            .toEqual({ CHCCCS038: { 1: 'Student: Hello.' } });
+    });
+
+    it('leaves the text alone without roles', () => {
+        expect(applySpeakerRoles('Speaker 1: Hi.', null)).toBe('Speaker 1: Hi.');
+    });
+});
+
+describe('validateSpeakerRoles', () => {
+    it('needs exactly one student', () => {
+        expect(validateSpeakerRoles({ A: 'assessor' })).toMatch(/student/);
+        expect(validateSpeakerRoles({ A: 'student', B: 'student' })).toMatch(/Only one/);
+        expect(validateSpeakerRoles({ A: 'assessor', B: 'student' })).toBeNull();
+        expect(validateSpeakerRoles(suggestSpeakerRoles('Assessor: Hi?\nStudent: Hello.'))).toBeNull();
+    });
+});
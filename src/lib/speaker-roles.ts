@@ -0,0 +1,190 @@
+import type { TranscriptSegments } from '@/lib/segment-map';
+import { parseTranscriptText, relabelSpeakers, type TranscriptEntry } from '@/lib/transcript-model';
+
+/**
+ * Works out who is who in a transcript. Recordings label speakers "Speaker 1", "Speaker 2" or by name,
+ * while the assessment guide's sample conversations use `Assessor:`, `Assessor (as Client):` and `Student:`.
+ * Each speaker is mapped to one of those roles, the assessor confirms or corrects the mapping, and the
+ * transcript is relabelled before prompting so only the student's own words are credited.
+ *
+ * Kept free of server-only imports so the form can use it.
+ */
+
+export type SpeakerRole = 'assessor' | 'student' | 'client' | 'other';
+
+/** The label each role is rewritten to, matching the sample conversations in schema.json. */
+export const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+    assessor: 'Assessor',
+    student: 'Student',
+    client: 'Assessor (as Client)',
+    other: 'Other',
+};
+
+/** Speaker label as it appears in the transcript → role. */
+export type SpeakerRoles = Record<string, SpeakerRole>;
+
+export interface SpeakerDetection {
+    speaker: string;
+    role: SpeakerRole;
+    /** Why the role was chosen, shown next to the suggestion. */
+    reason: string;
+    /** Low when the role was inferred from how the speaker talks rather than from their label or name. */
+    confidence: 'high' | 'low';
+    utterances: number;
+    words: number;
+    /** The speaker's first utterance, to help the assessor recognise them. */
+    sample: string;
+}
+
+/** Roles recognisable from the speaker label alone. */
+const LABEL_PATTERNS: Array<[SpeakerRole, RegExp]> = [
+    ['client', /\bclient\b|\bresident\b|\bparticipant\b|\bcustomer\b|\bpatient\b/i],
+    ['assessor', /\bassessor\b|\btrainer\b|\bteacher\b|\bfacilitator\b|\binterviewer\b|\bobserver\b/i],
+    ['student', /\bstudent\b|\blearner\b|\bcandidate\b|\btrainee\b/i],
+];
+
+const QUESTION_START = /^(what|how|why|when|where|who|which|can|could|would|will|do|does|did|is|are|tell me|describe|explain)\b/i;
+
+/**
+ * Counts how many of a speaker's utterances are questions, which is typical of the assessor.
+ */
+function questionShare(texts: string[]): number {
+    if (texts.length === 0) return 0;
+    return texts.filter(text => text.trim().endsWith('?') || QUESTION_START.test(text.trim())).length / texts.length;
+}
+
+/**
+ * Whether a speaker label contains the student's first or last name.
+ */
+function matchesStudentName(speaker: string, studentName?: string): boolean {
+    const names = (studentName || '').toLowerCase().split(/\s+/).filter(name => name.length > 1);
+    const words = speaker.toLowerCase().split(/[^a-z'’-]+/);
+    return names.some(name => words.includes(name));
+}
+
+/**
+ * Suggests a role for every speaker in the transcript. Labels such as "Assessor" or "Student" and the
+ * student's name are trusted; otherwise the speaker asking the most questions is taken as the assessor
+ * and the one who says the most of the rest as the student.
+ * @param entries The parsed transcript.
+ * @param studentName The student's name, if known.
+ * @returns One suggestion per speaker, in order of first appearance.
+ */
+export function detectSpeakerRoles(entries: TranscriptEntry[], studentName?: string): SpeakerDetection[] {
+    const bySpeaker = new Map<string, string[]>();
+    for (const entry of entries) {
+        if (!entry.speaker) continue;
+        bySpeaker.set(entry.speaker, [...(bySpeaker.get(entry.speaker) || []), entry.text]);
+    }
+
+    const detections: SpeakerDetection[] = Array.from(bySpeaker, ([speaker, texts]) => {
+        const base = {
+            speaker,
+            utterances: texts.length,
+            words: texts.join(' ').split(/\s+/).filter(Boolean).length,
+            sample: texts[0].length > 120 ? `${texts[0].slice(0, 117)}...` : texts[0],
+        };
+        const labelled = LABEL_PATTERNS.find(([, pattern]) => pattern.test(speaker));
+        if (labelled) {
+            return { ...base, role: labelled[0], reason: `Labelled "${speaker}".`, confidence: 'high' as const };
+        }
+        if (matchesStudentName(speaker, studentName)) {
+            return { ...base, role: 'student' as const, reason: "Matches the student's name.", confidence: 'high' as const };
+        }
+        return { ...base, role: 'other' as const, reason: 'Not recognised.', confidence: 'low' as const };
+    });
+
+    const unassigned = () => detections.filter(detection => detection.confidence === 'low' && detection.role === 'other');
+    if (!detections.some(detection => detection.role === 'assessor')) {
+        const texts = (speaker: string) => bySpeaker.get(speaker) || [];
+        const [asker] = unassigned().sort((a, b) => questionShare(texts(b.speaker)) - questionShare(texts(a.speaker)));
+        if (asker && (questionShare(texts(asker.speaker)) > 0 || unassigned().length > 1)) {
+            asker.role = 'assessor';
+            asker.reason = `Asks the most questions (${Math.round(questionShare(texts(asker.speaker)) * 100)}% of what they say).`;
+        }
+    }
+    if (!detections.some(detection => detection.role === 'student')) {
+        const [talker] = unassigned().sort((a, b) => b.words - a.words);
+        if (talker) {
+            talker.role = 'student';
+            talker.reason = `Says the most of the remaining speakers (${talker.words} words).`;
+        }
+    }
+    return detections;
+}
+
+/**
+ * Combines detected roles with the assessor's choices, which take precedence for speakers still present.
+ * @param detections The suggestions for the current transcript.
+ * @param chosen Roles the assessor picked.
+ * @returns A role for every speaker in the transcript.
+ */
+export function resolveSpeakerRoles(detections: SpeakerDetection[], chosen: SpeakerRoles | null | undefined): SpeakerRoles {
+    return Object.fromEntries(detections.map(({ speaker, role }) => [speaker, chosen?.[speaker] ?? role]));
+}
+
+/**
+ * Rewrites the transcript's speaker labels to the canonical role labels. Speakers without a role keep their label,
+ * and line numbers are unchanged so evidence still points at the right lines.
+ * @param text The transcript text.
+ * @param roles Role per speaker label.
+ * @returns The relabelled transcript.
+ */
+export function applySpeakerRoles(text: string, roles: SpeakerRoles | null | undefined): string {
+    if (!roles || Object.keys(roles).length === 0) return text;
+    return relabelSpeakers(text, speaker => (roles[speaker] ? SPEAKER_ROLE_LABELS[roles[speaker]] : null));
+}
+
+/**
+ * Relabels every section of a transcript split.
+ * @returns The relabelled sections, or the input unchanged when there are no roles.
+ */
+export function applySpeakerRolesToSegments(segments: TranscriptSegments | undefined, roles: SpeakerRoles | null | undefined): TranscriptSegments | undefined {
+    if (!segments || !roles || Object.keys(roles).length === 0) return segments;
+    return Object.fromEntries(Object.entries(segments).map(([unitCode, questions]) => [
+        unitCode,
+        Object.fromEntries(Object.entries(questions).map(([questionKey, text]) => [questionKey, applySpeakerRoles(text, roles)])),
+    ]));
+}
+
+/**
+ * Suggests a role for each speaker of a transcript, for when nobody is there to confirm them, such as batch generation.
+ * @param text The transcript text.
+ * @param studentName The student's name, if known.
+ * @returns The suggested role per speaker.
+ */
+export function suggestSpeakerRoles(text: string, studentName?: string): SpeakerRoles {
+    return resolveSpeakerRoles(detectSpeakerRoles(parseTranscriptText(text), studentName), null);
+}
+
+/**
+ * Whether the transcript labels the student's lines with the canonical `Student` label.
+ */
+export function usesCanonicalRoles(text: string): boolean {
+    return parseTranscriptText(text).some(entry => entry.speaker === SPEAKER_ROLE_LABELS.student);
+}
+
+/**
+ * Checks that exactly the roles needed to assess are present.
+ * @returns An error message, or null if the mapping can be used.
+ */
+export function validateSpeakerRoles(roles: SpeakerRoles): string | null {
+    const speakers = Object.keys(roles);
+    if (speakers.length === 0) return null;
+    const students = speakers.filter(speaker => roles[speaker] === 'student');
+    if (students.length === 0) return 'Choose which speaker is the student.';
+    if (students.length > 1) return `Only one speaker can be the student; ${students.join(' and ')} are both marked as the student.`;
+    return null;
+}
+
+/**
+ * Picks a valid role mapping from a request body, dropping unknown roles.
+ */
+export function toSpeakerRoles(value: unknown): SpeakerRoles | null {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+    const roles: SpeakerRoles = {};
+    for (const [speaker, role] of Object.entries(value)) {
+        if (typeof role === 'string' && role in SPEAKER_ROLE_LABELS) roles[speaker] = role as SpeakerRole;
+    }
+    return roles;
+}
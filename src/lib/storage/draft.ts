@@ -0,0 +1,25 @@
+import { PRONOUN_LABELS, type PronounOption } from '@/lib/pronouns';
+import { toSpeakerRoles } from '@/lib/speaker-roles';
+import type { DraftInput } from './types';
+
+/**
+ * Picks the draft fields from a request body, dropping anything missing or of the wrong type.
+ * A blank student name is ignored so that clearing the field does not detach the report from its student.
+ * @param body The parsed JSON body.
+ * @returns The fields present in the body.
+ */
+export function toDraftInput(body: any): Partial<DraftInput> {
+    const draft: Partial<DraftInput> = {};
+    if (typeof body?.studentName === 'string' && body.studentName.trim()) draft.studentName = body.studentName.trim();
+    if (typeof body?.pronouns === 'string' && body.pronouns in PRONOUN_LABELS) draft.pronouns = body.pronouns as PronounOption;
+    if (body?.customPronouns && typeof body.customPronouns === 'object') draft.customPronouns = body.customPronouns;
+    if (body?.qualification === null || (typeof body?.qualification === 'string' && body.qualification.trim())) {
+        draft.qualification = body.qualification?.trim() ?? null;
+    }
+    if (Array.isArray(body?.units)) draft.units = body.units.filter((unit: unknown) => typeof unit === 'string');
+    if (typeof body?.transcript === 'string') draft.transcript = body.transcript;
+    if (body?.segments === null || Array.isArray(body?.segments)) draft.segments = body.segments;
+    if (body?.speakerRoles === null) draft.speakerRoles = null;
+    else if (body?.speakerRoles !== undefined) draft.speakerRoles = toSpeakerRoles(body.speakerRoles);
+    return draft;
+}
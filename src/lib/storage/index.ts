@@ -0,0 +1,51 @@
+import path from 'path';
+import { createSqliteStore } from './sqlite';
+import type { ReportStore, StorageDriverName } from './types';
+
+export { toDraftInput } from './draft';
+
+export type {
+    BatchRecord, BatchReport, CreateReportOptions, DocumentRecord, DraftInput, JobEvent, JobProgress, JobRecord, JobStatus,
+    ReportStatus, ReportStore, ReportSummary, SavedAnswer, StorageDriverName, StoredBatch, StoredReport, TemplateInput,
+    TemplateRecord,
+} from './types';
+
+const DRIVER_NAMES: StorageDriverName[] = ['sqlite'];
+
+// Kept on globalThis because Next.js may load this module once per route bundle; every route must share one store.
+const globalStore = globalThis as typeof globalThis & { __reportStore?: ReportStore };
+
+/**
+ * Returns the report store selected by environment configuration, opening it on first use.
+ * Jobs left running by a previous server process are marked as failed when the store is opened.
+ *
+ * - `STORAGE_DRIVER`: `sqlite` (default).
+ * - sqlite: optional `DATABASE_PATH` (defaults to `data/assessor.sqlite`; `:memory:` keeps nothing on disk).
+ *
+ * @param env The environment to read settings from.
+ * @returns The shared store.
+ * @throws Error if the driver name is unknown or the database cannot be opened.
+ */
+export function getReportStore(env: NodeJS.ProcessEnv = process.env): ReportStore {
+    if (!globalStore.__reportStore) {
+        const store = createStore(env);
+        store.failInterruptedJobs().then(count => {
+            if (count > 0) console.warn(`Marked ${count} interrupted generation job(s) as failed.`);
+        }).catch(error => console.error('Could not mark interrupted generation jobs as failed:', error.message));
+        globalStore.__reportStore = store;
+    }
+    return globalStore.__reportStore;
+}
+
+function createStore(env: NodeJS.ProcessEnv): ReportStore {
+    const name = (env.STORAGE_DRIVER || 'sqlite').toLowerCase() as StorageDriverName;
+
+    switch (name) {
+        case 'sqlite':
+            return createSqliteStore({
+                filePath: env.DATABASE_PATH || path.join(process.cwd(), 'data', 'assessor.sqlite'),
+            });
+        default:
+            throw new Error(`Unknown STORAGE_DRIVER '${name}'. Expected one of: ${DRIVER_NAMES.join(', ')}.`);
+    }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { createSqliteStore } from '@/lib/storage/sqlite';
+import type { DraftInput, TemplateInput } from '@/lib/storage/types';
+
+const draft = (overrides: Partial<DraftInput>): DraftInput => ({
+    studentName: 'Jane Citizen', pronouns: 'she', units: [], transcript: '', ...overrides,
+});
+
+const template: TemplateInput = {
+    qualification: 'CHC33021', name: 'Blank form', filename: 'blank_form.docx', path: 'data/templates/a.docx', changelog: '',
+    lint: { ok: true, tagCount: 0, missing: [], extra: [], malformed: [] },
+};
+
+describe('createSqliteStore', () => {
+    it('keeps pronouns per report for students with the same name', async () => {
+        const store = createSqliteStore({ filePath: ':memory:' });
+        const first = await store.createReport(draft({ pronouns: 'she' }));
+        const second = await store.createReport(draft({ studentName: 'jane citizen', pronouns: 'custom', customPronouns: { subject: 'xe' } }));
+
+        expect(second.studentId).toBe(first.studentId);
+        expect(await store.getReport(first.id)).toMatchObject({ pronouns: 'she', customPronouns: undefined });
+        expect(await store.getReport(second.id)).toMatchObject({ pronouns: 'custom', customPronouns: { subject: 'xe' } });
+
+        await store.updateDraft(second.id, { pronouns: 'they' });
+        expect((await store.getReport(first.id))?.pronouns).toBe('she');
+        expect((await store.getReport(second.id))?.pronouns).toBe('they');
+    });
+
+    it('sets and unsets the default template of a qualification', async () => {
+        const store = createSqliteStore({ filePath: ':memory:' });
+        const first = await store.addTemplateVersion(template);
+        const second = await store.addTemplateVersion(template);
+
+        await store.setDefaultTemplate(first.id);
+        await store.setDefaultTemplate(second.id);
+        expect((await store.getDefaultTemplate('CHC33021'))?.id).toBe(second.id);
+
+        expect(await store.unsetDefaultTemplate(second.id)).toBe(true);
+        expect(await store.getDefaultTemplate('CHC33021')).toBeNull();
+        expect(await store.unsetDefaultTemplate('missing')).toBe(false);
+    });
+});
@@ -0,0 +1,528 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import type { GeneratedReport } from '@/lib/generation';
+import type { ReportVerification } from '@/lib/quote-verification';
+import type {
+    BatchReport, CreateReportOptions, DocumentRecord, DraftInput, JobRecord, JobStatus, ReportStatus, ReportStore, ReportSummary, SavedAnswer,
+    StoredReport, TemplateRecord,
+} from './types';
+
+export interface SqliteStoreOptions {
+    /** Database file, or ':memory:' for a throwaway database. */
+    filePath: string;
+}
+
+// Each entry upgrades the database by one version; never edit an entry once released.
+const MIGRATIONS = [
+    `CREATE TABLE students (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        pronouns TEXT NOT NULL DEFAULT 'they',
+        custom_pronouns TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+    CREATE UNIQUE INDEX students_name ON students (name COLLATE NOCASE);
+    CREATE TABLE reports (
+        id TEXT PRIMARY KEY,
+        student_id TEXT NOT NULL REFERENCES students (id),
+        status TEXT NOT NULL DEFAULT 'draft',
+        units TEXT NOT NULL DEFAULT '[]',
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+    CREATE TABLE transcripts (
+        report_id TEXT PRIMARY KEY REFERENCES reports (id) ON DELETE CASCADE,
+        text TEXT NOT NULL,
+        segments TEXT,
+        updated_at TEXT NOT NULL
+    );
+    CREATE TABLE answers (
+        report_id TEXT NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+        unit_code TEXT NOT NULL,
+        question_key TEXT NOT NULL,
+        result TEXT NOT NULL,
+        verification TEXT,
+        updated_at TEXT NOT NULL,
+        PRIMARY KEY (report_id, unit_code, question_key)
+    );
+    CREATE TABLE edits (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        report_id TEXT NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+        unit_code TEXT NOT NULL,
+        question_key TEXT NOT NULL,
+        result TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    CREATE TABLE documents (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        report_id TEXT NOT NULL REFERENCES reports (id) ON DELETE CASCADE,
+        filename TEXT NOT NULL,
+        path TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );`,
+    `CREATE TABLE jobs (
+        id TEXT PRIMARY KEY,
+        report_id TEXT REFERENCES reports (id) ON DELETE SET NULL,
+        status TEXT NOT NULL DEFAULT 'queued',
+        total_questions INTEGER NOT NULL,
+        created_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );
+    CREATE TABLE job_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_id TEXT NOT NULL REFERENCES jobs (id) ON DELETE CASCADE,
+        event TEXT NOT NULL,
+        data TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    CREATE INDEX job_events_job ON job_events (job_id, id);`,
+    `CREATE TABLE batches (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    ALTER TABLE reports ADD COLUMN batch_id TEXT REFERENCES batches (id) ON DELETE SET NULL;
+    ALTER TABLE reports ADD COLUMN source_file TEXT;
+    CREATE INDEX reports_batch ON reports (batch_id);`,
+    `ALTER TABLE transcripts ADD COLUMN speaker_roles TEXT;`,
+    `ALTER TABLE transcripts ADD COLUMN redactions TEXT;`,
+    `ALTER TABLE reports ADD COLUMN qualification TEXT;`,
+    `CREATE TABLE templates (
+        id TEXT PRIMARY KEY,
+        qualification TEXT NOT NULL,
+        name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        filename TEXT NOT NULL,
+        path TEXT NOT NULL,
+        changelog TEXT NOT NULL DEFAULT '',
+        lint TEXT NOT NULL,
+        is_default INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL,
+        UNIQUE (qualification, name, version)
+    );
+    CREATE INDEX templates_qualification ON templates (qualification);`,
+    // Pronouns belong to the report, so another report for a student of the same name cannot change them;
+    // the students table's columns are no longer read
+    `ALTER TABLE reports ADD COLUMN pronouns TEXT NOT NULL DEFAULT 'they';
+    ALTER TABLE reports ADD COLUMN custom_pronouns TEXT;
+    UPDATE reports SET
+        pronouns = (SELECT s.pronouns FROM students s WHERE s.id = reports.student_id),
+        custom_pronouns = (SELECT s.custom_pronouns FROM students s WHERE s.id = reports.student_id);`,
+    // A failed question's event was named 'error', which EventSource also fires for a dropped connection
+    `UPDATE job_events SET event = 'question-error' WHERE event = 'error';`,
+];
+
+interface ReportRow {
+    id: string;
+    student_id: string;
+    student_name: string;
+    pronouns: string;
+    custom_pronouns: string | null;
+    status: ReportStatus;
+    qualification: string | null;
+    units: string;
+    created_at: string;
+    updated_at: string;
+    answered_questions: number;
+}
+
+const REPORT_SELECT = `
+    SELECT r.id, r.student_id, s.name AS student_name, r.pronouns, r.custom_pronouns, r.status, r.qualification, r.units,
+           r.created_at, r.updated_at,
+           (SELECT COUNT(*) FROM answers a WHERE a.report_id = r.id) AS answered_questions
+    FROM reports r JOIN students s ON s.id = r.student_id`;
+
+interface JobRow {
+    id: string;
+    report_id: string | null;
+    status: JobStatus;
+    total_questions: number;
+    created_at: string;
+    updated_at: string;
+}
+
+interface BatchReportRow extends ReportRow {
+    source_file: string | null;
+    job_id: string | null;
+    job_status: JobStatus | null;
+    total_questions: number | null;
+    job_created_at: string | null;
+    job_updated_at: string | null;
+    completed_questions: number;
+    failed_questions: number;
+}
+
+// Each report in a batch with its most recent job and how many of that job's questions have finished
+const BATCH_REPORT_SELECT = `
+    SELECT r.id, r.student_id, s.name AS student_name, r.pronouns, r.custom_pronouns, r.status, r.qualification, r.units,
+           r.created_at, r.updated_at, r.source_file,
+           (SELECT COUNT(*) FROM answers a WHERE a.report_id = r.id) AS answered_questions,
+           j.id AS job_id, j.status AS job_status, j.total_questions, j.created_at AS job_created_at, j.updated_at AS job_updated_at,
+           (SELECT COUNT(*) FROM job_events e WHERE e.job_id = j.id AND e.event = 'completed') AS completed_questions,
+           (SELECT COUNT(*) FROM job_events e WHERE e.job_id = j.id AND e.event = 'question-error') AS failed_questions
+    FROM reports r JOIN students s ON s.id = r.student_id
+    LEFT JOIN jobs j ON j.id = (SELECT id FROM jobs WHERE report_id = r.id ORDER BY created_at DESC, rowid DESC LIMIT 1)`;
+
+interface TemplateRow {
+    id: string;
+    qualification: string;
+    name: string;
+    version: number;
+    filename: string;
+    path: string;
+    changelog: string;
+    lint: string;
+    is_default: number;
+    created_at: string;
+}
+
+const ACTIVE_JOB_STATUSES = `('queued', 'running')`;
+
+const now = () => new Date().toISOString();
+
+/**
+ * Applies any migrations the database has not seen yet, tracked with `PRAGMA user_version`.
+ */
+function migrate(db: Database.Database) {
+    const version = db.pragma('user_version', { simple: true }) as number;
+    for (let index = version; index < MIGRATIONS.length; index++) {
+        db.transaction(() => {
+            db.exec(MIGRATIONS[index]);
+            db.pragma(`user_version = ${index + 1}`);
+        })();
+    }
+}
+
+function toJob(row: JobRow): JobRecord {
+    return {
+        id: row.id,
+        reportId: row.report_id,
+        status: row.status,
+        totalQuestions: row.total_questions,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+function toSummary(row: ReportRow): ReportSummary {
+    return {
+        id: row.id,
+        studentId: row.student_id,
+        studentName: row.student_name,
+        status: row.status,
+        qualification: row.qualification,
+        units: JSON.parse(row.units),
+        answeredQuestions: row.answered_questions,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+    };
+}
+
+function toBatchReport(row: BatchReportRow): BatchReport {
+    return {
+        ...toSummary(row),
+        sourceFile: row.source_file,
+        job: row.job_id ? {
+            ...toJob({
+                id: row.job_id,
+                report_id: row.id,
+                status: row.job_status!,
+                total_questions: row.total_questions!,
+                created_at: row.job_created_at!,
+                updated_at: row.job_updated_at!,
+            }),
+            completedQuestions: row.completed_questions,
+            failedQuestions: row.failed_questions,
+        } : null,
+    };
+}
+
+function toTemplate(row: TemplateRow): TemplateRecord {
+    return {
+        id: row.id,
+        qualification: row.qualification,
+        name: row.name,
+        version: row.version,
+        filename: row.filename,
+        path: row.path,
+        changelog: row.changelog,
+        lint: JSON.parse(row.lint),
+        isDefault: row.is_default === 1,
+        createdAt: row.created_at,
+    };
+}
+
+/**
+ * Creates a report store backed by a local SQLite database, creating the file and tables if needed.
+ * @param options The database location.
+ * @returns A `ReportStore`.
+ */
+export function createSqliteStore({ filePath }: SqliteStoreOptions): ReportStore {
+    if (filePath !== ':memory:') {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    migrate(db);
+
+    /**
+     * Finds the student with this name, or creates one. Pronouns are kept per report, not per student.
+     */
+    function upsertStudent(studentName: string): string {
+        const name = studentName.trim();
+        const existing = db.prepare('SELECT id FROM students WHERE name = ? COLLATE NOCASE').get(name) as { id: string } | undefined;
+        if (existing) return existing.id;
+
+        const id = randomUUID();
+        const timestamp = now();
+        db.prepare('INSERT INTO students (id, name, created_at, updated_at) VALUES (?, ?, ?, ?)').run(id, name, timestamp, timestamp);
+        return id;
+    }
+
+    function touch(id: string): boolean {
+        return db.prepare('UPDATE reports SET updated_at = ? WHERE id = ?').run(now(), id).changes > 0;
+    }
+
+    function readReport(id: string): StoredReport | null {
+        const row = db.prepare(`${REPORT_SELECT} WHERE r.id = ?`).get(id) as ReportRow | undefined;
+        if (!row) return null;
+
+        const transcript = db.prepare('SELECT text, segments, speaker_roles, redactions FROM transcripts WHERE report_id = ?').get(id) as
+            { text: string; segments: string | null; speaker_roles: string | null; redactions: string | null } | undefined;
+
+        const answers: GeneratedReport = {};
+        const verification: ReportVerification = {};
+        const answerRows = db.prepare('SELECT unit_code, question_key, result, verification FROM answers WHERE report_id = ? ORDER BY rowid')
+            .all(id) as Array<{ unit_code: string; question_key: string; result: string; verification: string | null }>;
+        for (const answer of answerRows) {
+            (answers[answer.unit_code] ??= {})[answer.question_key] = JSON.parse(answer.result);
+            if (answer.verification) {
+                (verification[answer.unit_code] ??= {})[answer.question_key] = JSON.parse(answer.verification);
+            }
+        }
+
+        const documents = (db.prepare('SELECT id, filename, path, created_at FROM documents WHERE report_id = ? ORDER BY id')
+            .all(id) as Array<{ id: number; filename: string; path: string; created_at: string }>)
+            .map(({ created_at, ...document }): DocumentRecord => ({ ...document, createdAt: created_at }));
+
+        const activeJob = db.prepare(`SELECT id FROM jobs WHERE report_id = ? AND status IN ${ACTIVE_JOB_STATUSES} ORDER BY created_at DESC`)
+            .get(id) as { id: string } | undefined;
+
+        return {
+            ...toSummary(row),
+            pronouns: row.pronouns as StoredReport['pronouns'],
+            customPronouns: row.custom_pronouns ? JSON.parse(row.custom_pronouns) : undefined,
+            transcript: transcript?.text ?? '',
+            segments: transcript?.segments ? JSON.parse(transcript.segments) : null,
+            speakerRoles: transcript?.speaker_roles ? JSON.parse(transcript.speaker_roles) : null,
+            redactions: transcript?.redactions ? JSON.parse(transcript.redactions) : [],
+            answers,
+            verification,
+            documents,
+            activeJobId: activeJob?.id ?? null,
+        };
+    }
+
+    function writeTranscript(id: string, text: string, segments: DraftInput['segments'], speakerRoles: DraftInput['speakerRoles']) {
+        db.prepare(`
+            INSERT INTO transcripts (report_id, text, segments, speaker_roles, updated_at) VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT (report_id) DO UPDATE SET text = excluded.text, segments = excluded.segments,
+                speaker_roles = excluded.speaker_roles, updated_at = excluded.updated_at
+        `).run(id, text, segments ? JSON.stringify(segments) : null, speakerRoles ? JSON.stringify(speakerRoles) : null, now());
+    }
+
+    const createReport = db.transaction((draft: DraftInput, options: CreateReportOptions = {}): string => {
+        const id = randomUUID();
+        const timestamp = now();
+        const studentId = upsertStudent(draft.studentName);
+        db.prepare(`
+            INSERT INTO reports (id, student_id, pronouns, custom_pronouns, qualification, units, batch_id, source_file, created_at, updated_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+            id, studentId, draft.pronouns, draft.customPronouns ? JSON.stringify(draft.customPronouns) : null,
+            draft.qualification ?? null, JSON.stringify(draft.units || []), options.batchId ?? null, options.sourceFile ?? null, timestamp, timestamp,
+        );
+        writeTranscript(id, draft.transcript || '', draft.segments, draft.speakerRoles);
+        return id;
+    });
+
+    const updateDraft = db.transaction((id: string, draft: Partial<DraftInput>): boolean => {
+        const current = readReport(id);
+        if (!current) return false;
+
+        if (draft.studentName !== undefined) {
+            db.prepare('UPDATE reports SET student_id = ? WHERE id = ?').run(upsertStudent(draft.studentName), id);
+        }
+        if (draft.pronouns !== undefined || draft.customPronouns !== undefined) {
+            const customPronouns = draft.customPronouns ?? current.customPronouns;
+            db.prepare('UPDATE reports SET pronouns = ?, custom_pronouns = ? WHERE id = ?')
+                .run(draft.pronouns ?? current.pronouns, customPronouns ? JSON.stringify(customPronouns) : null, id);
+        }
+        if (draft.units !== undefined) {
+            db.prepare('UPDATE reports SET units = ? WHERE id = ?').run(JSON.stringify(draft.units), id);
+        }
+        if (draft.qualification !== undefined) {
+            db.prepare('UPDATE reports SET qualification = ? WHERE id = ?').run(draft.qualification, id);
+        }
+        if (draft.transcript !== undefined || draft.segments !== undefined || draft.speakerRoles !== undefined) {
+            writeTranscript(
+                id,
+                draft.transcript ?? current.transcript,
+                draft.segments !== undefined ? draft.segments : current.segments,
+                draft.speakerRoles !== undefined ? draft.speakerRoles : current.speakerRoles,
+            );
+        }
+        return touch(id);
+    });
+
+    const saveAnswer = db.transaction((id: string, answer: SavedAnswer): boolean => {
+        if (!touch(id)) return false;
+        const timestamp = now();
+        const result = JSON.stringify(answer.result);
+        db.prepare(`
+            INSERT INTO answers (report_id, unit_code, question_key, result, verification, updated_at) VALUES (?, ?, ?, ?, ?, ?)
+            ON CONFLICT (report_id, unit_code, question_key) DO UPDATE SET result = excluded.result,
+                verification = excluded.verification, updated_at = excluded.updated_at
+        `).run(id, answer.unitCode, answer.mainQuestionKey, result, answer.verification ? JSON.stringify(answer.verification) : null, timestamp);
+        if (answer.source === 'edited') {
+            db.prepare('INSERT INTO edits (report_id, unit_code, question_key, result, created_at) VALUES (?, ?, ?, ?, ?)')
+                .run(id, answer.unitCode, answer.mainQuestionKey, result, timestamp);
+        }
+        return true;
+    });
+
+    return {
+        driver: 'sqlite',
+        async listReports() {
+            return (db.prepare(`${REPORT_SELECT} ORDER BY r.updated_at DESC`).all() as ReportRow[]).map(toSummary);
+        },
+        async getReport(id) {
+            return readReport(id);
+        },
+        async createReport(draft, options) {
+            return readReport(createReport(draft, options))!;
+        },
+        async updateDraft(id, draft) {
+            return updateDraft(id, draft) ? readReport(id) : null;
+        },
+        async setStatus(id, status) {
+            return db.prepare('UPDATE reports SET status = ?, updated_at = ? WHERE id = ?').run(status, now(), id).changes > 0;
+        },
+        async saveAnswer(id, answer) {
+            return saveAnswer(id, answer);
+        },
+        async saveRedactions(id, redactions) {
+            return db.prepare('UPDATE transcripts SET redactions = ? WHERE report_id = ?').run(JSON.stringify(redactions), id).changes > 0;
+        },
+        async addDocument(id, document) {
+            if (!touch(id)) return null;
+            const createdAt = now();
+            const { lastInsertRowid } = db.prepare('INSERT INTO documents (report_id, filename, path, created_at) VALUES (?, ?, ?, ?)')
+                .run(id, document.filename, document.path, createdAt);
+            return { id: Number(lastInsertRowid), ...document, createdAt };
+        },
+        async deleteReport(id) {
+            return db.prepare('DELETE FROM reports WHERE id = ?').run(id).changes > 0;
+        },
+        async createBatch(name) {
+            const batch = { id: randomUUID(), name, createdAt: now() };
+            db.prepare('INSERT INTO batches (id, name, created_at) VALUES (?, ?, ?)').run(batch.id, batch.name, batch.createdAt);
+            return batch;
+        },
+        async getBatch(id) {
+            const batch = db.prepare('SELECT id, name, created_at FROM batches WHERE id = ?').get(id) as
+                { id: string; name: string; created_at: string } | undefined;
+            if (!batch) return null;
+            const reports = db.prepare(`${BATCH_REPORT_SELECT} WHERE r.batch_id = ? ORDER BY r.rowid`)
+                .all(id) as BatchReportRow[];
+            return { id: batch.id, name: batch.name, createdAt: batch.created_at, reports: reports.map(toBatchReport) };
+        },
+        async createJob({ reportId, totalQuestions }) {
+            const id = randomUUID();
+            const timestamp = now();
+            db.prepare('INSERT INTO jobs (id, report_id, total_questions, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+                .run(id, reportId, totalQuestions, timestamp, timestamp);
+            return { id, reportId, status: 'queued', totalQuestions, createdAt: timestamp, updatedAt: timestamp };
+        },
+        async getJob(id) {
+            const row = db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+            return row ? toJob(row) : null;
+        },
+        async setJobStatus(id, status) {
+            return db.prepare('UPDATE jobs SET status = ?, updated_at = ? WHERE id = ?').run(status, now(), id).changes > 0;
+        },
+        async appendJobEvent(jobId, event, data) {
+            const { lastInsertRowid } = db.prepare('INSERT INTO job_events (job_id, event, data, created_at) VALUES (?, ?, ?, ?)')
+                .run(jobId, event, JSON.stringify(data), now());
+            return { id: Number(lastInsertRowid), event, data };
+        },
+        async listJobEvents(jobId, afterId = 0) {
+            return (db.prepare('SELECT id, event, data FROM job_events WHERE job_id = ? AND id > ? ORDER BY id')
+                .all(jobId, afterId) as Array<{ id: number; event: string; data: string }>)
+                .map(row => ({ id: row.id, event: row.event, data: JSON.parse(row.data) }));
+        },
+        async failInterruptedJobs() {
+            return db.transaction(() => {
+                const timestamp = now();
+                // Record a terminal event too, so clients replaying the job know it will not finish
+                db.prepare(`
+                    INSERT INTO job_events (job_id, event, data, created_at)
+                    SELECT id, 'failed', ?, ? FROM jobs WHERE status IN ${ACTIVE_JOB_STATUSES}
+                `).run(JSON.stringify({ message: 'The server stopped before this job finished.' }), timestamp);
+                return db.prepare(`UPDATE jobs SET status = 'failed', updated_at = ? WHERE status IN ${ACTIVE_JOB_STATUSES}`)
+                    .run(timestamp).changes;
+            })();
+        },
+        async listTemplates(qualification) {
+            const rows = qualification
+                ? db.prepare('SELECT * FROM templates WHERE qualification = ? ORDER BY name, version DESC').all(qualification)
+                : db.prepare('SELECT * FROM templates ORDER BY qualification, name, version DESC').all();
+            return (rows as TemplateRow[]).map(toTemplate);
+        },
+        async getTemplate(id) {
+            const row = db.prepare('SELECT * FROM templates WHERE id = ?').get(id) as TemplateRow | undefined;
+            return row ? toTemplate(row) : null;
+        },
+        async addTemplateVersion(template) {
+            return db.transaction(() => {
+                const { latest } = db.prepare('SELECT MAX(version) AS latest FROM templates WHERE qualification = ? AND name = ?')
+                    .get(template.qualification, template.name) as { latest: number | null };
+                const record: TemplateRecord = {
+                    id: randomUUID(),
+                    ...template,
+                    version: (latest ?? 0) + 1,
+                    isDefault: false,
+                    createdAt: now(),
+                };
+                db.prepare(`
+                    INSERT INTO templates (id, qualification, name, version, filename, path, changelog, lint, created_at)
+                    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+                `).run(
+                    record.id, record.qualification, record.name, record.version, record.filename, record.path,
+                    record.changelog, JSON.stringify(record.lint), record.createdAt
+                );
+                return record;
+            })();
+        },
+        async setDefaultTemplate(id) {
+            return db.transaction(() => {
+                const row = db.prepare('SELECT qualification FROM templates WHERE id = ?').get(id) as { qualification: string } | undefined;
+                if (!row) return false;
+                db.prepare('UPDATE templates SET is_default = 0 WHERE qualification = ?').run(row.qualification);
+                db.prepare('UPDATE templates SET is_default = 1 WHERE id = ?').run(id);
+                return true;
+            })();
+        },
+        async unsetDefaultTemplate(id) {
+            return db.prepare('UPDATE templates SET is_default = 0 WHERE id = ?').run(id).changes > 0;
+        },
+        async getDefaultTemplate(qualification) {
+            const row = db.prepare('SELECT * FROM templates WHERE qualification = ? AND is_default = 1').get(qualification) as TemplateRow | undefined;
+            return row ? toTemplate(row) : null;
+        },
+    };
+}
@@ -0,0 +1,213 @@
+import type { GeneratedReport, QuestionResult } from '@/lib/generation';
+import type { PronounOption, PronounSet } from '@/lib/pronouns';
+import type { QuestionVerification, ReportVerification } from '@/lib/quote-verification';
+import type { Redaction } from '@/lib/redaction';
+import type { TranscriptSegment } from '@/lib/segment-map';
+import type { SpeakerRoles } from '@/lib/speaker-roles';
+import type { TemplateLintReport } from '@/lib/template-inspection';
+
+export type StorageDriverName = 'sqlite';
+
+/**
+ * draft: details entered, nothing generated yet.
+ * generating: a generation run was started and has not finished.
+ * generated: answers are available for review.
+ * downloaded: at least one document was produced.
+ */
+export type ReportStatus = 'draft' | 'generating' | 'generated' | 'downloaded';
+
+/**
+ * The form values saved with a report. Every field is optional when updating a draft.
+ */
+export interface DraftInput {
+    studentName: string;
+    pronouns: PronounOption;
+    customPronouns?: Partial<PronounSet>;
+    /** Code of the qualification assessed, or null for the registry's default. */
+    qualification?: string | null;
+    units: string[];
+    transcript: string;
+    /** The assessor's transcript split, or null when the full transcript is used. */
+    segments?: TranscriptSegment[] | null;
+    /** The confirmed role of each speaker, or null when not yet chosen. */
+    speakerRoles?: SpeakerRoles | null;
+}
+
+/**
+ * queued / running: the job is in progress in this server process.
+ * completed: every question was attempted.
+ * cancelled: stopped by the assessor; answers completed before that are kept.
+ * failed: the job crashed or the server stopped while it was running.
+ */
+export type JobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export interface JobRecord {
+    id: string;
+    reportId: string | null;
+    status: JobStatus;
+    totalQuestions: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * A server-sent event recorded for replay. Ids increase monotonically across all jobs,
+ * so they can be used directly as SSE event ids.
+ */
+export interface JobEvent {
+    id: number;
+    event: string;
+    data: unknown;
+}
+
+export interface ReportSummary {
+    id: string;
+    studentId: string;
+    studentName: string;
+    status: ReportStatus;
+    /** Code of the qualification assessed, or null for the registry's default. */
+    qualification: string | null;
+    units: string[];
+    /** Number of main questions with a saved answer. */
+    answeredQuestions: number;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface DocumentRecord {
+    id: number;
+    filename: string;
+    /** Path relative to the project root. */
+    path: string;
+    createdAt: string;
+}
+
+export interface StoredReport extends ReportSummary {
+    pronouns: PronounOption;
+    customPronouns?: Partial<PronounSet>;
+    transcript: string;
+    segments: TranscriptSegment[] | null;
+    speakerRoles: SpeakerRoles | null;
+    /** Tokens the transcript was redacted with before generation; the stored answers contain these tokens. */
+    redactions: Redaction[];
+    answers: GeneratedReport;
+    verification: ReportVerification;
+    documents: DocumentRecord[];
+    /** The generation job still in progress for this report, if any. */
+    activeJobId: string | null;
+}
+
+export interface CreateReportOptions {
+    /** The batch the report was created in, if any. */
+    batchId?: string | null;
+    /** The uploaded file the transcript was read from. */
+    sourceFile?: string | null;
+}
+
+export interface JobProgress extends JobRecord {
+    /** Questions answered so far. */
+    completedQuestions: number;
+    /** Questions that could not be generated. */
+    failedQuestions: number;
+}
+
+export interface BatchReport extends ReportSummary {
+    sourceFile: string | null;
+    /** The report's most recent generation job. */
+    job: JobProgress | null;
+}
+
+/**
+ * A cohort of reports created together from one upload.
+ */
+export interface BatchRecord {
+    id: string;
+    name: string;
+    createdAt: string;
+}
+
+export interface StoredBatch extends BatchRecord {
+    /** In upload order. */
+    reports: BatchReport[];
+}
+
+/**
+ * One version of an uploaded DOCX template. Versions of a template share its qualification and name.
+ */
+export interface TemplateRecord {
+    id: string;
+    qualification: string;
+    name: string;
+    /** 1 for the first upload of a name, counting up. */
+    version: number;
+    /** The uploaded file's name. */
+    filename: string;
+    /** Where the file is kept, relative to the project root. */
+    path: string;
+    /** What changed in this version. */
+    changelog: string;
+    /** The placeholder check run when the version was uploaded. */
+    lint: TemplateLintReport;
+    /** Used to fill documents for the qualification unless another version is picked. */
+    isDefault: boolean;
+    createdAt: string;
+}
+
+export interface TemplateInput {
+    qualification: string;
+    name: string;
+    filename: string;
+    path: string;
+    changelog: string;
+    lint: TemplateLintReport;
+}
+
+export interface SavedAnswer {
+    unitCode: string;
+    mainQuestionKey: string;
+    result: QuestionResult;
+    verification?: QuestionVerification;
+    /** Generated answers replace the current one; edits are also kept in the edit history. */
+    source: 'generated' | 'edited';
+}
+
+/**
+ * Persists students, their transcripts, generated reports, assessor edits and produced documents,
+ * as well as generation jobs and their progress events, the batches reports were uploaded in,
+ * and the uploaded DOCX template versions.
+ * Methods that take a report or job id resolve to null / false when it does not exist.
+ */
+export interface ReportStore {
+    readonly driver: StorageDriverName;
+    listReports(): Promise<ReportSummary[]>;
+    getReport(id: string): Promise<StoredReport | null>;
+    createReport(draft: DraftInput, options?: CreateReportOptions): Promise<StoredReport>;
+    updateDraft(id: string, draft: Partial<DraftInput>): Promise<StoredReport | null>;
+    setStatus(id: string, status: ReportStatus): Promise<boolean>;
+    saveAnswer(id: string, answer: SavedAnswer): Promise<boolean>;
+    /** Replaces the tokens the report's transcript was redacted with. */
+    saveRedactions(id: string, redactions: Redaction[]): Promise<boolean>;
+    addDocument(id: string, document: { filename: string; path: string }): Promise<DocumentRecord | null>;
+    deleteReport(id: string): Promise<boolean>;
+    createBatch(name: string): Promise<BatchRecord>;
+    getBatch(id: string): Promise<StoredBatch | null>;
+    createJob(job: { reportId: string | null; totalQuestions: number }): Promise<JobRecord>;
+    getJob(id: string): Promise<JobRecord | null>;
+    setJobStatus(id: string, status: JobStatus): Promise<boolean>;
+    appendJobEvent(jobId: string, event: string, data: unknown): Promise<JobEvent>;
+    /** Lists a job's events with an id greater than `afterId`, oldest first. */
+    listJobEvents(jobId: string, afterId?: number): Promise<JobEvent[]>;
+    /** Marks queued and running jobs as failed; called at start-up, when no job can still be running. */
+    failInterruptedJobs(): Promise<number>;
+    /** Lists template versions, by name and then newest version first; all qualifications when none is given. */
+    listTemplates(qualification?: string): Promise<TemplateRecord[]>;
+    getTemplate(id: string): Promise<TemplateRecord | null>;
+    /** Stores the next version of the template with this qualification and name, or its first version. */
+    addTemplateVersion(template: TemplateInput): Promise<TemplateRecord>;
+    /** Makes a version the default for its qualification, replacing the previous default. */
+    setDefaultTemplate(id: string): Promise<boolean>;
+    /** Stops a version being the default, so its qualification falls back to the template in qualifications.json. */
+    unsetDefaultTemplate(id: string): Promise<boolean>;
+    /** The version marked as default for a qualification, if any. */
+    getDefaultTemplate(qualification: string): Promise<TemplateRecord | null>;
+}
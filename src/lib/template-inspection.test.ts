@@ -0,0 +1,60 @@
+import PizZip from 'pizzip';
+import { describe, expect, it } from 'vitest';
+import type { AssessmentSchema } from '@/lib/assessment-schema';
+import { getExpectedPlaceholders, inspectTemplate, lintTemplate, TemplateInspectionError } from '@/lib/template-inspection';
+
+/** Builds a DOCX whose body has one paragraph per entry, each entry listing the paragraph's runs. */
+function buildDocx(paragraphs: string[][]): Buffer {
+    const body = paragraphs
+        .map(runs => `<w:p>${runs.map(text => `<w:r><w:t xml:space="preserve">${text}</w:t></w:r>`).join('')}</w:p>`)
+        .join('');
+    const zip = new PizZip();
+    zip.file('word/document.xml', `<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`);
+    return zip.generate({ type: 'nodebuffer' });
+}
+
+// Only the numbered question keys matter to the placeholder check
+const schema = { CHCCCS038: { 1: {}, 2: {} } } as unknown as AssessmentSchema;
+
+describe('inspectTemplate', () => {
+    it('lists tags with the sections they are in', () => {
+        const { tags, malformed } = inspectTemplate(buildDocx([['{{#CHCCCS038_1}}'], ['{{#criteria}}{{performance}}{{/criteria}}'], ['{{/CHCCCS038_1}}']]));
+        expect(malformed).toEqual([]);
+        expect(tags.find(tag => tag.name === 'performance')).toMatchObject({ kind: 'value', scope: ['CHCCCS038_1', 'criteria'], runs: 1 });
+    });
+
+    it('reports tags split across runs', () => {
+        const { malformed } = inspectTemplate(buildDocx([['{{CHCC', 'CS038_1}}']]));
+        expect(malformed).toEqual([expect.objectContaining({ kind: 'split', text: '{{CHCCCS038_1}}' })]);
+    });
+
+    it('reports unclosed, unopened, invalid and unbalanced tags', () => {
+        const { malformed } = inspectTemplate(buildDocx([['{{Student_Name'], ['Name}}'], ['{{bad name}}'], ['{{#CHCCCS038_1}}'], ['{{/CHCCCS038_2}}']]));
+        expect(malformed.map(issue => issue.kind)).toEqual(['unclosed', 'unopened', 'invalid', 'unbalanced', 'unbalanced']);
+    });
+
+    it('refuses files that are not Word documents', () => {
+        expect(() => inspectTemplate(Buffer.from('not a zip'))).toThrow(TemplateInspectionError);
+        const zip = new PizZip();
+        zip.file('other.xml', '<x/>');
+        expect(() => inspectTemplate(zip.generate({ type: 'nodebuffer' }))).toThrow(/no document body/);
+    });
+});
+
+describe('lintTemplate', () => {
+    it('expects the student name and one placeholder per question', () => {
+        expect(getExpectedPlaceholders(schema)).toEqual(['Student_Name', 'CHCCCS038_1', 'CHCCCS038_2']);
+    });
+
+    it('passes a template with every placeholder', () => {
+        const report = lintTemplate(inspectTemplate(buildDocx([['{{Student_Name}}'], ['{{CHCCCS038_1}}'], ['{{#CHCCCS038_2}}{{note}}{{/CHCCCS038_2}}']])), schema);
+        expect(report).toMatchObject({ ok: true, missing: [], extra: [], malformed: [] });
+    });
+
+    it('lists missing and extra placeholders, including unknown question fields', () => {
+        const report = lintTemplate(inspectTemplate(buildDocx([['{{Student_Name}}'], ['{{CHCCCS099_1}}'], ['{{#CHCCCS038_1}}{{performnce}}{{/CHCCCS038_1}}']])), schema);
+        expect(report.ok).toBe(false);
+        expect(report.missing).toEqual(['CHCCCS038_2']);
+        expect(report.extra).toEqual(['CHCCCS099_1', 'CHCCCS038_1 > performnce']);
+    });
+});
@@ -0,0 +1,212 @@
+import PizZip from 'pizzip';
+import { getQuestionKeys, type AssessmentSchema } from '@/lib/assessment-schema';
+
+/**
+ * Reads the `{{...}}` tags of a DOCX template and checks them against an assessment schema, so a template
+ * can be checked before it is used to fill documents.
+ *
+ * The template has one tag per question, `{{#CHCCCS038_1}}` ... `{{/CHCCCS038_1}}` (or a plain
+ * `{{CHCCCS038_1}}` in older templates), plus `{{Student_Name}}`. Inside a question section the
+ * template uses the fields of the question's value, such as `{{#criteria}}` and `{{performance}}`.
+ */
+
+export const STUDENT_NAME_TAG = 'Student_Name';
+
+// Fields of a question's value (TemplateQuestion in document-formats) and of its criteria and action parts
+const QUESTION_FIELDS = new Set([
+    'note', 'answered', 'criteria', 'conclusion', 'overallOutcome', 'justification',
+    'number', 'question', 'performance', 'action', 'outcome', 'text', 'quote',
+]);
+
+const TAG_NAME_PATTERN = /^[A-Za-z_][\w.]*$/;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/** `value` is `{{name}}`; `section` and `inverted` open `{{#name}}` and `{{^name}}`; `close` is `{{/name}}`. */
+export type TemplateTagKind = 'value' | 'section' | 'inverted' | 'close';
+
+export interface TemplateTag {
+    /** The part of the DOCX the tag is in, e.g. `word/document.xml`. */
+    part: string;
+    /** The tag as written, e.g. `{{#CHCCCS038_1}}`. */
+    raw: string;
+    kind: TemplateTagKind;
+    name: string;
+    /** Names of the sections the tag is inside, outermost first. */
+    scope: string[];
+    /** Number of Word runs the tag is spread over; Word splits tags when they are edited or spell-checked. */
+    runs: number;
+}
+
+export type TemplateIssueKind = 'split' | 'unclosed' | 'unopened' | 'invalid' | 'unbalanced';
+
+export interface TemplateIssue {
+    kind: TemplateIssueKind;
+    part: string;
+    /** The tag or text at fault. */
+    text: string;
+    message: string;
+}
+
+export interface TemplateInspection {
+    tags: TemplateTag[];
+    malformed: TemplateIssue[];
+}
+
+export interface TemplateLintReport {
+    /** True when no placeholder is missing, extra or malformed. */
+    ok: boolean;
+    /** Number of tags in the template. */
+    tagCount: number;
+    /** Placeholders the schema expects that the template does not have. */
+    missing: string[];
+    /** Tags the schema does not know, e.g. `CHCCCS099_1` or `CHCCCS038_1 > performnce`. */
+    extra: string[];
+    malformed: TemplateIssue[];
+}
+
+/**
+ * Raised when a file cannot be read as a DOCX template.
+ */
+export class TemplateInspectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateInspectionError';
+    }
+}
+
+/**
+ * Lists every tag in a DOCX template with the sections it sits in, and every tag that is malformed:
+ * split across runs, missing a brace, badly named, or a section that is not closed in order.
+ * @param template The DOCX file.
+ * @throws TemplateInspectionError if the file is not a Word document.
+ */
+export function inspectTemplate(template: Buffer): TemplateInspection {
+    let zip: PizZip;
+    try {
+        zip = new PizZip(template);
+    } catch (error: any) {
+        throw new TemplateInspectionError(`The template could not be opened as a Word document (${error.message}).`);
+    }
+    const parts = Object.keys(zip.files)
+        .filter(name => /^word\/(document|header\d*|footer\d*)\.xml$/.test(name))
+        .sort((a, b) => (a === 'word/document.xml' ? -1 : b === 'word/document.xml' ? 1 : a.localeCompare(b)));
+    if (!parts.includes('word/document.xml')) {
+        throw new TemplateInspectionError('The template has no document body.');
+    }
+
+    const tags: TemplateTag[] = [];
+    const malformed: TemplateIssue[] = [];
+    for (const part of parts) {
+        inspectPart(part, zip.file(part)!.asText(), tags, malformed);
+    }
+    return { tags, malformed };
+}
+
+function inspectPart(part: string, xml: string, tags: TemplateTag[], malformed: TemplateIssue[]) {
+    const open: string[] = [];
+    // Docxtemplater reads tags per paragraph, so a tag cannot run on into the next one
+    for (const paragraph of xml.split(/<\/w:p>/)) {
+        const runs = Array.from(paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g), match =>
+            match[1].replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => XML_ENTITIES[name])
+        );
+        if (!runs.some(text => text.includes('{') || text.includes('}'))) continue;
+
+        // Where each run starts in the paragraph's text
+        const starts: number[] = [];
+        let text = '';
+        for (const run of runs) {
+            starts.push(text.length);
+            text += run;
+        }
+        const runAt = (offset: number) => starts.filter(start => start <= offset).length - 1;
+
+        for (const match of text.matchAll(/\{\{(.*?)\}\}/g)) {
+            const raw = match[0];
+            const spread = runAt(match.index! + raw.length - 1) - runAt(match.index!) + 1;
+            if (spread > 1) {
+                malformed.push({ kind: 'split', part, text: raw, message: `${raw} is split across ${spread} Word runs.` });
+            }
+
+            const body = match[1];
+            const prefix = /^[#^/]/.test(body) ? body[0] : '';
+            const name = body.slice(prefix.length);
+            if (!TAG_NAME_PATTERN.test(name)) {
+                malformed.push({ kind: 'invalid', part, text: raw, message: `${raw} is not a valid tag name.` });
+                continue;
+            }
+
+            const kind: TemplateTagKind = prefix === '#' ? 'section' : prefix === '^' ? 'inverted' : prefix === '/' ? 'close' : 'value';
+            if (kind === 'close') {
+                if (open[open.length - 1] === name) {
+                    open.pop();
+                } else {
+                    malformed.push({
+                        kind: 'unbalanced', part, text: raw,
+                        message: open.length > 0
+                            ? `${raw} closes a section while {{#${open[open.length - 1]}}} is still open.`
+                            : `${raw} closes a section that was never opened.`,
+                    });
+                }
+            }
+            tags.push({ part, raw, kind, name, scope: [...open], runs: spread });
+            if (kind === 'section' || kind === 'inverted') open.push(name);
+        }
+
+        const rest = text.replace(/\{\{(.*?)\}\}/g, '');
+        if (rest.includes('{{')) {
+            const fragment = rest.slice(rest.indexOf('{{'), rest.indexOf('{{') + 30);
+            malformed.push({ kind: 'unclosed', part, text: fragment, message: `"${fragment}" opens a tag that is not closed in the same paragraph.` });
+        }
+        if (rest.includes('}}')) {
+            const fragment = rest.slice(Math.max(0, rest.indexOf('}}') - 28), rest.indexOf('}}') + 2);
+            malformed.push({ kind: 'unopened', part, text: fragment, message: `"${fragment}" closes a tag that was not opened.` });
+        }
+    }
+    for (const name of open) {
+        malformed.push({ kind: 'unbalanced', part, text: `{{#${name}}}`, message: `{{#${name}}} is never closed.` });
+    }
+}
+
+/**
+ * Lists the placeholders a template needs for a schema: the student's name and one per question.
+ * @returns e.g. `Student_Name`, `CHCCCS031_1`, `CHCCCS031_2`, ...
+ */
+export function getExpectedPlaceholders(schema: AssessmentSchema): string[] {
+    return [
+        STUDENT_NAME_TAG,
+        ...Object.keys(schema).flatMap(unitCode => getQuestionKeys(schema[unitCode]).map(questionKey => `${unitCode}_${questionKey}`)),
+    ];
+}
+
+/**
+ * Compares a template's tags with the placeholders a schema expects.
+ * @param inspection The template's tags, from inspectTemplate.
+ * @param schema The assessment schema the template is filled from.
+ * @returns The missing, extra and malformed placeholders.
+ */
+export function lintTemplate(inspection: TemplateInspection, schema: AssessmentSchema): TemplateLintReport {
+    const expected = getExpectedPlaceholders(schema);
+    const placeholders = new Set(expected);
+
+    const found = new Set<string>();
+    const extra = new Set<string>();
+    for (const tag of inspection.tags) {
+        if (tag.kind === 'close') continue;
+        if (tag.scope.length === 0) {
+            if (placeholders.has(tag.name)) found.add(tag.name);
+            else extra.add(tag.name);
+        } else if (!QUESTION_FIELDS.has(tag.name)) {
+            extra.add(`${tag.scope.join(' > ')} > ${tag.name}`);
+        }
+    }
+
+    const missing = expected.filter(name => !found.has(name));
+    return {
+        ok: missing.length === 0 && extra.size === 0 && inspection.malformed.length === 0,
+        tagCount: inspection.tags.length,
+        missing,
+        extra: [...extra],
+        malformed: inspection.malformed,
+    };
+}
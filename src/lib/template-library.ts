@@ -0,0 +1,147 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { loadQualificationSchema, resolveQualificationPath, type Qualification } from '@/lib/qualifications';
+import { getReportStore, type TemplateRecord } from '@/lib/storage';
+import { inspectTemplate, lintTemplate, type TemplateLintReport } from '@/lib/template-inspection';
+
+/**
+ * The template library: DOCX templates uploaded through the app, kept as numbered versions with a
+ * changelog. Each qualification fills documents from the library version marked as its default, or
+ * from the template configured in qualifications.json while none is marked.
+ *
+ * - `TEMPLATE_LIBRARY_DIR`: where uploaded files are kept; `data/templates` by default.
+ */
+
+/**
+ * Raised when a template cannot be used, e.g. it belongs to another qualification.
+ */
+export class TemplateLibraryError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateLibraryError';
+    }
+}
+
+/**
+ * Raised when a template version or its file does not exist.
+ */
+export class TemplateNotFoundError extends TemplateLibraryError {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TemplateNotFoundError';
+    }
+}
+
+/**
+ * Raised when an uploaded template fails the placeholder check.
+ */
+export class TemplateValidationError extends TemplateLibraryError {
+    constructor(message: string, public readonly report: TemplateLintReport) {
+        super(message);
+        this.name = 'TemplateValidationError';
+    }
+}
+
+/** Which template a document was filled from. */
+export interface TemplateSource {
+    /** The library version, or null for the template configured in qualifications.json. */
+    id: string | null;
+    name: string;
+    version: number | null;
+}
+
+export interface TemplateUpload {
+    qualification: Qualification;
+    /** Versions share a name; a new name starts at version 1. */
+    name: string;
+    changelog: string;
+    filename: string;
+    data: Buffer;
+    /** Store the version even if placeholders are missing, extra or split across runs. */
+    force?: boolean;
+}
+
+function libraryDir(env: NodeJS.ProcessEnv = process.env): string {
+    return env.TEMPLATE_LIBRARY_DIR || path.join(process.cwd(), 'data', 'templates');
+}
+
+/**
+ * Checks an uploaded template's placeholders against its qualification's schema and stores it as the next version.
+ * Templates whose tags docxtemplater cannot parse (unclosed tags, bad names, unbalanced sections) are always refused.
+ * @returns The stored version.
+ * @throws TemplateInspectionError if the file is not a Word document.
+ * @throws TemplateValidationError if the placeholder check fails.
+ */
+export async function addTemplate({ qualification, name, changelog, filename, data, force = false }: TemplateUpload): Promise<TemplateRecord> {
+    const { schema } = await loadQualificationSchema(qualification);
+    const report = lintTemplate(inspectTemplate(data), schema);
+
+    if (report.malformed.some(issue => issue.kind !== 'split')) {
+        throw new TemplateValidationError(`${filename} has malformed placeholders and cannot be used to fill documents.`, report);
+    }
+    if (!report.ok && !force) {
+        throw new TemplateValidationError(
+            `${filename} does not match the ${qualification.code} schema: ${report.missing.length} missing, `
+            + `${report.extra.length} extra and ${report.malformed.length} split placeholder(s).`,
+            report
+        );
+    }
+
+    const dir = libraryDir();
+    await fs.mkdir(dir, { recursive: true });
+    const filePath = path.join(dir, `${randomUUID()}.docx`);
+    await fs.writeFile(filePath, data);
+    try {
+        return await getReportStore().addTemplateVersion({
+            qualification: qualification.code,
+            name,
+            filename,
+            path: path.relative(process.cwd(), filePath),
+            changelog,
+            lint: report,
+        });
+    } catch (error) {
+        await fs.rm(filePath, { force: true });
+        throw error;
+    }
+}
+
+/**
+ * Reads the template to fill a qualification's documents from.
+ * @param qualification The qualification the document is for.
+ * @param templateId A library version picked by the assessor; the qualification's default when omitted.
+ * @returns The DOCX and where it came from, or null if the template configured in qualifications.json is missing.
+ * @throws TemplateNotFoundError if the picked version or its file does not exist.
+ * @throws TemplateLibraryError if the picked version belongs to another qualification.
+ */
+export async function readTemplate(qualification: Qualification, templateId?: string | null): Promise<{ template: Buffer; source: TemplateSource } | null> {
+    const store = getReportStore();
+    let record: TemplateRecord | null = null;
+    if (templateId) {
+        record = await store.getTemplate(templateId);
+        if (!record) throw new TemplateNotFoundError(`Template '${templateId}' not found.`);
+        if (record.qualification !== qualification.code) {
+            throw new TemplateLibraryError(`Template '${record.name}' v${record.version} is for ${record.qualification}, not ${qualification.code}.`);
+        }
+    } else {
+        record = await store.getDefaultTemplate(qualification.code);
+    }
+
+    if (record) {
+        try {
+            const template = await fs.readFile(resolveQualificationPath(record.path));
+            return { template, source: { id: record.id, name: record.name, version: record.version } };
+        } catch {
+            throw new TemplateNotFoundError(`The file of template '${record.name}' v${record.version} is missing.`);
+        }
+    }
+
+    try {
+        const template = await fs.readFile(resolveQualificationPath(qualification.template));
+        return { template, source: { id: null, name: qualification.template, version: null } };
+    } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+    }
+}
@@ -0,0 +1,92 @@
+import PizZip from 'pizzip';
+import { describe, expect, it } from 'vitest';
+import { importTranscript, TranscriptImportError } from '@/lib/transcript-import';
+
+/** Builds a DOCX whose body has one paragraph per line. */
+function buildDocx(paragraphs: string[]): Buffer {
+    const body = paragraphs.map(text => `<w:p><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`).join('');
+    const zip = new PizZip();
+    zip.file('word/document.xml', `<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`);
+    return zip.generate({ type: 'nodebuffer' });
+}
+
+// A Teams caption export: voice tags, a cue split over two lines and a NOTE block
+const TEAMS_VTT = `WEBVTT
+
+NOTE exported from Teams
+
+1
+00:00:03.120 --> 00:00:06.480
+<v Kim Nguyen>How would you start the shift?</v>
+
+2
+00:00:07.000 --> 00:00:10.250
+<v Jane Citizen>I would read the handover notes
+and check the care plan.</v>
+
+3
+00:00:10.300 --> 00:00:12.000
+<v Jane Citizen>Then I would greet Mrs Lee.</v>
+`;
+
+// A Zoom caption export: speakers as a text prefix, SRT timings with commas
+const ZOOM_SRT = `1
+00:01:02,500 --> 00:01:04,000
+Kim Nguyen: What do you record?
+
+2
+00:01:05,000 --> 00:01:08,000
+Jane Citizen: Anything that changed &
+how she was feeling.
+`;
+
+describe('importTranscript', () => {
+    it('reads cue timestamps and voice tags, joining consecutive cues of one speaker', () => {
+        const { format, entries, text } = importTranscript('meeting.vtt', Buffer.from(TEAMS_VTT));
+        expect(format).toBe('vtt');
+        expect(entries).toEqual([
+            { start: 3.12, end: 6.48, speaker: 'Kim Nguyen', text: 'How would you start the shift?' },
+            { start: 7, end: 12, speaker: 'Jane Citizen', text: 'I would read the handover notes and check the care plan. Then I would greet Mrs Lee.' },
+        ]);
+        expect(text).toBe([
+            '[00:00:03] Kim Nguyen: How would you start the shift?',
+            '[00:00:07] Jane Citizen: I would read the handover notes and check the care plan. Then I would greet Mrs Lee.',
+        ].join('\n'));
+    });
+
+    it('reads speaker prefixes and multi-line cues from SRT, including SRT saved as text', () => {
+        const srt = importTranscript('zoom.srt', Buffer.from(ZOOM_SRT));
+        expect(srt.entries).toEqual([
+            { start: 62.5, end: 64, speaker: 'Kim Nguyen', text: 'What do you record?' },
+            { start: 65, end: 68, speaker: 'Jane Citizen', text: 'Anything that changed & how she was feeling.' },
+        ]);
+        expect(importTranscript('zoom.txt', Buffer.from(ZOOM_SRT))).toEqual(srt);
+    });
+
+    it('reads a Teams DOCX body with speaker and time headers', () => {
+        const { format, text } = importTranscript('Transcript.docx', buildDocx([
+            'Kim Nguyen   0:03',
+            'How would you start the shift?',
+            'Jane Citizen   0:07',
+            'I would read the handover notes &amp; the care plan.',
+        ]));
+        expect(format).toBe('docx');
+        expect(text).toBe([
+            '[00:00:03] Kim Nguyen: How would you start the shift?',
+            '[00:00:07] Jane Citizen: I would read the handover notes & the care plan.',
+        ].join('\n'));
+    });
+
+    it('keeps plain text without speakers or timestamps as written', () => {
+        const { format, text } = importTranscript('notes.txt', Buffer.from('\uFEFFFirst line\nsecond line\n'));
+        expect(format).toBe('text');
+        expect(text).toBe('First line\nsecond line');
+    });
+
+    it('refuses unsupported, unreadable and empty files', () => {
+        expect(() => importTranscript('audio.mp3', Buffer.from('x'))).toThrow(TranscriptImportError);
+        expect(() => importTranscript('audio.mp3', Buffer.from('x'))).toThrow(expect.objectContaining({ name: 'TranscriptImportError' }));
+        expect(() => importTranscript('broken.docx', Buffer.from('not a zip'))).toThrow(/could not be opened/);
+        expect(() => importTranscript('empty.vtt', Buffer.from('WEBVTT\n'))).toThrow(/no transcript text/);
+    });
+});
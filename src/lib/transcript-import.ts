@@ -0,0 +1,149 @@
+import path from 'path';
+import PizZip from 'pizzip';
+import {
+    parseTimestamp, parseTranscriptText, renderTranscript, type ParsedTranscript, type TranscriptEntry, type TranscriptFormat,
+} from '@/lib/transcript-model';
+
+/**
+ * Reads uploaded transcript files — plain text, WebVTT and SRT captions (as exported by Zoom and Teams)
+ * and Word documents (Teams' DOCX transcript download) — into the transcript model.
+ */
+
+export const TRANSCRIPT_FILE_EXTENSIONS = ['.txt', '.vtt', '.srt', '.docx'];
+
+/**
+ * Thrown when an uploaded file cannot be read as a transcript.
+ */
+export class TranscriptImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TranscriptImportError';
+    }
+}
+
+export interface ImportedTranscript extends ParsedTranscript {
+    /** The transcript text to show and generate from. */
+    text: string;
+}
+
+const CUE_TIMING = /^\s*(\S+)\s+-->\s+(\S+)/;
+/** Teams marks the speaker of a caption with a voice span: `<v Jane Citizen>text</v>`. */
+const VOICE_TAG = /^<v(?:\.[\w.-]+)?\s+([^>]+)>/;
+/** Zoom prefixes each caption with the speaker: `Jane Citizen: text`. */
+const CUE_SPEAKER = /^([^:]{1,60}):\s+(.+)$/;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Reads caption cues (WebVTT or SRT). Consecutive cues from the same speaker are joined into one entry,
+ * since caption files split speech every few seconds.
+ */
+function parseCues(text: string): TranscriptEntry[] {
+    const entries: TranscriptEntry[] = [];
+    const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+    for (const block of blocks) {
+        const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+        const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+        // Skips the WEBVTT header and NOTE / STYLE / REGION blocks, which have no timing line
+        if (timingIndex < 0) continue;
+
+        const [, startText, endText] = lines[timingIndex].match(CUE_TIMING)!;
+        let speaker: string | null = null;
+        let cueText = lines.slice(timingIndex + 1).join(' ');
+
+        const voice = cueText.match(VOICE_TAG);
+        if (voice) speaker = voice[1].trim();
+        cueText = cueText.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+        if (!speaker) {
+            const spoken = cueText.match(CUE_SPEAKER);
+            if (spoken) [, speaker, cueText] = spoken;
+        }
+        if (!cueText) continue;
+
+        const entry = { start: parseTimestamp(startText), end: parseTimestamp(endText), speaker, text: cueText };
+        const previous = entries[entries.length - 1];
+        if (previous && previous.speaker === speaker) {
+            previous.text = `${previous.text} ${entry.text}`;
+            previous.end = entry.end;
+        } else {
+            entries.push(entry);
+        }
+    }
+    return entries;
+}
+
+/**
+ * Extracts the paragraphs of a Word document as lines of text.
+ */
+function readDocxParagraphs(name: string, data: Buffer): string {
+    let documentXml: string | undefined;
+    try {
+        documentXml = new PizZip(data).file('word/document.xml')?.asText();
+    } catch (error: any) {
+        throw new TranscriptImportError(`${name}: could not be opened as a Word document (${error.message}).`);
+    }
+    if (!documentXml) throw new TranscriptImportError(`${name}: the Word document has no body.`);
+
+    return documentXml
+        .split(/<\/w:p>/)
+        .map(paragraph => paragraph
+            .replace(/<w:tab\/>/g, '\t')
+            .replace(/<w:br\/>/g, '\n')
+            .replace(/<(?!\/?w:t[ >])[^>]+>/g, '')
+            .replace(/<w:t[^>]*>|<\/w:t>/g, '')
+            .replace(/&(amp|lt|gt|quot|apos);/g, (_, name: string) => XML_ENTITIES[name]))
+        .join('\n');
+}
+
+/**
+ * Works out the format from the file extension, or for text files from the content.
+ */
+function detectFormat(name: string, data: Buffer): TranscriptFormat {
+    const extension = path.extname(name).toLowerCase();
+    if (extension === '.docx') return 'docx';
+    if (extension === '.vtt') return 'vtt';
+    if (extension === '.srt') return 'srt';
+    if (extension && !TRANSCRIPT_FILE_EXTENSIONS.includes(extension)) {
+        throw new TranscriptImportError(`${name}: unsupported file type; expected ${TRANSCRIPT_FILE_EXTENSIONS.join(', ')}.`);
+    }
+    // Caption files are sometimes saved as .txt
+    const start = data.subarray(0, 512).toString('utf8').replace(/^\uFEFF/, '');
+    if (start.startsWith('WEBVTT')) return 'vtt';
+    if (/^\d+\r?\n\d{1,2}:\d{2}:\d{2},\d+ --> /.test(start)) return 'srt';
+    return 'text';
+}
+
+/**
+ * Parses an uploaded transcript file.
+ * @param name The file name, used to pick the format.
+ * @param data The file contents.
+ * @returns The detected format, the transcript entries and their rendered text. Plain text without
+ * speakers or timestamps is returned as written, so its line breaks are kept.
+ * @throws TranscriptImportError if the file type is unsupported or no transcript text is found.
+ */
+export function importTranscript(name: string, data: Buffer): ImportedTranscript {
+    const format = detectFormat(name, data);
+    let entries: TranscriptEntry[];
+    switch (format) {
+        case 'vtt':
+        case 'srt':
+            entries = parseCues(data.toString('utf8'));
+            break;
+        case 'docx':
+            entries = parseTranscriptText(readDocxParagraphs(name, data), { speakerTimeHeaders: true });
+            break;
+        default: {
+            const text = data.toString('utf8').replace(/^\uFEFF/, '');
+            entries = parseTranscriptText(text);
+            if (entries.length > 0 && entries.every(entry => entry.start === null && entry.speaker === null)) {
+                return { format, entries, text: text.trim() };
+            }
+        }
+    }
+
+    if (entries.length === 0) {
+        throw new TranscriptImportError(`${name}: no transcript text found.`);
+    }
+    return { format, entries, text: renderTranscript(entries) };
+}
@@ -0,0 +1,188 @@
+/**
+ * The speaker-labelled, timestamped transcript model. Imported recordings are normalised into entries
+ * and rendered as one line per entry, e.g. `[00:01:02] Jane Citizen: I asked for consent first.`,
+ * which is the text stored with a report and sent for generation. Pasted transcripts in that layout,
+ * or in plain `Speaker: text` lines, parse back into the same model.
+ *
+ * Kept free of server-only imports so the form can use it.
+ */
+
+export type TranscriptFormat = 'text' | 'vtt' | 'srt' | 'docx';
+
+export interface TranscriptEntry {
+    /** Seconds from the start of the recording, when known. */
+    start: number | null;
+    end: number | null;
+    speaker: string | null;
+    text: string;
+}
+
+export interface ParsedTranscript {
+    format: TranscriptFormat;
+    entries: TranscriptEntry[];
+}
+
+export interface TextParseOptions {
+    /**
+     * Also accept a speaker and time on a line of their own, followed by what was said, as in Teams
+     * DOCX exports ("Jane Citizen   0:03"). Off by default, since ordinary prose can end in a time.
+     */
+    speakerTimeHeaders?: boolean;
+}
+
+const TIME = String.raw`\d{1,2}:\d{1,2}(?::\d{1,2})?(?:[.,]\d+)?`;
+
+/** A rendered line: optional `[timestamp]`, optional `Speaker:`, then the text. */
+const ENTRY_LINE = new RegExp(String.raw`^\[(${TIME})\]\s*(?:([^:\[\].?!]{1,40}):\s+)?(.*)$`);
+/** An untimed `Speaker: text` line; the speaker must look like a name or role, such as `Assessor (as Client)`, not a sentence. */
+const SPEAKER_LINE = /^([A-Z][\w.'’-]*(?: [A-Z0-9][\w.'’-]*){0,4}(?: \([^)]{1,30}\))?):\s+(.+)$/;
+/** Zoom's saved captions: `[Jane Citizen] 10:02:33` above the text. */
+const ZOOM_HEADER = new RegExp(String.raw`^\[([^\]]{1,60})\]\s+(${TIME})\s*$`);
+/** Teams DOCX: `Jane Citizen   0:03` above the text. */
+const TEAMS_HEADER = new RegExp(String.raw`^([^\d:][^:]{0,59}?)\s+(${TIME})\s*$`);
+
+// The same layouts split into prefix, speaker and remainder, for relabelling in place
+const ENTRY_LINE_PARTS = new RegExp(String.raw`^(\s*\[${TIME}\]\s*)([^:\[\].?!]{1,40})(:\s+.*)$`);
+const SPEAKER_LINE_PARTS = /^(\s*)([A-Z][\w.'’-]*(?: [A-Z0-9][\w.'’-]*){0,4}(?: \([^)]{1,30}\))?)(:\s+.+)$/;
+const ZOOM_HEADER_PARTS = new RegExp(String.raw`^(\s*\[)([^\]]{1,60})(\]\s+${TIME}\s*)$`);
+
+/**
+ * Parses a time such as `1:02:03.450`, `01:02:03,450` or `02:03` into seconds.
+ * @returns The seconds, or null if the text is not a time.
+ */
+export function parseTimestamp(value: string): number | null {
+    if (!new RegExp(`^${TIME}$`).test(value.trim())) return null;
+    return value.trim().replace(',', '.').split(':').map(Number).reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Formats seconds as `hh:mm:ss`.
+ */
+export function formatTimestamp(seconds: number): string {
+    const whole = Math.floor(seconds);
+    return [Math.floor(whole / 3600), Math.floor((whole % 3600) / 60), whole % 60]
+        .map(part => String(part).padStart(2, '0'))
+        .join(':');
+}
+
+/**
+ * Renders entries as transcript text, one line per entry.
+ * @param entries The transcript entries.
+ * @returns The text shown in the form and used for generation.
+ */
+export function renderTranscript(entries: TranscriptEntry[]): string {
+    return entries.map(({ start, speaker, text }) => {
+        const time = start !== null ? `[${formatTimestamp(start)}] ` : '';
+        return `${time}${speaker ? `${speaker}: ` : ''}${text}`;
+    }).join('\n');
+}
+
+/**
+ * Parses transcript text into entries. Lines that do not start a new entry continue the previous one.
+ * @param text The transcript text.
+ * @param options Which extra layouts to accept.
+ * @returns The entries, in order.
+ */
+export function parseTranscriptText(text: string, options: TextParseOptions = {}): TranscriptEntry[] {
+    const entries: TranscriptEntry[] = [];
+    // Set when a header line gave the speaker and time, so the next line starts that entry's text
+    let pending: Omit<TranscriptEntry, 'text'> | null = null;
+
+    for (const rawLine of (text || '').replace(/\r\n?/g, '\n').split('\n')) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        const header = line.match(ZOOM_HEADER) || (options.speakerTimeHeaders ? line.match(TEAMS_HEADER) : null);
+        if (header) {
+            pending = { start: parseTimestamp(header[2]), end: null, speaker: header[1].trim() };
+            continue;
+        }
+        if (pending) {
+            entries.push({ ...pending, text: line });
+            pending = null;
+            continue;
+        }
+
+        const entry = line.match(ENTRY_LINE);
+        if (entry) {
+            entries.push({ start: parseTimestamp(entry[1]), end: null, speaker: entry[2]?.trim() || null, text: entry[3] });
+            continue;
+        }
+        const spoken = line.match(SPEAKER_LINE);
+        if (spoken) {
+            entries.push({ start: null, end: null, speaker: spoken[1], text: spoken[2] });
+            continue;
+        }
+
+        const previous = entries[entries.length - 1];
+        if (previous) {
+            previous.text = `${previous.text} ${line}`;
+        } else {
+            entries.push({ start: null, end: null, speaker: null, text: line });
+        }
+    }
+    return entries;
+}
+
+/**
+ * Reads the timestamp a rendered line starts with.
+ * @returns The `hh:mm:ss` timestamp, or null if the line has none.
+ */
+export function lineTimestamp(line: string): string | null {
+    const match = line.trim().match(ENTRY_LINE);
+    const seconds = match ? parseTimestamp(match[1]) : null;
+    return seconds === null ? null : formatTimestamp(seconds);
+}
+
+/**
+ * Reads the speaker label a line starts with.
+ * @returns The speaker, or null if the line does not name one.
+ */
+export function lineSpeaker(line: string): string | null {
+    const trimmed = line.trim();
+    const match = trimmed.match(ZOOM_HEADER) || trimmed.match(SPEAKER_LINE);
+    if (match) return match[1].trim();
+    return trimmed.match(ENTRY_LINE)?.[2]?.trim() || null;
+}
+
+/**
+ * Reads what was said on a line, without its timestamp or speaker label.
+ * @returns The spoken text; empty for a header line that only gives the speaker and time.
+ */
+export function lineText(line: string): string {
+    const trimmed = line.trim();
+    if (ZOOM_HEADER.test(trimmed)) return '';
+    const entry = trimmed.match(ENTRY_LINE);
+    if (entry) return entry[3];
+    return trimmed.match(SPEAKER_LINE)?.[2] ?? trimmed;
+}
+
+/**
+ * Whether any line of the transcript carries a timestamp.
+ */
+export function isTimestamped(text: string): boolean {
+    return (text || '').split(/\r?\n/).some(line => lineTimestamp(line) !== null);
+}
+
+/**
+ * Renames the speakers of a transcript's lines, leaving every other character and the line numbering unchanged.
+ * @param text The transcript text.
+ * @param rename Returns the new label for a speaker, or null to keep it.
+ * @returns The relabelled text.
+ */
+export function relabelSpeakers(text: string, rename: (speaker: string) => string | null): string {
+    return (text || '').replace(/\r\n?/g, '\n').split('\n').map(line => {
+        const zoom = line.match(ZOOM_HEADER_PARTS);
+        if (zoom) return `${zoom[1]}${rename(zoom[2].trim()) ?? zoom[2]}${zoom[3]}`;
+        const entry = line.match(ENTRY_LINE_PARTS) || line.match(SPEAKER_LINE_PARTS);
+        if (entry) return `${entry[1]}${rename(entry[2].trim()) ?? entry[2]}${entry[3]}`;
+        return line;
+    }).join('\n');
+}
+
+/**
+ * Lists the distinct speakers in order of first appearance.
+ */
+export function listSpeakers(entries: TranscriptEntry[]): string[] {
+    return Array.from(new Set(entries.map(entry => entry.speaker).filter((speaker): speaker is string => !!speaker)));
+}